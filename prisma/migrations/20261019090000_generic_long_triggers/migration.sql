@@ -0,0 +1,90 @@
+/*
+  Warnings:
+
+  - Per-trigger columns on `long_watch` and `long_state` move into `long_trigger_config` / `long_trigger_state`.
+    Existing values are copied before the columns are dropped.
+
+*/
+-- CreateTable
+CREATE TABLE "long_trigger_config" (
+    "coin_id" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "enabled" BOOLEAN,
+    "config_json" TEXT NOT NULL DEFAULT '{}',
+    "updated_at_utc" INTEGER NOT NULL,
+
+    PRIMARY KEY ("coin_id", "kind"),
+    CONSTRAINT "long_trigger_config_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "long_watch" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "long_trigger_state" (
+    "coin_id" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "last_fire_utc" INTEGER,
+    "last_fire_price" REAL,
+    "state_json" TEXT NOT NULL DEFAULT '{}',
+
+    PRIMARY KEY ("coin_id", "kind"),
+    CONSTRAINT "long_trigger_state_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "coin" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CopyTriggerConfig
+INSERT INTO "long_trigger_config" ("coin_id", "kind", "enabled", "config_json", "updated_at_utc")
+SELECT "coin_id", 'retrace', "retrace_on", json_object('pct', "retrace_pct"), "added_at_utc" FROM "long_watch";
+INSERT INTO "long_trigger_config" ("coin_id", "kind", "enabled", "config_json", "updated_at_utc")
+SELECT "coin_id", 'stall', "stall_on", json_object('volPct', "stall_vol_pct", 'bandPct', "stall_band_pct"), "added_at_utc" FROM "long_watch";
+INSERT INTO "long_trigger_config" ("coin_id", "kind", "enabled", "config_json", "updated_at_utc")
+SELECT "coin_id", 'breakout', "breakout_on", json_object('pct', "breakout_pct", 'volX', "breakout_vol_x"), "added_at_utc" FROM "long_watch";
+INSERT INTO "long_trigger_config" ("coin_id", "kind", "enabled", "config_json", "updated_at_utc")
+SELECT "coin_id", 'mcap', "mcap_on",
+       json_object('levels', CASE
+         WHEN json_valid('[' || COALESCE("mcap_levels", '') || ']') THEN json('[' || COALESCE("mcap_levels", '') || ']')
+         ELSE json('[]')
+       END),
+       "added_at_utc"
+FROM "long_watch";
+
+-- CopyTriggerState
+INSERT INTO "long_trigger_state" ("coin_id", "kind", "last_fire_utc", "last_fire_price")
+SELECT "coin_id", 'retrace', "last_retrace_fire_utc", "last_retrace_price" FROM "long_state" WHERE "last_retrace_fire_utc" IS NOT NULL;
+INSERT INTO "long_trigger_state" ("coin_id", "kind", "last_fire_utc", "last_fire_price")
+SELECT "coin_id", 'stall', "last_stall_fire_utc", "last_stall_price" FROM "long_state" WHERE "last_stall_fire_utc" IS NOT NULL;
+INSERT INTO "long_trigger_state" ("coin_id", "kind", "last_fire_utc", "last_fire_price")
+SELECT "coin_id", 'breakout', "last_breakout_fire_utc", "last_breakout_price" FROM "long_state" WHERE "last_breakout_fire_utc" IS NOT NULL;
+INSERT INTO "long_trigger_state" ("coin_id", "kind", "last_fire_utc")
+SELECT "coin_id", 'mcap', "last_mcap_fire_utc" FROM "long_state" WHERE "last_mcap_fire_utc" IS NOT NULL;
+
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_long_watch" (
+    "coin_id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "added_at_utc" INTEGER NOT NULL,
+    "notes" TEXT,
+    CONSTRAINT "long_watch_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "coin" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_long_watch" ("added_at_utc", "coin_id", "notes") SELECT "added_at_utc", "coin_id", "notes" FROM "long_watch";
+DROP TABLE "long_watch";
+ALTER TABLE "new_long_watch" RENAME TO "long_watch";
+CREATE TABLE "new_long_state" (
+    "coin_id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "h12_high" REAL,
+    "h24_high" REAL,
+    "h72_high" REAL,
+    "h12_low" REAL,
+    "h24_low" REAL,
+    "h72_low" REAL,
+    "v12_sum" REAL,
+    "v24_sum" REAL,
+    "last_price" REAL,
+    "last_mcap" REAL,
+    "last_updated_utc" INTEGER NOT NULL,
+    CONSTRAINT "long_state_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "coin" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_long_state" ("coin_id", "h12_high", "h12_low", "h24_high", "h24_low", "h72_high", "h72_low", "last_mcap", "last_price", "last_updated_utc", "v12_sum", "v24_sum") SELECT "coin_id", "h12_high", "h12_low", "h24_high", "h24_low", "h72_high", "h72_low", "last_mcap", "last_price", "last_updated_utc", "v12_sum", "v24_sum" FROM "long_state";
+DROP TABLE "long_state";
+ALTER TABLE "new_long_state" RENAME TO "long_state";
+CREATE INDEX "long_state_last_updated_utc_idx" ON "long_state"("last_updated_utc");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
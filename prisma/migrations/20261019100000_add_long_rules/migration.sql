@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "long_rule" (
+    "rule_id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "coin_id" INTEGER NOT NULL,
+    "expression" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at_utc" INTEGER NOT NULL,
+    "last_fire_utc" INTEGER,
+    CONSTRAINT "long_rule_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "long_watch" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "long_rule_coin_id_idx" ON "long_rule"("coin_id");
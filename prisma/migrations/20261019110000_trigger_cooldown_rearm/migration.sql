@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "long_trigger_config" ADD COLUMN "cooldown_hours" REAL;
+ALTER TABLE "long_trigger_config" ADD COLUMN "rearm_pct" REAL;
+
+-- AlterTable
+ALTER TABLE "long_trigger_state" ADD COLUMN "armed" BOOLEAN NOT NULL DEFAULT true;
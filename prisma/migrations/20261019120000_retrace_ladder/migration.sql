@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "schedule_cfg" ADD COLUMN "retrace_ladder" TEXT NOT NULL DEFAULT '';
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "hot_entry" ADD COLUMN "peak_price" REAL;
+ALTER TABLE "hot_entry" ADD COLUMN "last_price" REAL;
+
+-- Best known peak for existing entries is the price they were added at
+UPDATE "hot_entry" SET "peak_price" = (
+    SELECT MAX("anchor_price") FROM "hot_trigger_state" WHERE "hot_trigger_state"."hot_id" = "hot_entry"."hot_id"
+);
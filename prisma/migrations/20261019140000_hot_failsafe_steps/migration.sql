@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "hot_entry" ADD COLUMN "failsafe_steps" TEXT;
+ALTER TABLE "hot_entry" ADD COLUMN "failsafe_fired_steps" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "schedule_cfg" ADD COLUMN "hot_failsafe_steps" TEXT NOT NULL DEFAULT '60';
+
+-- Entries that already fired the old fixed 60% failsafe keep it fired
+UPDATE "hot_entry" SET "failsafe_fired_steps" = '60' WHERE "failsafe_fired" = true;
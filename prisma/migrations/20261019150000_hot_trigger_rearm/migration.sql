@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "hot_trigger_state" ADD COLUMN "rearm_band_pct" REAL;
+ALTER TABLE "hot_trigger_state" ADD COLUMN "fire_count" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "hot_trigger_state" ADD COLUMN "last_fired_utc" INTEGER;
+
+-- Triggers that already fired count as fired once
+UPDATE "hot_trigger_state" SET "fire_count" = 1 WHERE "fired" = true;
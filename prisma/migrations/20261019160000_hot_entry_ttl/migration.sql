@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "hot_entry" ADD COLUMN "low_price" REAL;
+ALTER TABLE "hot_entry" ADD COLUMN "expires_at_utc" INTEGER;
+
+-- Best known low for existing entries: the lower of the anchor and the last price seen
+UPDATE "hot_entry" SET "low_price" = (
+    SELECT MIN("anchor_price") FROM "hot_trigger_state" WHERE "hot_trigger_state"."hot_id" = "hot_entry"."hot_id"
+);
+UPDATE "hot_entry" SET "low_price" = "last_price"
+WHERE "last_price" IS NOT NULL AND ("low_price" IS NULL OR "last_price" < "low_price");
+
+-- CreateIndex
+CREATE INDEX "hot_entry_is_active_expires_at_utc_idx" ON "hot_entry"("is_active", "expires_at_utc");
@@ -0,0 +1,47 @@
+/*
+  Warnings:
+
+  - `hot_entry.contract_address` is no longer unique on its own; each chat has its own entry per token.
+  - Existing long list coins get no subscription and existing hot entries no owner here. The bot
+    assigns them to its default chat (group chat, otherwise admin chat) on startup.
+
+*/
+-- CreateTable
+CREATE TABLE "chat" (
+    "chat_id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "title" TEXT,
+    "created_at_utc" INTEGER NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "telegram_user" (
+    "user_id" TEXT NOT NULL PRIMARY KEY,
+    "username" TEXT,
+    "first_name" TEXT,
+    "created_at_utc" INTEGER NOT NULL,
+    "last_seen_utc" INTEGER NOT NULL
+);
+
+-- CreateTable
+CREATE TABLE "long_subscription" (
+    "chat_id" TEXT NOT NULL,
+    "coin_id" INTEGER NOT NULL,
+    "added_at_utc" INTEGER NOT NULL,
+
+    PRIMARY KEY ("chat_id", "coin_id"),
+    CONSTRAINT "long_subscription_chat_id_fkey" FOREIGN KEY ("chat_id") REFERENCES "chat" ("chat_id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "long_subscription_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "long_watch" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "long_subscription_coin_id_idx" ON "long_subscription"("coin_id");
+
+-- AlterTable
+ALTER TABLE "hot_entry" ADD COLUMN "chat_id" TEXT REFERENCES "chat" ("chat_id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- DropIndex
+DROP INDEX "hot_entry_contract_address_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hot_entry_chat_id_contract_address_key" ON "hot_entry"("chat_id", "contract_address");
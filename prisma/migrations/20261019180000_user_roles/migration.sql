@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "telegram_user" ADD COLUMN "role" TEXT;
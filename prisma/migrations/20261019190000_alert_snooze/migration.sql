@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "alert_snooze" (
+    "snooze_id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "chat_id" TEXT NOT NULL,
+    "coin_id" INTEGER,
+    "hot_id" INTEGER,
+    "trigger_kind" TEXT,
+    "expires_at_utc" INTEGER NOT NULL,
+    "created_at_utc" INTEGER NOT NULL,
+    CONSTRAINT "alert_snooze_chat_id_fkey" FOREIGN KEY ("chat_id") REFERENCES "chat" ("chat_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "alert_snooze_chat_id_expires_at_utc_idx" ON "alert_snooze"("chat_id", "expires_at_utc");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "alert_snooze" ADD COLUMN "label" TEXT NOT NULL DEFAULT '';
+ALTER TABLE "alert_snooze" ADD COLUMN "suppressed_json" TEXT NOT NULL DEFAULT '{}';
+ALTER TABLE "alert_snooze" ADD COLUMN "ended_at_utc" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "alert_snooze_ended_at_utc_expires_at_utc_idx" ON "alert_snooze"("ended_at_utc", "expires_at_utc");
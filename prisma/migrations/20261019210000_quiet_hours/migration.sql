@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "schedule_cfg" ADD COLUMN "quiet_hours" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "outbox" ADD COLUMN "deferred" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "outbox" ADD COLUMN "group_key" TEXT;
+
+-- CreateIndex
+CREATE INDEX "outbox_deferred_sent_ok_idx" ON "outbox"("deferred", "sent_ok");
@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "outbox" ADD COLUMN "parse_mode" TEXT;
+ALTER TABLE "outbox" ADD COLUMN "disable_preview" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "outbox" ADD COLUMN "reply_markup" TEXT;
+ALTER TABLE "outbox" ADD COLUMN "attempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "outbox" ADD COLUMN "next_attempt_utc" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "outbox" ADD COLUMN "last_error" TEXT;
+ALTER TABLE "outbox" ADD COLUMN "failed_ts_utc" INTEGER;
+
+-- Unsent rows from before the worker lack their send options; don't replay them
+UPDATE "outbox" SET "failed_ts_utc" = "ts_utc" WHERE "sent_ok" = false AND "deferred" = false;
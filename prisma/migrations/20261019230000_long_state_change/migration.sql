@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "long_state" ADD COLUMN "price_change_24h" REAL;
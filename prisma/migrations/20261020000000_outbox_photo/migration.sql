@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "outbox" ADD COLUMN "photo" BLOB;
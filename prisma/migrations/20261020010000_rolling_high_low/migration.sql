@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "rolling_data_points" ADD COLUMN "high" REAL;
+ALTER TABLE "rolling_data_points" ADD COLUMN "low" REAL;
@@ -0,0 +1,72 @@
+/*
+  Warnings:
+
+  - `long_trigger_config`, `long_trigger_state` and `long_rule` are keyed by chat as well as coin.
+    Each chat subscribed to a coin gets its own copy of the coin's settings, fire state and rules.
+  - Rows for coins no chat subscribes to yet get chat_id '' and go to the chat that claims the
+    coin on startup. A rule keeps its id for the first subscribed chat; other chats get new ids.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_long_trigger_config" (
+    "chat_id" TEXT NOT NULL,
+    "coin_id" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "enabled" BOOLEAN,
+    "config_json" TEXT NOT NULL DEFAULT '{}',
+    "cooldown_hours" REAL,
+    "rearm_pct" REAL,
+    "updated_at_utc" INTEGER NOT NULL,
+
+    PRIMARY KEY ("chat_id", "coin_id", "kind"),
+    CONSTRAINT "long_trigger_config_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "long_watch" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_long_trigger_config" ("chat_id", "coin_id", "kind", "enabled", "config_json", "cooldown_hours", "rearm_pct", "updated_at_utc")
+SELECT COALESCE(s."chat_id", ''), c."coin_id", c."kind", c."enabled", c."config_json", c."cooldown_hours", c."rearm_pct", c."updated_at_utc"
+FROM "long_trigger_config" c LEFT JOIN "long_subscription" s ON s."coin_id" = c."coin_id";
+DROP TABLE "long_trigger_config";
+ALTER TABLE "new_long_trigger_config" RENAME TO "long_trigger_config";
+CREATE INDEX "long_trigger_config_coin_id_idx" ON "long_trigger_config"("coin_id");
+CREATE TABLE "new_long_trigger_state" (
+    "chat_id" TEXT NOT NULL,
+    "coin_id" INTEGER NOT NULL,
+    "kind" TEXT NOT NULL,
+    "last_fire_utc" INTEGER,
+    "last_fire_price" REAL,
+    "armed" BOOLEAN NOT NULL DEFAULT true,
+    "state_json" TEXT NOT NULL DEFAULT '{}',
+
+    PRIMARY KEY ("chat_id", "coin_id", "kind"),
+    CONSTRAINT "long_trigger_state_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "coin" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_long_trigger_state" ("chat_id", "coin_id", "kind", "last_fire_utc", "last_fire_price", "armed", "state_json")
+SELECT COALESCE(s."chat_id", ''), t."coin_id", t."kind", t."last_fire_utc", t."last_fire_price", t."armed", t."state_json"
+FROM "long_trigger_state" t LEFT JOIN "long_subscription" s ON s."coin_id" = t."coin_id";
+DROP TABLE "long_trigger_state";
+ALTER TABLE "new_long_trigger_state" RENAME TO "long_trigger_state";
+CREATE INDEX "long_trigger_state_coin_id_idx" ON "long_trigger_state"("coin_id");
+CREATE TABLE "new_long_rule" (
+    "rule_id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "chat_id" TEXT NOT NULL,
+    "coin_id" INTEGER NOT NULL,
+    "expression" TEXT NOT NULL,
+    "enabled" BOOLEAN NOT NULL DEFAULT true,
+    "created_at_utc" INTEGER NOT NULL,
+    "last_fire_utc" INTEGER,
+    CONSTRAINT "long_rule_coin_id_fkey" FOREIGN KEY ("coin_id") REFERENCES "long_watch" ("coin_id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+INSERT INTO "new_long_rule" ("rule_id", "chat_id", "coin_id", "expression", "enabled", "created_at_utc", "last_fire_utc")
+SELECT r."rule_id", COALESCE((SELECT MIN(s."chat_id") FROM "long_subscription" s WHERE s."coin_id" = r."coin_id"), ''), r."coin_id", r."expression", r."enabled", r."created_at_utc", r."last_fire_utc"
+FROM "long_rule" r;
+INSERT INTO "new_long_rule" ("chat_id", "coin_id", "expression", "enabled", "created_at_utc", "last_fire_utc")
+SELECT s."chat_id", r."coin_id", r."expression", r."enabled", r."created_at_utc", r."last_fire_utc"
+FROM "long_rule" r JOIN "long_subscription" s ON s."coin_id" = r."coin_id"
+WHERE s."chat_id" > (SELECT MIN(f."chat_id") FROM "long_subscription" f WHERE f."coin_id" = r."coin_id")
+ORDER BY r."rule_id", s."chat_id";
+DROP TABLE "long_rule";
+ALTER TABLE "new_long_rule" RENAME TO "long_rule";
+CREATE INDEX "long_rule_coin_id_chat_id_idx" ON "long_rule"("coin_id", "chat_id");
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
@@ -0,0 +1,32 @@
+/*
+  Warnings:
+
+  - `hysteresis_pct` is the default re-arm band for long list triggers without their own `rearm_pct`.
+    It defaults to 0 and existing rows are reset to 0, so coins without overrides keep firing on
+    the cooldown alone as before.
+
+*/
+-- RedefineTables
+PRAGMA defer_foreign_keys=ON;
+PRAGMA foreign_keys=OFF;
+CREATE TABLE "new_schedule_cfg" (
+    "cfg_id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+    "anchor_times_local" TEXT NOT NULL,
+    "anchor_period_hours" INTEGER NOT NULL DEFAULT 12,
+    "long_checkpoint_hours" INTEGER NOT NULL DEFAULT 6,
+    "hot_interval_minutes" INTEGER NOT NULL DEFAULT 5,
+    "cooldown_hours" REAL NOT NULL DEFAULT 2.0,
+    "hysteresis_pct" REAL NOT NULL DEFAULT 0,
+    "global_retrace_on" BOOLEAN NOT NULL DEFAULT true,
+    "global_stall_on" BOOLEAN NOT NULL DEFAULT true,
+    "global_breakout_on" BOOLEAN NOT NULL DEFAULT true,
+    "global_mcap_on" BOOLEAN NOT NULL DEFAULT false,
+    "retrace_ladder" TEXT NOT NULL DEFAULT '',
+    "hot_failsafe_steps" TEXT NOT NULL DEFAULT '60',
+    "quiet_hours" TEXT NOT NULL DEFAULT ''
+);
+INSERT INTO "new_schedule_cfg" ("cfg_id", "anchor_times_local", "anchor_period_hours", "long_checkpoint_hours", "hot_interval_minutes", "cooldown_hours", "hysteresis_pct", "global_retrace_on", "global_stall_on", "global_breakout_on", "global_mcap_on", "retrace_ladder", "hot_failsafe_steps", "quiet_hours") SELECT "cfg_id", "anchor_times_local", "anchor_period_hours", "long_checkpoint_hours", "hot_interval_minutes", "cooldown_hours", 0, "global_retrace_on", "global_stall_on", "global_breakout_on", "global_mcap_on", "retrace_ladder", "hot_failsafe_steps", "quiet_hours" FROM "schedule_cfg";
+DROP TABLE "schedule_cfg";
+ALTER TABLE "new_schedule_cfg" RENAME TO "schedule_cfg";
+PRAGMA foreign_keys=ON;
+PRAGMA defer_foreign_keys=OFF;
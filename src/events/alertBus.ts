@@ -129,7 +129,8 @@ export class AlertEventBus extends EventEmitter {
       case 'breakout':
         return 'high';
       case 'mcap':
-        return 'normal';
+        // Losing a level is worth more attention than reaching one
+        return trigger.direction === 'down' ? 'high' : 'normal';
       case 'stall':
         return 'low';
       default:
@@ -140,11 +141,15 @@ export class AlertEventBus extends EventEmitter {
   private getHotAlertPriority(alert: HotAlert): 'low' | 'normal' | 'high' | 'critical' {
     switch (alert.alertType) {
       case 'failsafe':
-        return 'critical';
+        return alert.severity === 'warn' ? 'high' : 'critical';
       case 'pct':
         return Math.abs(alert.deltaFromAnchor) > 50 ? 'high' : 'normal';
+      case 'trail':
+        return 'high';
       case 'mcap':
         return 'normal';
+      case 'expired':
+        return 'low';
       default:
         return 'normal';
     }
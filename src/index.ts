@@ -11,6 +11,7 @@ import { RateLimitService } from './services/rateLimiter';
 import { DataValidator } from './utils/validation';
 import { RollingWindowManager } from './services/rollingWindow';
 import { BackfillService } from './services/backfill';
+import { createCandleProvider } from './services/candles';
 import { globalHealthCheck } from './services/health';
 import { globalJobQueue } from './services/jobQueue';
 import { globalAlertBus } from './events/alertBus';
@@ -18,6 +19,8 @@ import { globalErrorHandler, withErrorHandling, createErrorContext } from './uti
 import { logger } from './utils/logger';
 import { registerHeliusWebhookRoutes } from './services/heliusWebhook';
 import { WebSocketIngestService } from './services/ws';
+import { HotPriceStream } from './services/ws/HotPriceStream';
+import { TransactionFetcher } from './services/ws/TransactionFetcher';
 import { globalMemoryMonitor } from './services/memoryMonitor';
 import { globalDatabaseCleanup } from './services/databaseCleanup';
 // On-demand report via Telegram command; no scheduler import here
@@ -28,6 +31,7 @@ interface AppConfig {
   telegramBotToken: string;
   telegramChatId: string;
   telegramGroupChatId: string | undefined;
+  telegramAdminUserId: string;
   databaseUrl: string;
   timezone: string;
   rateLimitMs: number;
@@ -48,6 +52,7 @@ class FollowCoinBot {
   private config: AppConfig;
   private isShuttingDown = false;
   private wsIngest: WebSocketIngestService | null = null;
+  private hotPriceStream: HotPriceStream | null = null;
   private alertStates = new Map<string, string>(); // Track alert states for state-based alerting
 
   constructor() {
@@ -70,10 +75,20 @@ class FollowCoinBot {
       throw new Error(error);
     }
 
+    // The bootstrap owner is a user, so a group admin chat (negative id) needs the user id spelled out
+    const adminUserId = process.env.TELEGRAM_ADMIN_USER_ID
+      || (process.env.TELEGRAM_CHAT_ID!.startsWith('-') ? undefined : process.env.TELEGRAM_CHAT_ID!);
+    if (!adminUserId) {
+      const error = 'TELEGRAM_CHAT_ID is a group chat; set TELEGRAM_ADMIN_USER_ID to the user who owns the bot';
+      logger.error('Config error:', error);
+      throw new Error(error);
+    }
+
     const config = {
       telegramBotToken: process.env.TELEGRAM_BOT_TOKEN!,
       telegramChatId: process.env.TELEGRAM_CHAT_ID!,
       telegramGroupChatId: process.env.TELEGRAM_GROUP_CHAT_ID || undefined,
+      telegramAdminUserId: adminUserId,
       databaseUrl: process.env.DATABASE_URL!,
       timezone: process.env.TIMEZONE || 'UTC',
       rateLimitMs: parseInt(process.env.DEXSCREENER_RATE_LIMIT_MS || '200'),
@@ -162,7 +177,9 @@ class FollowCoinBot {
 
     this.dexScreener = new DexScreenerService(this.config.rateLimitMs);
     this.rollingWindow = new RollingWindowManager();
-    this.backfill = new BackfillService(this.dexScreener, this.rollingWindow);
+    this.backfill = new BackfillService(this.dexScreener, this.rollingWindow, createCandleProvider(), {
+      allowSyntheticFallback: (process.env.BACKFILL_SYNTHETIC || 'false') === 'true'
+    });
 
     // Register job handlers
     globalJobQueue.addHandler({
@@ -180,6 +197,7 @@ class FollowCoinBot {
       this.config.telegramBotToken,
       this.config.telegramChatId,
       this.config.telegramGroupChatId,
+      this.config.telegramAdminUserId,
       this.db,
       this.longList,
       this.hotList,
@@ -197,9 +215,9 @@ class FollowCoinBot {
       id: 'telegram_sender',
       handler: async (event) => {
         if (event.type === 'long_trigger') {
-          await this.telegram.sendTriggerAlert(event.data);
+          await this.telegram.sendTriggerAlert(event.data, event.priority);
         } else if (event.type === 'hot_alert') {
-          await this.telegram.sendHotAlert(event.data);
+          await this.telegram.sendHotAlert(event.data, event.priority);
         }
       }
     });
@@ -255,6 +273,21 @@ class FollowCoinBot {
           this.wsIngest = new WebSocketIngestService();
           this.wsIngest.start();
           logger.info('WebSocket ingest enabled');
+
+          // Hot list prices from pool swaps on the same connection; polling stays as the fallback
+          const registry = this.wsIngest.getSubscriptionRegistry();
+          const httpPool = this.wsIngest.getHttpEndpointPool();
+          if (registry && httpPool && (process.env.WS_HOT_STREAM || 'true') === 'true') {
+            this.hotPriceStream = new HotPriceStream({
+              registry,
+              // Its own fetcher, so hot list swaps don't queue behind mint ingest; endpoint health is shared
+              fetcher: new TransactionFetcher({ pool: httpPool, concurrency: 1 }),
+              debounceMs: parseInt(process.env.WS_HOT_DEBOUNCE_MS || '1500'),
+              onPrice: (update) => this.hotList.handleStreamPrice(update)
+            });
+            this.hotList.setPriceStream(this.hotPriceStream);
+            logger.info('Hot list price stream enabled');
+          }
         } catch (e) {
           logger.error('Failed to start WS ingest', e);
         }
@@ -312,7 +345,11 @@ class FollowCoinBot {
           process: {
             alive: true,
             scheduler: this.scheduler.isSchedulerRunning()
-          }
+          },
+          // Null unless WS ingest is running
+          websocket: this.wsIngest?.getSubscriptionStats() ?? null,
+          rpc: this.wsIngest?.getRpcStatus() ?? null,
+          backfill: this.wsIngest?.getGapStats() ?? null
         };
         
         res.json(stats);
@@ -642,6 +679,9 @@ class FollowCoinBot {
         await this.db.disconnect();
         logger.info('Database service stopped');
       }
+      if (this.hotPriceStream) {
+        this.hotPriceStream.stop();
+      }
       if (this.wsIngest) {
         this.wsIngest.stop();
         logger.info('WS ingest stopped');
@@ -141,20 +141,10 @@ class BulkAddService {
         }
       });
 
-      // Create long watch config with default settings
+      // Create long watch entry; trigger settings fall back to the registry defaults
       await this.prisma.longWatch.create({
         data: {
-          coinId: coin.coinId,
-          retraceOn: true,
-          retracePct: 15,
-          stallOn: true,
-          stallVolPct: 30,
-          stallBandPct: 5,
-          breakoutOn: true,
-          breakoutPct: 12,
-          breakoutVolX: 1.5,
-          mcapOn: false,
-          mcapLevels: ''
+          coinId: coin.coinId
         }
       });
 
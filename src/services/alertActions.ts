@@ -0,0 +1,80 @@
+import { InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
+
+export type AlertActionType = 'snooze' | 'mute' | 'remove' | 'hot' | 'chart';
+
+export interface AlertAction {
+  action: AlertActionType;
+  // 'long' targets a coinId, 'hot' a hotId
+  list: 'long' | 'hot';
+  id: number;
+  // Trigger that fired: a long trigger kind or `rule:<ruleId>`, a hot `pct:-20`, `mcap:1000000`, `trail:15` or `failsafe`
+  kind?: string | undefined;
+}
+
+export const SNOOZE_BUTTON_HOURS = 4;
+
+// Telegram rejects callback data over 64 bytes, so actions and lists use short codes
+const ACTION_CODES: Record<AlertActionType, string> = {
+  snooze: 'snz',
+  mute: 'mute',
+  remove: 'rm',
+  hot: 'hot',
+  chart: 'chart'
+};
+const MAX_CALLBACK_BYTES = 64;
+
+export const ALERT_ACTION_PATTERN = /^act:/;
+
+export function encodeAlertAction(action: AlertAction): string {
+  const parts = ['act', ACTION_CODES[action.action], action.list === 'long' ? 'l' : 'h', action.id.toString()];
+  if (action.kind) {
+    parts.push(action.kind);
+  }
+
+  const data = parts.join(':');
+  if (Buffer.byteLength(data) > MAX_CALLBACK_BYTES) {
+    throw new Error(`Callback data too long: ${data}`);
+  }
+  return data;
+}
+
+/**
+ * Parses button callback data; null for anything that isn't a well-formed alert action.
+ */
+export function decodeAlertAction(data: string): AlertAction | null {
+  const [prefix, code, list, id, ...kindParts] = data.split(':');
+  const action = (Object.keys(ACTION_CODES) as AlertActionType[]).find(key => ACTION_CODES[key] === code);
+  if (prefix !== 'act' || !action || (list !== 'l' && list !== 'h') || !id || !/^\d+$/.test(id)) {
+    return null;
+  }
+
+  // Kinds may contain colons themselves (rule:12, pct:-20)
+  const kind = kindParts.join(':');
+  return {
+    action,
+    list: list === 'l' ? 'long' : 'hot',
+    id: parseInt(id, 10),
+    ...(kind ? { kind } : {})
+  };
+}
+
+/**
+ * Buttons under a long trigger or hot alert. Long alerts can be promoted to the hot list;
+ * hot alerts are already there.
+ */
+export function buildAlertKeyboard(list: 'long' | 'hot', id: number, kind?: string): InlineKeyboardMarkup {
+  const button = (text: string, action: AlertActionType) => ({
+    text,
+    callback_data: encodeAlertAction({ action, list, id, kind })
+  });
+
+  const rows = [
+    [button(`😴 Snooze ${SNOOZE_BUTTON_HOURS}h`, 'snooze'), button('🔕 Mute trigger', 'mute')],
+    [button('🗑 Remove from list', 'remove'), button('📈 Show chart data', 'chart')]
+  ];
+  if (list === 'long') {
+    rows.push([button('🔥 Add to hot list at current price', 'hot')]);
+  }
+
+  return { inline_keyboard: rows };
+}
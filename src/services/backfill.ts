@@ -3,31 +3,41 @@ import { RollingWindowManager, DataPoint } from './rollingWindow';
 import { DatabaseManager } from '../utils/database';
 import { logger } from '../utils/logger';
 import { globalJobQueue } from './jobQueue';
+import { HistoricalCandleProvider } from '../types/candles';
 
 export interface BackfillConfig {
   maxHistoryHours: number;
+  candleIntervalMinutes: number;
   batchSize: number;
   delayBetweenBatches: number;
   maxRetries: number;
+  // Fall back to a synthetic random walk when the provider has no history.
+  // Off by default: synthetic points make triggers fire on made-up highs and lows.
+  allowSyntheticFallback: boolean;
 }
 
 export class BackfillService {
   private dexScreener: DexScreenerService;
   private rollingWindow: RollingWindowManager;
+  private candleProvider: HistoricalCandleProvider;
   private config: BackfillConfig;
 
   constructor(
     dexScreener: DexScreenerService,
     rollingWindow: RollingWindowManager,
+    candleProvider: HistoricalCandleProvider,
     config: Partial<BackfillConfig> = {}
   ) {
     this.dexScreener = dexScreener;
     this.rollingWindow = rollingWindow;
+    this.candleProvider = candleProvider;
     this.config = {
       maxHistoryHours: 96, // 4 days for safety margin
+      candleIntervalMinutes: 60,
       batchSize: 10,
       delayBetweenBatches: 2000,
       maxRetries: 3,
+      allowSyntheticFallback: false,
       ...config
     };
   }
@@ -43,9 +53,13 @@ export class BackfillService {
         return;
       }
 
-      // Generate historical data points (simulated since DexScreener doesn't provide historical data)
-      const historicalData = await this.generateHistoricalData(chain, tokenAddress);
-      
+      let historicalData = await this.fetchHistoricalData(chain, tokenAddress);
+
+      if (historicalData.length === 0 && this.config.allowSyntheticFallback) {
+        logger.warn(`No candles from ${this.candleProvider.name} for coin ${coinId}, using synthetic history`);
+        historicalData = await this.generateSyntheticData(chain, tokenAddress);
+      }
+
       if (historicalData.length === 0) {
         logger.warn(`No historical data available for coin ${coinId}`);
         return;
@@ -118,7 +132,45 @@ export class BackfillService {
     }
   }
 
-  private async generateHistoricalData(chain: string, tokenAddress: string): Promise<DataPoint[]> {
+  private async fetchHistoricalData(chain: string, tokenAddress: string): Promise<DataPoint[]> {
+    try {
+      const now = Math.floor(Date.now() / 1000);
+      const candles = await this.candleProvider.getCandles(chain, tokenAddress, {
+        fromTs: now - this.config.maxHistoryHours * 60 * 60,
+        toTs: now,
+        intervalMinutes: this.config.candleIntervalMinutes
+      });
+
+      if (candles.length === 0) {
+        return [];
+      }
+
+      // Candles carry no supply info, so scale market cap from the current pair assuming constant supply
+      const currentData = await this.dexScreener.getPairInfo(chain, tokenAddress);
+
+      return candles.map(candle => {
+        const dataPoint: DataPoint = {
+          timestamp: candle.timestamp,
+          price: candle.close,
+          high: candle.high,
+          low: candle.low,
+          volume: candle.volume
+        };
+
+        if (currentData?.marketCap && currentData.price > 0) {
+          dataPoint.marketCap = currentData.marketCap * (candle.close / currentData.price);
+        }
+
+        return dataPoint;
+      });
+
+    } catch (error) {
+      logger.error(`Failed to fetch candles from ${this.candleProvider.name} for ${chain}:${tokenAddress}:`, error);
+      return [];
+    }
+  }
+
+  private async generateSyntheticData(chain: string, tokenAddress: string): Promise<DataPoint[]> {
     try {
       // Get current data point as baseline
       const currentData = await this.dexScreener.getPairInfo(chain, tokenAddress);
@@ -130,8 +182,7 @@ export class BackfillService {
       const now = Math.floor(Date.now() / 1000);
       const hoursBack = this.config.maxHistoryHours;
 
-      // Generate synthetic historical data with realistic patterns
-      // In a real implementation, you'd fetch from a historical data provider
+      // Random walk around the current price; only used when allowSyntheticFallback is set
       let basePrice = currentData.price;
       let baseVolume = currentData.volume24h;
 
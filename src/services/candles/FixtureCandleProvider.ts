@@ -0,0 +1,44 @@
+import fs from 'fs';
+import path from 'path';
+import { Candle, CandleQuery, HistoricalCandleProvider } from '../../types/candles';
+import { logger } from '../../utils/logger';
+
+/**
+ * Serves candles from memory or from `<chain>_<tokenAddress>.json` files
+ * (an array of Candle objects). Used for tests and offline development.
+ */
+export class FixtureCandleProvider implements HistoricalCandleProvider {
+  readonly name = 'fixture';
+  private readonly fixtures = new Map<string, Candle[]>();
+
+  constructor(private readonly fixtureDir?: string) {}
+
+  setCandles(chain: string, tokenAddress: string, candles: Candle[]): void {
+    this.fixtures.set(this.key(chain, tokenAddress), candles);
+  }
+
+  async getCandles(chain: string, tokenAddress: string, query: CandleQuery): Promise<Candle[]> {
+    const candles = this.fixtures.get(this.key(chain, tokenAddress)) || this.loadFromDisk(chain, tokenAddress);
+    return candles
+      .filter(candle => candle.timestamp >= query.fromTs && candle.timestamp <= query.toTs)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private loadFromDisk(chain: string, tokenAddress: string): Candle[] {
+    if (!this.fixtureDir) return [];
+
+    const file = path.join(this.fixtureDir, `${this.key(chain, tokenAddress)}.json`);
+    if (!fs.existsSync(file)) return [];
+
+    try {
+      return JSON.parse(fs.readFileSync(file, 'utf8')) as Candle[];
+    } catch (error) {
+      logger.error(`Failed to read candle fixture ${file}:`, error);
+      return [];
+    }
+  }
+
+  private key(chain: string, tokenAddress: string): string {
+    return `${chain}_${tokenAddress}`;
+  }
+}
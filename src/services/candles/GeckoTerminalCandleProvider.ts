@@ -0,0 +1,112 @@
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import { Candle, CandleQuery, HistoricalCandleProvider } from '../../types/candles';
+import { logger } from '../../utils/logger';
+
+interface GeckoPoolsResponse {
+  data: Array<{
+    id: string;
+    attributes: {
+      address: string;
+      reserve_in_usd?: string | null;
+    };
+  }>;
+}
+
+interface GeckoOhlcvResponse {
+  data?: {
+    attributes?: {
+      // [timestamp, open, high, low, close, volume], newest first
+      ohlcv_list?: Array<[number, number, number, number, number, number]>;
+    };
+  };
+}
+
+// GeckoTerminal network ids differ from DexScreener chain ids for a few chains
+const NETWORK_MAP: Record<string, string> = {
+  solana: 'solana',
+  ethereum: 'eth',
+  bsc: 'bsc',
+  base: 'base',
+  arbitrum: 'arbitrum',
+  polygon: 'polygon_pos',
+  avalanche: 'avax'
+};
+
+const MAX_CANDLES_PER_REQUEST = 1000;
+
+export class GeckoTerminalCandleProvider implements HistoricalCandleProvider {
+  readonly name = 'geckoterminal';
+  private readonly client: AxiosInstance;
+  private readonly poolCache = new Map<string, string>();
+
+  constructor(baseURL: string = 'https://api.geckoterminal.com/api/v2') {
+    this.client = axios.create({
+      baseURL,
+      timeout: 15000,
+      headers: {
+        'Accept': 'application/json',
+        'User-Agent': 'follow-coin-bot/1.0.0'
+      }
+    });
+  }
+
+  async getCandles(chain: string, tokenAddress: string, query: CandleQuery): Promise<Candle[]> {
+    const network = NETWORK_MAP[chain] || chain;
+    const poolAddress = await this.findTopPool(network, tokenAddress);
+    if (!poolAddress) {
+      logger.warn(`GeckoTerminal has no pool for ${chain}:${tokenAddress}`);
+      return [];
+    }
+
+    const { timeframe, aggregate } = this.resolveTimeframe(query.intervalMinutes);
+    const intervalSec = query.intervalMinutes * 60;
+    const limit = Math.min(MAX_CANDLES_PER_REQUEST, Math.ceil((query.toTs - query.fromTs) / intervalSec) + 1);
+
+    const response: AxiosResponse<GeckoOhlcvResponse> = await this.client.get(
+      `/networks/${network}/pools/${poolAddress}/ohlcv/${timeframe}`,
+      {
+        params: {
+          aggregate,
+          limit,
+          before_timestamp: query.toTs + intervalSec,
+          currency: 'usd',
+          token: 'base'
+        }
+      }
+    );
+
+    const rows = response.data?.data?.attributes?.ohlcv_list || [];
+    return rows
+      .map(([timestamp, open, high, low, close, volume]) => ({ timestamp, open, high, low, close, volume }))
+      .filter(candle => candle.timestamp >= query.fromTs && candle.timestamp <= query.toTs && candle.close > 0)
+      .sort((a, b) => a.timestamp - b.timestamp);
+  }
+
+  private async findTopPool(network: string, tokenAddress: string): Promise<string | null> {
+    const cacheKey = `${network}:${tokenAddress}`;
+    const cached = this.poolCache.get(cacheKey);
+    if (cached) return cached;
+
+    const response: AxiosResponse<GeckoPoolsResponse> = await this.client.get(
+      `/networks/${network}/tokens/${tokenAddress}/pools`,
+      { params: { page: 1 } }
+    );
+
+    const pools = response.data?.data || [];
+    if (pools.length === 0) return null;
+
+    // Deepest pool gives the most representative price history
+    const best = pools.reduce((top, pool) =>
+      parseFloat(pool.attributes.reserve_in_usd || '0') > parseFloat(top.attributes.reserve_in_usd || '0') ? pool : top
+    );
+
+    this.poolCache.set(cacheKey, best.attributes.address);
+    return best.attributes.address;
+  }
+
+  private resolveTimeframe(intervalMinutes: number): { timeframe: 'minute' | 'hour' | 'day'; aggregate: number } {
+    if (intervalMinutes >= 1440) return { timeframe: 'day', aggregate: 1 };
+    if (intervalMinutes >= 60) return { timeframe: 'hour', aggregate: Math.round(intervalMinutes / 60) };
+    return { timeframe: 'minute', aggregate: intervalMinutes };
+  }
+}
@@ -0,0 +1,18 @@
+import { HistoricalCandleProvider } from '../../types/candles';
+import { GeckoTerminalCandleProvider } from './GeckoTerminalCandleProvider';
+import { FixtureCandleProvider } from './FixtureCandleProvider';
+
+export { GeckoTerminalCandleProvider, FixtureCandleProvider };
+
+export function createCandleProvider(): HistoricalCandleProvider {
+  const provider = (process.env.BACKFILL_PROVIDER || 'geckoterminal').toLowerCase();
+
+  switch (provider) {
+    case 'fixture':
+      return new FixtureCandleProvider(process.env.BACKFILL_FIXTURE_DIR);
+    case 'geckoterminal':
+      return new GeckoTerminalCandleProvider(process.env.GECKOTERMINAL_API_URL || undefined);
+    default:
+      throw new Error(`Unknown BACKFILL_PROVIDER: ${provider}`);
+  }
+}
@@ -0,0 +1,140 @@
+import { encodePng } from '../utils/png';
+import { DataPoint } from './rollingWindow';
+
+export interface PriceChartInput {
+  points: DataPoint[];
+  // Drops from the high to draw as threshold lines, in percent
+  retraceLevels: number[];
+  // Where a trigger fired, marked on the chart
+  fired?: { timestamp: number; price: number } | undefined;
+}
+
+type Color = readonly [number, number, number];
+
+export const CHART_HOURS = 72;
+const WIDTH = 640;
+const HEIGHT = 320;
+const MARGIN = 16;
+
+const BACKGROUND: Color = [255, 255, 255];
+const GRID: Color = [236, 239, 241];
+const PRICE: Color = [30, 136, 229];
+const HIGH: Color = [67, 160, 71];
+const THRESHOLD: Color = [251, 140, 0];
+const FIRED: Color = [229, 57, 53];
+
+class Raster {
+  readonly pixels: Uint8Array;
+
+  constructor(readonly width: number, readonly height: number, background: Color) {
+    this.pixels = new Uint8Array(width * height * 3);
+    for (let i = 0; i < width * height; i++) {
+      this.pixels.set(background, i * 3);
+    }
+  }
+
+  setPixel(x: number, y: number, color: Color): void {
+    const px = Math.round(x);
+    const py = Math.round(y);
+    if (px >= 0 && px < this.width && py >= 0 && py < this.height) {
+      this.pixels.set(color, (py * this.width + px) * 3);
+    }
+  }
+
+  /**
+   * Line of the given thickness; a dash length draws it dashed.
+   */
+  line(x0: number, y0: number, x1: number, y1: number, color: Color, thickness: number = 1, dash: number = 0): void {
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(x1 - x0), Math.abs(y1 - y0))));
+    for (let i = 0; i <= steps; i++) {
+      if (dash > 0 && Math.floor(i / dash) % 2 === 1) {
+        continue;
+      }
+      const x = x0 + ((x1 - x0) * i) / steps;
+      const y = y0 + ((y1 - y0) * i) / steps;
+      for (let t = 0; t < thickness; t++) {
+        this.setPixel(x, y + t - Math.floor(thickness / 2), color);
+      }
+    }
+  }
+
+  circle(cx: number, cy: number, radius: number, color: Color): void {
+    for (let dy = -radius; dy <= radius; dy++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        if (dx * dx + dy * dy <= radius * radius) {
+          this.setPixel(cx + dx, cy + dy, color);
+        }
+      }
+    }
+  }
+}
+
+// Candle wicks where backfill provided them, otherwise the sampled price
+const wickHigh = (point: DataPoint): number => point.high ?? point.price;
+const wickLow = (point: DataPoint): number => point.low ?? point.price;
+
+/**
+ * Highest high and lowest low of the points, wicks included, as the rolling 72h window counts them.
+ */
+export function getPriceRange(points: DataPoint[]): { high: number; low: number } {
+  return {
+    high: Math.max(...points.map(wickHigh)),
+    low: Math.min(...points.map(wickLow))
+  };
+}
+
+/**
+ * Renders the price line with its high, retrace thresholds and fire point as a PNG.
+ * Returns null with fewer than two points, since there is no line to draw.
+ */
+export function renderPriceChart(input: PriceChartInput): Buffer | null {
+  const points = [...input.points].sort((a, b) => a.timestamp - b.timestamp);
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (!first || !last || points.length < 2) {
+    return null;
+  }
+
+  const highPoint = points.reduce((best, point) => (wickHigh(point) > wickHigh(best) ? point : best), first);
+  const high = { timestamp: highPoint.timestamp, price: wickHigh(highPoint) };
+  const thresholds = input.retraceLevels.map(level => high.price * (1 - level / 100));
+  const prices = [...points.map(point => point.price), high.price, ...points.map(wickLow), ...thresholds, ...(input.fired ? [input.fired.price] : [])];
+  const minPrice = Math.min(...prices);
+  const maxPrice = Math.max(...prices);
+  // Keep a flat line off the edges
+  const padding = (maxPrice - minPrice) * 0.05 || maxPrice * 0.05 || 1;
+  const low = minPrice - padding;
+  const span = maxPrice + padding - low;
+
+  const startTs = first.timestamp;
+  const endTs = Math.max(last.timestamp, input.fired?.timestamp ?? 0);
+  const x = (timestamp: number) => MARGIN + ((timestamp - startTs) / Math.max(1, endTs - startTs)) * (WIDTH - 2 * MARGIN);
+  const y = (price: number) => HEIGHT - MARGIN - ((price - low) / span) * (HEIGHT - 2 * MARGIN);
+
+  const raster = new Raster(WIDTH, HEIGHT, BACKGROUND);
+  for (let i = 0; i <= 4; i++) {
+    const gy = MARGIN + (i * (HEIGHT - 2 * MARGIN)) / 4;
+    raster.line(MARGIN, gy, WIDTH - MARGIN, gy, GRID);
+  }
+
+  raster.line(MARGIN, y(high.price), WIDTH - MARGIN, y(high.price), HIGH, 1, 6);
+  for (const threshold of thresholds) {
+    raster.line(MARGIN, y(threshold), WIDTH - MARGIN, y(threshold), THRESHOLD, 2, 8);
+  }
+  if (input.fired) {
+    raster.line(x(input.fired.timestamp), MARGIN, x(input.fired.timestamp), HEIGHT - MARGIN, FIRED, 1, 4);
+  }
+
+  for (let i = 1; i < points.length; i++) {
+    const from = points[i - 1]!;
+    const to = points[i]!;
+    raster.line(x(from.timestamp), y(from.price), x(to.timestamp), y(to.price), PRICE, 2);
+  }
+
+  raster.circle(x(high.timestamp), y(high.price), 5, HIGH);
+  if (input.fired) {
+    raster.circle(x(input.fired.timestamp), y(input.fired.price), 6, FIRED);
+  }
+
+  return encodePng(WIDTH, HEIGHT, raster.pixels);
+}
@@ -0,0 +1,77 @@
+import { Formatters } from '../utils/formatters';
+import { PairInfo } from '../types/dexscreener';
+import { CoinData, LongRuleData, LongStateData, LongTriggerStateData } from '../types/database';
+
+export interface CoinDetails {
+  coin: CoinData;
+  // Null when the live lookup failed or found no pair
+  pair: PairInfo | null;
+  state?: LongStateData | undefined;
+  triggerStates: LongTriggerStateData[];
+  rules: LongRuleData[];
+  dataPoints: number;
+  warmupComplete: boolean;
+  alerts: Array<{ kind: string; message: string; timestamp: number }>;
+  onLongList: boolean;
+}
+
+/**
+ * Everything the bot knows about one coin, for /coin.
+ */
+export function formatCoinDetails(details: CoinDetails, timezone: string): string {
+  const { coin, pair, state } = details;
+  const ago = (tsUtc: number) => `${Formatters.formatDuration(Date.now() - tsUtc * 1000)} ago`;
+
+  let message = `🪙 *${coin.symbol}*${coin.name && coin.name !== coin.symbol ? ` (${coin.name})` : ''}\n`;
+  message += `\`${coin.tokenAddress}\`\n`;
+  message += `Chain: ${coin.chain} · ${details.onLongList ? 'On the long list' : 'Not on the long list'}\n\n`;
+
+  message += `💹 *Live*\n`;
+  if (!pair) {
+    message += 'Live data unavailable\n';
+  } else {
+    message += `Price: $${Formatters.formatPrice(pair.price)}\n`;
+    message += `Change: 1h ${Formatters.formatPriceChange(pair.priceChange1h)} · 24h ${Formatters.formatPriceChange(pair.priceChange24h)}\n`;
+    if (pair.marketCap !== null) message += `Market Cap: ${Formatters.formatMarketCap(pair.marketCap)}\n`;
+    message += `24h Volume: ${Formatters.formatVolume(pair.volume24h)}\n`;
+    if (pair.liquidity !== null) message += `Liquidity: ${Formatters.formatVolume(pair.liquidity)}\n`;
+    if (pair.txns) message += `24h Txns: ${pair.txns.h24.buys} buys / ${pair.txns.h24.sells} sells\n`;
+  }
+
+  message += `\n📊 *Rolling window*\n`;
+  message += `Data points: ${details.dataPoints} · Warmup: ${details.warmupComplete ? 'complete' : 'in progress (72h)'}\n`;
+  if (!state) {
+    message += 'No state recorded yet\n';
+  } else {
+    for (const [label, high, low] of [['12h', state.h12High, state.h12Low], ['24h', state.h24High, state.h24Low], ['72h', state.h72High, state.h72Low]] as const) {
+      message += `${label}: high ${high !== undefined ? `$${Formatters.formatPrice(high)}` : '-'} · low ${low !== undefined ? `$${Formatters.formatPrice(low)}` : '-'}\n`;
+    }
+    message += `Volume: 12h ${state.v12Sum !== undefined ? Formatters.formatVolume(state.v12Sum) : '-'} · 24h ${state.v24Sum !== undefined ? Formatters.formatVolume(state.v24Sum) : '-'}\n`;
+    message += `Updated ${ago(state.lastUpdatedUtc)}\n`;
+  }
+
+  message += `\n🎯 *Triggers*\n`;
+  if (details.triggerStates.length === 0 && details.rules.length === 0) {
+    message += 'No trigger has fired yet\n';
+  }
+  for (const trigger of details.triggerStates) {
+    message += `${trigger.kind}: `;
+    message += trigger.lastFireUtc
+      ? `fired ${ago(trigger.lastFireUtc)}${trigger.lastFirePrice !== undefined ? ` at $${Formatters.formatPrice(trigger.lastFirePrice)}` : ''}`
+      : 'never fired';
+    message += trigger.armed ? '\n' : ' (waiting to re-arm)\n';
+  }
+  for (const rule of details.rules) {
+    message += `rule #${rule.ruleId}${rule.enabled ? '' : ' (off)'}: ${rule.lastFireUtc ? `fired ${ago(rule.lastFireUtc)}` : 'never fired'}\n`;
+  }
+
+  message += `\n🔔 *Last ${details.alerts.length} alert${details.alerts.length === 1 ? '' : 's'}*\n`;
+  if (details.alerts.length === 0) {
+    message += 'None yet';
+  }
+  for (const alert of details.alerts) {
+    message += `• ${Formatters.formatTimestamp(alert.timestamp, timezone)} ${alert.kind}: ${alert.message}\n`;
+  }
+
+  return message.trimEnd();
+}
@@ -0,0 +1,49 @@
+import { InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
+import { CoinData } from '../types/database';
+
+export const COIN_CHOICE_ACTION_PATTERN = /^pick:/;
+// Choices offered for an ambiguous ticker; more is noise
+export const MAX_COIN_CHOICES = 8;
+// Unanswered questions are forgotten after this
+export const COIN_CHOICE_TTL_MS = 10 * 60 * 1000;
+
+const SOLANA_ADDRESS = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/;
+
+/**
+ * Whether a command argument is a contract address rather than a symbol or alias.
+ */
+export function isContractAddress(value: string): boolean {
+  return SOLANA_ADDRESS.test(value);
+}
+
+export function encodeCoinChoice(choiceId: string, index: number): string {
+  return `pick:${choiceId}:${index}`;
+}
+
+/**
+ * Parses coin choice button data; null for anything malformed.
+ */
+export function decodeCoinChoice(data: string): { choiceId: string; index: number } | null {
+  const match = data.match(/^pick:([a-z0-9]+):(\d+)$/);
+  if (!match) {
+    return null;
+  }
+  return { choiceId: match[1]!, index: parseInt(match[2]!, 10) };
+}
+
+/**
+ * Button label such as `BONK (Bonk) · DezX…B263`, enough to tell same-ticker coins apart.
+ */
+export function formatCoinChoice(coin: CoinData): string {
+  const address = `${coin.tokenAddress.slice(0, 4)}…${coin.tokenAddress.slice(-4)}`;
+  const name = coin.name && coin.name !== coin.symbol ? ` (${coin.name})` : '';
+  return `${coin.symbol}${name} · ${address}`;
+}
+
+export function buildCoinChoiceKeyboard(choiceId: string, coins: CoinData[]): InlineKeyboardMarkup {
+  return {
+    inline_keyboard: coins.slice(0, MAX_COIN_CHOICES).map((coin, index) => [
+      { text: formatCoinChoice(coin), callback_data: encodeCoinChoice(choiceId, index) }
+    ])
+  };
+}
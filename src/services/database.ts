@@ -1,6 +1,9 @@
 import { DatabaseManager } from '../utils/database';
 import { logger } from '../utils/logger';
-import { PrismaTransactionClient, CoinData, LongStateData, ScheduleConfigData, UpdateLongStateData } from '../types/database';
+import { Formatters } from '../utils/formatters';
+import { parseFailsafeSteps, parseQuietHours } from '../utils/validation';
+import { USER_ROLES, UserRole } from '../types/telegram';
+import { PrismaTransactionClient, ChatData, CoinData, LongStateData, ScheduleConfigData, UpdateLongStateData, LongTriggerConfigData, LongTriggerStateData, LongRuleData, QuietHoursWindow, UNCLAIMED_CHAT_ID } from '../types/database';
 
 export class DatabaseService {
   private prisma = DatabaseManager.getInstance();
@@ -15,7 +18,122 @@ export class DatabaseService {
     logger.info('DatabaseService initialized');
   }
 
-  async addCoinToLongList(symbol: string, chain: string, tokenAddress: string, name?: string): Promise<number> {
+  async upsertChat(chatId: string, type: string, title?: string): Promise<void> {
+    await this.prisma.chat.upsert({
+      where: { chatId },
+      update: { type, ...(title ? { title } : {}) },
+      create: { chatId, type, title: title ?? null, createdAtUtc: Math.floor(Date.now() / 1000) }
+    });
+  }
+
+  async upsertUser(userId: string, username?: string, firstName?: string): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    await this.prisma.user.upsert({
+      where: { userId },
+      update: { username: username ?? null, firstName: firstName ?? null, lastSeenUtc: now },
+      create: { userId, username: username ?? null, firstName: firstName ?? null, createdAtUtc: now, lastSeenUtc: now }
+    });
+  }
+
+  async getUserRole(userId: string): Promise<UserRole | null> {
+    const user = await this.prisma.user.findUnique({ where: { userId }, select: { role: true } });
+    return USER_ROLES.find(role => role === user?.role) ?? null;
+  }
+
+  /**
+   * Sets or (with null) clears a role. Users who never messaged the bot are created
+   * so access can be granted ahead of time by id.
+   */
+  async setUserRole(userId: string, role: UserRole | null): Promise<void> {
+    const now = Math.floor(Date.now() / 1000);
+    await this.prisma.user.upsert({
+      where: { userId },
+      update: { role },
+      create: { userId, role, createdAtUtc: now, lastSeenUtc: now }
+    });
+
+    logger.info(`Role for user ${userId} set to ${role ?? 'none'}`);
+  }
+
+  async findUserIdByUsername(username: string): Promise<string | null> {
+    const user = await this.prisma.user.findFirst({
+      where: { username: username.replace(/^@/, '') },
+      select: { userId: true }
+    });
+    return user?.userId ?? null;
+  }
+
+  async getUsersWithRoles(): Promise<Array<{ userId: string; username?: string; role: UserRole }>> {
+    const users = await this.prisma.user.findMany({
+      where: { role: { not: null } },
+      orderBy: { createdAtUtc: 'asc' }
+    });
+
+    return users.flatMap(user => {
+      const role = USER_ROLES.find(r => r === user.role);
+      return role ? [{ userId: user.userId, ...(user.username ? { username: user.username } : {}), role }] : [];
+    });
+  }
+
+  async getChats(): Promise<ChatData[]> {
+    const chats = await this.prisma.chat.findMany({
+      include: {
+        _count: {
+          select: {
+            longSubscriptions: true,
+            hotEntries: { where: { isActive: true } }
+          }
+        }
+      },
+      orderBy: { createdAtUtc: 'asc' }
+    });
+
+    return chats.map(chat => ({
+      chatId: chat.chatId,
+      type: chat.type,
+      ...(chat.title ? { title: chat.title } : {}),
+      longCount: chat._count.longSubscriptions,
+      hotCount: chat._count.hotEntries
+    }));
+  }
+
+  /**
+   * Gives long list coins nobody subscribes to and hot entries without an owner to `chatId`,
+   * along with the coins' unclaimed trigger settings, state and rules. Covers data from before
+   * chats existed and coins added by scripts.
+   */
+  async claimUnownedEntries(chatId: string, chatType: string): Promise<{ longCount: number; hotCount: number }> {
+    const now = Math.floor(Date.now() / 1000);
+
+    return this.prisma.$transaction(async (tx: PrismaTransactionClient) => {
+      await tx.chat.upsert({
+        where: { chatId },
+        update: {},
+        create: { chatId, type: chatType, createdAtUtc: now }
+      });
+
+      const orphans = await tx.longWatch.findMany({
+        where: { subscriptions: { none: {} } },
+        select: { coinId: true }
+      });
+      for (const { coinId } of orphans) {
+        await tx.longSubscription.create({ data: { chatId, coinId, addedAtUtc: now } });
+      }
+      const claimed = { chatId: UNCLAIMED_CHAT_ID, coinId: { in: orphans.map(orphan => orphan.coinId) } };
+      await tx.longTriggerConfig.updateMany({ where: claimed, data: { chatId } });
+      await tx.longTriggerState.updateMany({ where: claimed, data: { chatId } });
+      await tx.longRule.updateMany({ where: claimed, data: { chatId } });
+
+      const hot = await tx.hotEntry.updateMany({
+        where: { chatId: null },
+        data: { chatId }
+      });
+
+      return { longCount: orphans.length, hotCount: hot.count };
+    });
+  }
+
+  async addCoinToLongList(symbol: string, chain: string, tokenAddress: string, name?: string, chatId?: string): Promise<number> {
     const now = Math.floor(Date.now() / 1000);
 
     const result = await this.prisma.$transaction(async (tx: PrismaTransactionClient) => {
@@ -60,6 +178,14 @@ export class DatabaseService {
         });
       }
 
+      if (chatId) {
+        await tx.longSubscription.upsert({
+          where: { chatId_coinId: { chatId, coinId: coin.coinId } },
+          update: {},
+          create: { chatId, coinId: coin.coinId, addedAtUtc: now }
+        });
+      }
+
       return coin.coinId;
     });
 
@@ -67,16 +193,39 @@ export class DatabaseService {
     return result;
   }
 
-  async removeCoinFromLongList(contractAddress: string): Promise<boolean> {
+  /**
+   * With a chat, only drops that chat's subscription along with its trigger settings, state and
+   * rules for the coin; the watch itself (and its rolling state) goes once no chat subscribes any more.
+   */
+  async removeCoinFromLongList(contractAddress: string, chatId?: string): Promise<boolean> {
     const coin = await this.prisma.coin.findFirst({
       where: { tokenAddress: contractAddress },
-      include: { longWatch: true }
+      include: { longWatch: { include: { subscriptions: true } } }
     });
 
     if (!coin || !coin.longWatch) {
       return false;
     }
 
+    if (chatId) {
+      if (!coin.longWatch.subscriptions.some(sub => sub.chatId === chatId)) {
+        return false;
+      }
+
+      const owned = { chatId, coinId: coin.coinId };
+      await this.prisma.$transaction(async (tx: PrismaTransactionClient) => {
+        await tx.longSubscription.delete({ where: { chatId_coinId: owned } });
+        await tx.longTriggerConfig.deleteMany({ where: owned });
+        await tx.longTriggerState.deleteMany({ where: owned });
+        await tx.longRule.deleteMany({ where: owned });
+      });
+
+      if (coin.longWatch.subscriptions.length > 1) {
+        logger.info(`Unsubscribed chat ${chatId} from ${contractAddress}`);
+        return true;
+      }
+    }
+
     await this.prisma.longWatch.delete({
       where: { coinId: coin.coinId }
     });
@@ -85,34 +234,43 @@ export class DatabaseService {
     return true;
   }
 
-  async getLongListCoins(): Promise<Array<{
-    coinId: number;
-    chain: string;
-    tokenAddress: string;
-    symbol: string;
-    name?: string;
-    config: {
-      retraceOn: boolean;
-      stallOn: boolean;
-      breakoutOn: boolean;
-      mcapOn: boolean;
-      retracePct: number;
-      stallVolPct: number;
-      stallBandPct: number;
-      breakoutPct: number;
-      breakoutVolX: number;
-      mcapLevels?: string;
-    };
-  }>> {
+  async isSubscribedToCoin(chatId: string, contractAddress: string): Promise<boolean> {
+    return (await this.findLongSubscription(chatId, contractAddress)) !== null;
+  }
+
+  private async findLongSubscription(chatId: string, contractAddress: string): Promise<{ coinId: number } | null> {
+    return this.prisma.longSubscription.findFirst({
+      where: { chatId, longWatch: { coin: { tokenAddress: contractAddress } } },
+      select: { coinId: true }
+    });
+  }
+
+  async getCoinSubscriberChatIds(coinId: number): Promise<string[]> {
+    const subscriptions = await this.prisma.longSubscription.findMany({
+      where: { coinId },
+      select: { chatId: true }
+    });
+    return subscriptions.map(sub => sub.chatId);
+  }
+
+  async getLongSubscriptions(): Promise<Array<{ chatId: string; coinId: number; tokenAddress: string }>> {
+    const subscriptions = await this.prisma.longSubscription.findMany({
+      include: { longWatch: { include: { coin: true } } }
+    });
+    return subscriptions.map(sub => ({
+      chatId: sub.chatId,
+      coinId: sub.coinId,
+      tokenAddress: sub.longWatch.coin.tokenAddress
+    }));
+  }
+
+  async getLongListCoins(chatId?: string): Promise<CoinData[]> {
     const result = await this.prisma.coin.findMany({
       where: {
         isActive: true,
-        longWatch: {
-          isNot: null
-        }
-      },
-      include: {
-        longWatch: true
+        longWatch: chatId
+          ? { is: { subscriptions: { some: { chatId } } } }
+          : { isNot: null }
       }
     });
 
@@ -121,18 +279,99 @@ export class DatabaseService {
       chain: coin.chain,
       tokenAddress: coin.tokenAddress,
       symbol: coin.symbol,
-      name: coin.name || undefined,
-      config: {
-        retraceOn: coin.longWatch!.retraceOn,
-        stallOn: coin.longWatch!.stallOn,
-        breakoutOn: coin.longWatch!.breakoutOn,
-        mcapOn: coin.longWatch!.mcapOn,
-        retracePct: coin.longWatch!.retracePct,
-        stallVolPct: coin.longWatch!.stallVolPct,
-        stallBandPct: coin.longWatch!.stallBandPct,
-        breakoutPct: coin.longWatch!.breakoutPct,
-        breakoutVolX: coin.longWatch!.breakoutVolX,
-        mcapLevels: coin.longWatch!.mcapLevels || undefined
+      name: coin.name || undefined
+    }));
+  }
+
+  async getCoin(coinId: number): Promise<CoinData | null> {
+    const coin = await this.prisma.coin.findUnique({ where: { coinId } });
+    if (!coin) {
+      return null;
+    }
+
+    return {
+      coinId: coin.coinId,
+      chain: coin.chain,
+      tokenAddress: coin.tokenAddress,
+      symbol: coin.symbol,
+      ...(coin.name ? { name: coin.name } : {})
+    };
+  }
+
+  /**
+   * Coins matching a contract address, a SymbolAlias or a symbol, tried in that order.
+   * Several coins can share a symbol, so callers decide how to handle more than one match.
+   */
+  async findCoins(query: string): Promise<CoinData[]> {
+    const cleaned = query.trim().replace(/^\$/, '');
+    const toCoinData = (coin: { coinId: number; chain: string; tokenAddress: string; symbol: string; name: string | null }): CoinData => ({
+      coinId: coin.coinId,
+      chain: coin.chain,
+      tokenAddress: coin.tokenAddress,
+      symbol: coin.symbol,
+      ...(coin.name ? { name: coin.name } : {})
+    });
+
+    const byAddress = await this.prisma.coin.findMany({ where: { tokenAddress: cleaned } });
+    if (byAddress.length > 0) {
+      return byAddress.map(toCoinData);
+    }
+
+    // SQLite compares case-sensitively, so try the spellings users type
+    const spellings = Array.from(new Set([cleaned, cleaned.toUpperCase(), cleaned.toLowerCase()]));
+    const alias = await this.prisma.symbolAlias.findFirst({
+      where: { alias: { in: spellings } },
+      include: { coin: true }
+    });
+    if (alias) {
+      return [toCoinData(alias.coin)];
+    }
+
+    const bySymbol = await this.prisma.coin.findMany({
+      where: { symbol: { in: spellings } },
+      orderBy: { coinId: 'asc' }
+    });
+    return bySymbol.map(toCoinData);
+  }
+
+  /**
+   * Points an alias at a coin. Returns null once stored, or the coin the alias already belongs
+   * to when that is a different one; it has to be removed before it can be reused.
+   */
+  async addSymbolAlias(alias: string, coinId: number): Promise<CoinData | null> {
+    const existing = await this.prisma.symbolAlias.findUnique({ where: { alias } });
+    if (existing && existing.coinId !== coinId) {
+      return this.getCoin(existing.coinId);
+    }
+
+    await this.prisma.symbolAlias.upsert({
+      where: { alias },
+      update: {},
+      create: { alias, coinId }
+    });
+    return null;
+  }
+
+  async removeSymbolAlias(alias: string): Promise<boolean> {
+    const result = await this.prisma.symbolAlias.deleteMany({ where: { alias } });
+    return result.count > 0;
+  }
+
+  async getSymbolAliases(coinId?: number): Promise<Array<{ alias: string; coin: CoinData }>> {
+    const aliases = await this.prisma.symbolAlias.findMany({
+      where: coinId === undefined ? {} : { coinId },
+      include: { coin: true },
+      orderBy: { alias: 'asc' }
+    });
+
+    return aliases.map(entry => ({
+      alias: entry.alias,
+      coin: {
+        coinId: entry.coin.coinId,
+        chain: entry.coin.chain,
+        tokenAddress: entry.coin.tokenAddress,
+        symbol: entry.coin.symbol,
+        ...(entry.coin.name ? { name: entry.coin.name } : {})
       }
     }));
   }
@@ -156,6 +395,7 @@ export class DatabaseService {
         h72Low: data.h72Low || null,
         v12Sum: data.v12Sum || null,
         v24Sum: data.v24Sum || null,
+        priceChange24h: data.priceChange24h ?? null,
         lastUpdatedUtc: now
       },
       create: {
@@ -170,62 +410,166 @@ export class DatabaseService {
         h72Low: data.h72Low || null,
         v12Sum: data.v12Sum || null,
         v24Sum: data.v24Sum || null,
+        priceChange24h: data.priceChange24h ?? null,
         lastUpdatedUtc: now
       }
     });
   }
 
-  async recordTriggerFire(coinId: number, triggerType: 'retrace' | 'stall' | 'breakout' | 'mcap', price?: number): Promise<void> {
+  async recordTriggerFire(chatId: string, coinId: number, kind: string, price?: number, state?: Record<string, unknown>): Promise<void> {
     const now = Math.floor(Date.now() / 1000);
-    const updateData: Record<string, any> = {}; // Changed to 'any' to support number and null
+    const data: { lastFireUtc: number; armed: boolean; lastFirePrice?: number; stateJson?: string } = {
+      lastFireUtc: now,
+      armed: false
+    };
 
-    logger.info(`DB recordTriggerFire called: coinId=${coinId}, triggerType=${triggerType}, price=${price}`);
+    if (price !== undefined) {
+      data.lastFirePrice = price;
+    }
+    if (state !== undefined) {
+      data.stateJson = JSON.stringify(state);
+    }
 
-    switch (triggerType) {
-      case 'retrace':
-        updateData.lastRetraceFireUtc = now;
-        if (price !== undefined) {
-          updateData.lastRetracePrice = price;
-          logger.info(`Setting lastRetracePrice to ${price}`);
-        }
-        break;
-      case 'stall':
-        updateData.lastStallFireUtc = now;
-        if (price !== undefined) {
-          updateData.lastStallPrice = price;
-          logger.info(`Setting lastStallPrice to ${price}`);
-        }
-        break;
-      case 'breakout':
-        updateData.lastBreakoutFireUtc = now;
-        if (price !== undefined) {
-          updateData.lastBreakoutPrice = price;
-          logger.info(`Setting lastBreakoutPrice to ${price}`);
-        }
-        break;
-      case 'mcap':
-        updateData.lastMcapFireUtc = now;
-        break;
+    try {
+      await this.prisma.longTriggerState.upsert({
+        where: { chatId_coinId_kind: { chatId, coinId, kind } },
+        update: data,
+        create: { chatId, coinId, kind, ...data }
+      });
+    } catch (error) {
+      logger.error(`Failed to record ${kind} trigger fire for coinId=${coinId} in chat ${chatId}:`, error);
+      throw error;
     }
 
-    logger.info(`Update data prepared: ${JSON.stringify(updateData)}`);
+    logger.debug(`Recorded ${kind} trigger fire for coin ${coinId} in chat ${chatId}${price ? ' at price ' + price : ''}`);
+  }
 
+  async rearmTrigger(chatId: string, coinId: number, kind: string): Promise<void> {
     try {
-      const result = await this.prisma.longState.update({
-        where: { coinId },
-        data: updateData
+      await this.prisma.longTriggerState.update({
+        where: { chatId_coinId_kind: { chatId, coinId, kind } },
+        data: { armed: true }
       });
-      logger.info(`Update result: ${JSON.stringify(result)}`);
     } catch (error) {
-      logger.error(`Failed to update longState for coinId=${coinId}: ${error}`);
+      logger.error(`Failed to re-arm ${kind} trigger for coinId=${coinId} in chat ${chatId}:`, error);
       throw error;
     }
+  }
+
+  /**
+   * Without a chat, every chat's settings.
+   */
+  async getLongTriggerConfigs(chatId?: string): Promise<LongTriggerConfigData[]> {
+    const rows = await this.prisma.longTriggerConfig.findMany({ where: chatId === undefined ? {} : { chatId } });
+    return rows.map((row: any): LongTriggerConfigData => ({
+      chatId: row.chatId,
+      coinId: row.coinId,
+      kind: row.kind,
+      enabled: row.enabled,
+      config: this.parseJsonObject(row.configJson),
+      cooldownHours: row.cooldownHours,
+      rearmPct: row.rearmPct
+    }));
+  }
+
+  async getLongTriggerStates(chatId?: string): Promise<LongTriggerStateData[]> {
+    const rows = await this.prisma.longTriggerState.findMany({ where: chatId === undefined ? {} : { chatId } });
+    return rows.map((row: any): LongTriggerStateData => ({
+      chatId: row.chatId,
+      coinId: row.coinId,
+      kind: row.kind,
+      lastFireUtc: row.lastFireUtc || undefined,
+      lastFirePrice: row.lastFirePrice || undefined,
+      armed: row.armed,
+      state: this.parseJsonObject(row.stateJson)
+    }));
+  }
+
+  /**
+   * Returns null when the chat doesn't follow the contract.
+   */
+  async addLongRule(chatId: string, contractAddress: string, expression: string): Promise<LongRuleData | null> {
+    const subscription = await this.findLongSubscription(chatId, contractAddress);
+    if (!subscription) {
+      return null;
+    }
+
+    const rule = await this.prisma.longRule.create({
+      data: {
+        chatId,
+        coinId: subscription.coinId,
+        expression,
+        createdAtUtc: Math.floor(Date.now() / 1000)
+      }
+    });
+
+    return this.mapLongRule(rule);
+  }
+
+  /**
+   * Without a chat, every chat's rules.
+   */
+  async getLongRules(chatId?: string, contractAddress?: string): Promise<LongRuleData[]> {
+    const rules = await this.prisma.longRule.findMany({
+      where: {
+        ...(chatId === undefined ? {} : { chatId }),
+        ...(contractAddress ? { longWatch: { coin: { tokenAddress: contractAddress } } } : {})
+      },
+      orderBy: { ruleId: 'asc' }
+    });
+    return rules.map(rule => this.mapLongRule(rule));
+  }
 
-    logger.debug(`Recorded ${triggerType} trigger fire for coin ${coinId}${price ? ' at price ' + price : ''}`);
+  async removeLongRule(chatId: string, contractAddress: string, ruleId: number): Promise<boolean> {
+    const result = await this.prisma.longRule.deleteMany({
+      where: { ruleId, chatId, longWatch: { coin: { tokenAddress: contractAddress } } }
+    });
+    return result.count > 0;
+  }
+
+  async recordRuleFire(ruleId: number): Promise<void> {
+    await this.prisma.longRule.update({
+      where: { ruleId },
+      data: { lastFireUtc: Math.floor(Date.now() / 1000) }
+    });
   }
 
-  async recordLongTriggerAlert(coinId: number, trigger: any): Promise<void> {
-    const fingerprint = `long_${coinId}_${trigger.triggerType}_${trigger.timestamp || Date.now()}`;
+  /**
+   * Returns false when the chat has no such rule or it already has that state.
+   */
+  async setLongRuleEnabled(chatId: string, ruleId: number, enabled: boolean): Promise<boolean> {
+    const result = await this.prisma.longRule.updateMany({
+      where: { ruleId, chatId, enabled: !enabled },
+      data: { enabled }
+    });
+    return result.count > 0;
+  }
+
+  private mapLongRule(rule: any): LongRuleData {
+    return {
+      ruleId: rule.ruleId,
+      chatId: rule.chatId,
+      coinId: rule.coinId,
+      expression: rule.expression,
+      enabled: rule.enabled,
+      createdAtUtc: rule.createdAtUtc,
+      lastFireUtc: rule.lastFireUtc || undefined
+    };
+  }
+
+  private parseJsonObject(json: string | null): Record<string, unknown> {
+    if (!json) return {};
+    try {
+      const parsed = JSON.parse(json);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+
+  async recordLongTriggerAlert(coinId: number, trigger: any, chatId: string = UNCLAIMED_CHAT_ID): Promise<void> {
+    // Chats following the same coin fire separately, often in the same millisecond
+    const fingerprint = `long_${coinId}_${chatId ? `${chatId}_` : ''}${trigger.triggerType}_${trigger.timestamp || Date.now()}`;
     
     try {
       await this.prisma.alertHistory.create({
@@ -245,7 +589,7 @@ export class DatabaseService {
   }
 
   async recordHotTriggerAlert(hotId: number, alert: any): Promise<void> {
-    const fingerprint = `hot_${hotId}_${alert.alertType}_${alert.timestamp}`;
+    const fingerprint = `hot_${hotId}_${alert.alertType}${alert.targetValue !== undefined ? `_${alert.targetValue}` : ''}_${alert.timestamp}`;
     
     try {
       await this.prisma.alertHistory.create({
@@ -265,27 +609,7 @@ export class DatabaseService {
     }
   }
 
-  async getLongStates(): Promise<Array<{
-    coinId: number;
-    h12High?: number;
-    h24High?: number;
-    h72High?: number;
-    h12Low?: number;
-    h24Low?: number;
-    h72Low?: number;
-    v12Sum?: number;
-    v24Sum?: number;
-    lastPrice?: number;
-    lastMcap?: number;
-    lastUpdatedUtc: number;
-    lastRetraceFireUtc?: number;
-    lastStallFireUtc?: number;
-    lastBreakoutFireUtc?: number;
-    lastMcapFireUtc?: number;
-    lastRetracePrice?: number;
-    lastBreakoutPrice?: number;
-    lastStallPrice?: number;
-  }>> {
+  async getLongStates(): Promise<LongStateData[]> {
     const states = await this.prisma.longState.findMany();
     return states.map((state: any): LongStateData => ({
       coinId: state.coinId,
@@ -299,14 +623,8 @@ export class DatabaseService {
       v24Sum: state.v24Sum || undefined,
       lastPrice: state.lastPrice || undefined,
       lastMcap: state.lastMcap || undefined,
-      lastUpdatedUtc: state.lastUpdatedUtc,
-      lastRetraceFireUtc: state.lastRetraceFireUtc || undefined,
-      lastStallFireUtc: state.lastStallFireUtc || undefined,
-      lastBreakoutFireUtc: state.lastBreakoutFireUtc || undefined,
-      lastMcapFireUtc: state.lastMcapFireUtc || undefined,
-      lastRetracePrice: state.lastRetracePrice || undefined,
-      lastBreakoutPrice: state.lastBreakoutPrice || undefined,
-      lastStallPrice: state.lastStallPrice || undefined
+      priceChange24h: state.priceChange24h ?? undefined,
+      lastUpdatedUtc: state.lastUpdatedUtc
     }));
   }
 
@@ -325,40 +643,71 @@ export class DatabaseService {
       longCheckpointHours: config.longCheckpointHours,
       hotIntervalMinutes: config.hotIntervalMinutes,
       cooldownHours: config.cooldownHours,
+      hysteresisPct: config.hysteresisPct,
       globalRetraceOn: config.globalRetraceOn,
       globalStallOn: config.globalStallOn,
       globalBreakoutOn: config.globalBreakoutOn,
-      globalMcapOn: config.globalMcapOn
+      globalMcapOn: config.globalMcapOn,
+      retraceLadder: config.retraceLadder
+        .split(',')
+        .map(level => parseFloat(level))
+        .filter(level => isFinite(level)),
+      hotFailsafeSteps: parseFailsafeSteps(config.hotFailsafeSteps).steps ?? [60],
+      quietHours: parseQuietHours(config.quietHours).window ?? null
     };
   }
 
-  async updateTriggerConfig(
+  /**
+   * Upserts one trigger's config for a chat's coin. `config` is merged over what is stored.
+   * Returns false when the chat doesn't follow the contract.
+   */
+  async updateLongTriggerConfig(
+    chatId: string,
     contractAddress: string,
-    config: Partial<{
-      retraceOn: boolean;
-      stallOn: boolean;
-      breakoutOn: boolean;
-      mcapOn: boolean;
-      retracePct: number;
-      stallVolPct: number;
-      stallBandPct: number;
-      breakoutPct: number;
-      breakoutVolX: number;
-      mcapLevels: string;
-    }>
+    kind: string,
+    update: {
+      enabled?: boolean;
+      config?: Record<string, unknown>;
+      cooldownHours?: number | null;
+      rearmPct?: number | null;
+    }
   ): Promise<boolean> {
-    const coin = await this.prisma.coin.findFirst({
-      where: { tokenAddress: contractAddress },
-      include: { longWatch: true }
+    const subscription = await this.findLongSubscription(chatId, contractAddress);
+    if (!subscription) {
+      return false;
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const key = { chatId, coinId: subscription.coinId, kind };
+    const existing = await this.prisma.longTriggerConfig.findUnique({
+      where: { chatId_coinId_kind: key }
     });
 
-    if (!coin || !coin.longWatch) {
-      return false;
+    const config = { ...this.parseJsonObject(existing?.configJson ?? null), ...(update.config || {}) };
+    const data: {
+      configJson: string;
+      updatedAtUtc: number;
+      enabled?: boolean;
+      cooldownHours?: number | null;
+      rearmPct?: number | null;
+    } = {
+      configJson: JSON.stringify(config),
+      updatedAtUtc: now
+    };
+    if (update.enabled !== undefined) {
+      data.enabled = update.enabled;
+    }
+    if (update.cooldownHours !== undefined) {
+      data.cooldownHours = update.cooldownHours;
+    }
+    if (update.rearmPct !== undefined) {
+      data.rearmPct = update.rearmPct;
     }
 
-    await this.prisma.longWatch.update({
-      where: { coinId: coin.coinId },
-      data: config
+    await this.prisma.longTriggerConfig.upsert({
+      where: { chatId_coinId_kind: key },
+      update: data,
+      create: { ...key, ...data }
     });
 
     return true;
@@ -378,7 +727,34 @@ export class DatabaseService {
     logger.info('Global trigger settings updated:', settings);
   }
 
-  async getAllRecentAlerts(limit: number = 50): Promise<Array<{
+  async updateRetraceLadder(levels: number[]): Promise<void> {
+    await this.prisma.scheduleCfg.update({
+      where: { cfgId: 1 },
+      data: { retraceLadder: [...levels].sort((a, b) => a - b).join(',') }
+    });
+
+    logger.info('Global retrace ladder updated:', levels);
+  }
+
+  async updateHotFailsafeSteps(steps: number[]): Promise<void> {
+    await this.prisma.scheduleCfg.update({
+      where: { cfgId: 1 },
+      data: { hotFailsafeSteps: steps.join(',') }
+    });
+
+    logger.info('Global hot list failsafe steps updated:', steps);
+  }
+
+  async updateQuietHours(window: QuietHoursWindow | null): Promise<void> {
+    await this.prisma.scheduleCfg.update({
+      where: { cfgId: 1 },
+      data: { quietHours: window ? Formatters.formatQuietHours(window) : '' }
+    });
+
+    logger.info('Quiet hours updated:', window);
+  }
+
+  async getAllRecentAlerts(limit: number = 50, chatId?: string): Promise<Array<{
     symbol: string;
     kind: string;
     message: string;
@@ -387,6 +763,14 @@ export class DatabaseService {
   }>> {
     try {
       const alerts = await this.prisma.alertHistory.findMany({
+        where: chatId
+          ? {
+              OR: [
+                { hotEntry: { is: { chatId } } },
+                { hotId: null, coin: { is: { longWatch: { is: { subscriptions: { some: { chatId } } } } } } }
+              ]
+            }
+          : {},
         include: { 
           hotEntry: true,
           coin: true
@@ -411,7 +795,21 @@ export class DatabaseService {
     }
   }
 
-  async getActiveLongListStatus(limit: number = 50): Promise<Array<{
+  async getCoinAlerts(coinId: number, limit: number = 5): Promise<Array<{ kind: string; message: string; timestamp: number }>> {
+    const alerts = await this.prisma.alertHistory.findMany({
+      where: { coinId, hotId: null },
+      orderBy: { tsUtc: 'desc' },
+      take: limit
+    });
+
+    return alerts.map(alert => ({
+      kind: alert.kind,
+      message: JSON.parse(alert.payloadJson).message,
+      timestamp: alert.tsUtc
+    }));
+  }
+
+  async getActiveLongListStatus(limit: number = 50, chatId?: string): Promise<Array<{
     symbol: string;
     name: string;
     contractAddress: string;
@@ -423,6 +821,7 @@ export class DatabaseService {
   }>> {
     try {
       const activeCoins = await this.prisma.longWatch.findMany({
+        where: chatId ? { subscriptions: { some: { chatId } } } : {},
         include: { 
           coin: {
             include: {
@@ -457,7 +856,6 @@ export class DatabaseService {
     }
   }
 
-
   async disconnect(): Promise<void> {
     // Disconnection handled by DatabaseManager
     logger.info('DatabaseService disconnected');
@@ -171,6 +171,10 @@ export class DexScreenerService {
       priceChange24h,
       priceChange1h,
       liquidity,
+      pairAddress: pair.pairAddress,
+      quoteTokenAddress: pair.quoteToken?.address,
+      priceNative: parseFloat(pair.priceNative) || undefined,
+      txns: pair.txns,
       info: pair.info,
       lastUpdated: Date.now()
     };
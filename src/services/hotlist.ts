@@ -5,39 +5,50 @@ import { PairInfo } from '../types/dexscreener';
 import { logger } from '../utils/logger';
 import { DatabaseManager } from '../utils/database';
 import { globalAlertBus } from '../events/alertBus';
+import { globalSnoozes, getHotAlertKind } from './snooze';
+import { Formatters } from '../utils/formatters';
+import { parseFailsafeSteps } from '../utils/validation';
+import { HotPriceStream, StreamPool, StreamPriceUpdate } from './ws/HotPriceStream';
 
-class HotListTriggerEvaluator implements HotListEvaluator {
-  private readonly failsafeThreshold = 60.0;
-
+export class HotListTriggerEvaluator implements HotListEvaluator {
   evaluateEntry(entry: HotListEntry, currentPrice: number, currentMcap?: number): HotAlert[] {
     const alerts: HotAlert[] = [];
     const now = Math.floor(Date.now() / 1000);
 
+    // All triggers of an entry share the anchor captured at /hot_add time
+    const anchor = entry.activeTriggers[0];
+    if (anchor) {
+      alerts.push(...this.evaluateFailsafe(entry, anchor, currentPrice, currentMcap, now));
+    }
+
     for (const trigger of entry.activeTriggers) {
       if (trigger.fired) continue;
 
       const priceChangeFromAnchor = ((currentPrice - trigger.anchorPrice) / trigger.anchorPrice) * 100;
 
-      if (!entry.failsafeFired && this.shouldTriggerFailsafe(trigger, currentPrice, currentMcap)) {
-        alerts.push({
-          hotId: entry.hotId,
-          symbol: entry.symbol,
-          alertType: 'failsafe',
-          message: `${entry.symbol} FAILSAFE: -${this.failsafeThreshold}% drawdown from anchor`,
-          currentPrice,
-          currentMcap: currentMcap || 0,
-          deltaFromAnchor: priceChangeFromAnchor,
-          timestamp: now,
-        });
-      }
-
       if (trigger.kind === 'pct') {
         if (this.shouldTriggerPct(trigger.value, priceChangeFromAnchor)) {
           alerts.push({
             hotId: entry.hotId,
             symbol: entry.symbol,
             alertType: 'pct',
-            message: `${entry.symbol} hit ${trigger.value > 0 ? '+' : ''}${trigger.value}% target`,
+            message: `${entry.symbol} hit ${trigger.value > 0 ? '+' : ''}${trigger.value}% target${this.formatRepeat(trigger)}`,
+            currentPrice,
+            currentMcap: currentMcap || 0,
+            deltaFromAnchor: priceChangeFromAnchor,
+            targetValue: trigger.value,
+            timestamp: now,
+          });
+        }
+      } else if (trigger.kind === 'trail') {
+        const peakPrice = Math.max(entry.peakPrice ?? trigger.anchorPrice, currentPrice);
+        const dropFromPeak = ((peakPrice - currentPrice) / peakPrice) * 100;
+        if (dropFromPeak >= trigger.value) {
+          alerts.push({
+            hotId: entry.hotId,
+            symbol: entry.symbol,
+            alertType: 'trail',
+            message: `${entry.symbol} trailing stop: -${dropFromPeak.toFixed(1)}% from peak $${Formatters.formatPrice(peakPrice)}`,
             currentPrice,
             currentMcap: currentMcap || 0,
             deltaFromAnchor: priceChangeFromAnchor,
@@ -51,7 +62,7 @@ class HotListTriggerEvaluator implements HotListEvaluator {
             hotId: entry.hotId,
             symbol: entry.symbol,
             alertType: 'mcap',
-            message: `${entry.symbol} reached ${this.formatMarketCap(trigger.value)} market cap`,
+            message: `${entry.symbol} reached ${this.formatMarketCap(trigger.value)} market cap${this.formatRepeat(trigger)}`,
             currentPrice,
             currentMcap,
             deltaFromAnchor: priceChangeFromAnchor,
@@ -65,30 +76,84 @@ class HotListTriggerEvaluator implements HotListEvaluator {
     return alerts;
   }
 
+  findRearmedTriggers(entry: HotListEntry, currentPrice: number, currentMcap?: number): HotTrigger[] {
+    return entry.activeTriggers.filter(trigger => {
+      if (!trigger.fired || trigger.rearmBandPct === undefined) {
+        return false;
+      }
+
+      const band = trigger.rearmBandPct / 100;
+      if (trigger.kind === 'pct') {
+        // Price must come back past the target by the band, on the side it started from
+        const targetPrice = trigger.anchorPrice * (1 + trigger.value / 100);
+        return trigger.value > 0
+          ? currentPrice <= targetPrice * (1 - band)
+          : currentPrice >= targetPrice * (1 + band);
+      }
+      if (trigger.kind === 'mcap' && currentMcap) {
+        return currentMcap <= trigger.value * (1 - band);
+      }
+      return false;
+    });
+  }
+
   shouldRemoveEntry(entry: HotListEntry): boolean {
-    const hasActiveTriggers = entry.activeTriggers.some(t => !t.fired);
+    // Re-arming triggers keep the entry alive until it is removed by hand
+    const hasActiveTriggers = entry.activeTriggers.some(t => !t.fired || t.rearmBandPct !== undefined);
     return !hasActiveTriggers;
   }
 
-  private shouldTriggerFailsafe(trigger: HotTrigger, currentPrice: number, currentMcap?: number): boolean {
-    const priceDrawdown = ((trigger.anchorPrice - currentPrice) / trigger.anchorPrice) * 100;
-    if (priceDrawdown >= this.failsafeThreshold) {
-      return true;
-    }
+  private evaluateFailsafe(
+    entry: HotListEntry,
+    anchor: HotTrigger,
+    currentPrice: number,
+    currentMcap: number | undefined,
+    now: number
+  ): HotAlert[] {
+    const steps = [...(entry.failsafeSteps || [])].sort((a, b) => a - b);
+    const criticalStep = steps[steps.length - 1];
+    const drawdown = this.getDrawdown(anchor, currentPrice, currentMcap);
+    const deltaFromAnchor = ((currentPrice - anchor.anchorPrice) / anchor.anchorPrice) * 100;
+
+    return steps
+      .filter(step => !entry.failsafeFiredSteps.includes(step) && drawdown >= step)
+      .map(step => {
+        const severity = step === criticalStep ? 'critical' : 'warn';
+        return {
+          hotId: entry.hotId,
+          symbol: entry.symbol,
+          alertType: 'failsafe' as const,
+          message: severity === 'critical'
+            ? `${entry.symbol} FAILSAFE: -${step}% drawdown from anchor`
+            : `${entry.symbol} FAILSAFE WARNING: -${step}% drawdown from anchor`,
+          currentPrice,
+          currentMcap: currentMcap || 0,
+          deltaFromAnchor,
+          targetValue: step,
+          severity,
+          timestamp: now,
+        };
+      });
+  }
 
-    if (trigger.anchorMcap && currentMcap) {
-      const mcapDrawdown = ((trigger.anchorMcap - currentMcap) / trigger.anchorMcap) * 100;
-      if (mcapDrawdown >= this.failsafeThreshold) {
-        return true;
-      }
+  // Worst of price and market cap drawdown from the anchor, in percent
+  private getDrawdown(anchor: HotTrigger, currentPrice: number, currentMcap?: number): number {
+    const priceDrawdown = ((anchor.anchorPrice - currentPrice) / anchor.anchorPrice) * 100;
+    if (anchor.anchorMcap && currentMcap) {
+      const mcapDrawdown = ((anchor.anchorMcap - currentMcap) / anchor.anchorMcap) * 100;
+      return Math.max(priceDrawdown, mcapDrawdown);
     }
-    return false;
+    return priceDrawdown;
   }
 
   private shouldTriggerPct(targetPct: number, currentPct: number): boolean {
     return targetPct > 0 ? currentPct >= targetPct : currentPct <= targetPct;
   }
 
+  private formatRepeat(trigger: HotTrigger): string {
+    return trigger.fireCount > 0 ? ` (fire #${trigger.fireCount + 1})` : '';
+  }
+
   private formatMarketCap(value: number): string {
     if (value >= 1_000_000_000) return `$${(value / 1_000_000_000).toFixed(1)}B`;
     if (value >= 1_000_000) return `$${(value / 1_000_000).toFixed(1)}M`;
@@ -108,6 +173,11 @@ export class HotListService {
   private static failsInLastHour: number = 0;
   private static lastHourlyReport: number = 0;
   private prisma = DatabaseManager.getInstance();
+  private priceStream: HotPriceStream | null = null;
+  // Last DexScreener pair per token: the pool to stream and the reference for streamed prices
+  private lastPairs = new Map<string, PairInfo>();
+  // Polls and streamed prices are evaluated one at a time so a trigger can't fire twice
+  private evaluation: Promise<unknown> = Promise.resolve();
 
   constructor(db: DatabaseService, dexScreener: DexScreenerService) {
     this.db = db;
@@ -121,6 +191,14 @@ export class HotListService {
     options: {
       pctTargets?: number[];
       mcapTargets?: number[];
+      trailTargets?: number[];
+      // undefined keeps the global ScheduleCfg steps
+      failsafeSteps?: number[];
+      // Reset bands for re-arming targets, keyed `pct:20` / `mcap:1000000`
+      rearmBands?: Record<string, number>;
+      ttlHours?: number;
+      // Owning chat; each chat keeps its own entry per token
+      chatId?: string;
     } = {}
   ): Promise<boolean> {
     try {
@@ -151,29 +229,56 @@ export class HotListService {
           }
         });
 
-        const hotEntry = await tx.hotEntry.upsert({
-          where: { contractAddress: contractAddress },
-          update: {
-            symbol: tokenData.symbol,
-            name: tokenData.name,
-            imageUrl: tokenData.info?.imageUrl,
-            websitesJson: tokenData.info?.websites ? JSON.stringify(tokenData.info.websites) : null,
-            socialsJson: tokenData.info?.socials ? JSON.stringify(tokenData.info.socials) : null,
-            coinId: coin.coinId,
-            isActive: true
-          },
-          create: {
-            contractAddress: contractAddress,
-            chainId: tokenData.chainId,
-            symbol: tokenData.symbol,
-            name: tokenData.name,
-            imageUrl: tokenData.info?.imageUrl,
-            websitesJson: tokenData.info?.websites ? JSON.stringify(tokenData.info.websites) : null,
-            socialsJson: tokenData.info?.socials ? JSON.stringify(tokenData.info.socials) : null,
-            addedAtUtc: now,
-            coinId: coin.coinId
-          },
-        });
+        // A re-added entry starts a new peak and low; an active one keeps tracking its existing range
+        const chatId = options.chatId ?? null;
+        const existing = await tx.hotEntry.findFirst({ where: { chatId, contractAddress } });
+        const peakPrice = existing?.isActive && existing.peakPrice
+          ? Math.max(existing.peakPrice, tokenData.price)
+          : tokenData.price;
+        const lowPrice = existing?.isActive && existing.lowPrice
+          ? Math.min(existing.lowPrice, tokenData.price)
+          : tokenData.price;
+        const expiresAtUtc = options.ttlHours ? now + Math.round(options.ttlHours * 3600) : undefined;
+
+        const entryData = {
+          symbol: tokenData.symbol,
+          name: tokenData.name,
+          imageUrl: tokenData.info?.imageUrl,
+          websitesJson: tokenData.info?.websites ? JSON.stringify(tokenData.info.websites) : null,
+          socialsJson: tokenData.info?.socials ? JSON.stringify(tokenData.info.socials) : null,
+          coinId: coin.coinId,
+          isActive: true,
+          peakPrice,
+          lowPrice,
+          lastPrice: tokenData.price,
+          // Re-adding without ttl keeps an active entry's expiry, and clears it on a reactivated one
+          ...(expiresAtUtc ? { expiresAtUtc } : existing?.isActive ? {} : { expiresAtUtc: null }),
+          ...(options.failsafeSteps ? { failsafeSteps: options.failsafeSteps.join(',') } : {}),
+          // Reactivating an entry re-arms its failsafe
+          ...(existing?.isActive ? {} : { failsafeFired: false, failsafeFiredSteps: '' })
+        };
+        // Not an upsert: the compound key can't match the NULL owner of pre-chat entries
+        const hotEntry = existing
+          ? await tx.hotEntry.update({ where: { hotId: existing.hotId }, data: entryData })
+          : await tx.hotEntry.create({
+              data: {
+                chatId,
+                contractAddress: contractAddress,
+                chainId: tokenData.chainId,
+                symbol: tokenData.symbol,
+                name: tokenData.name,
+                imageUrl: tokenData.info?.imageUrl,
+                websitesJson: tokenData.info?.websites ? JSON.stringify(tokenData.info.websites) : null,
+                socialsJson: tokenData.info?.socials ? JSON.stringify(tokenData.info.socials) : null,
+                addedAtUtc: now,
+                coinId: coin.coinId,
+                peakPrice,
+                lowPrice,
+                lastPrice: tokenData.price,
+                expiresAtUtc: expiresAtUtc ?? null,
+                failsafeSteps: options.failsafeSteps ? options.failsafeSteps.join(',') : null
+              }
+            });
 
         if (options.pctTargets && options.pctTargets.length > 0) {
           for (const target of options.pctTargets) {
@@ -185,7 +290,7 @@ export class HotListService {
                   trigValue: target,
                 }
               },
-              update: { fired: false },
+              update: { fired: false, rearmBandPct: options.rearmBands?.[`pct:${target}`] ?? null },
               create: {
                 hotId: hotEntry.hotId,
                 trigKind: 'pct',
@@ -193,6 +298,7 @@ export class HotListService {
                 fired: false,
                 anchorPrice: tokenData.price,
                 anchorMcap: tokenData.marketCap,
+                rearmBandPct: options.rearmBands?.[`pct:${target}`] ?? null,
               },
             });
           }
@@ -209,7 +315,7 @@ export class HotListService {
                   trigValue: target,
                 }
               },
-              update: { fired: false },
+              update: { fired: false, rearmBandPct: options.rearmBands?.[`mcap:${target}`] ?? null },
               create: {
                 hotId: hotEntry.hotId,
                 trigKind: 'mcap',
@@ -217,11 +323,35 @@ export class HotListService {
                 fired: false,
                 anchorPrice: tokenData.price,
                 anchorMcap: tokenData.marketCap,
+                rearmBandPct: options.rearmBands?.[`mcap:${target}`] ?? null,
               },
             });
           }
           
         }
+
+        if (options.trailTargets) {
+          for (const target of options.trailTargets) {
+            await tx.hotTriggerState.upsert({
+              where: {
+                hotId_trigKind_trigValue: {
+                  hotId: hotEntry.hotId,
+                  trigKind: 'trail',
+                  trigValue: target,
+                }
+              },
+              update: { fired: false },
+              create: {
+                hotId: hotEntry.hotId,
+                trigKind: 'trail',
+                trigValue: target,
+                fired: false,
+                anchorPrice: tokenData.price,
+                anchorMcap: tokenData.marketCap,
+              },
+            });
+          }
+        }
         
         return hotEntry.hotId;
       });
@@ -229,6 +359,7 @@ export class HotListService {
       // Record initial "entry added" alert
       const initialAlert: HotAlert = {
         hotId: result,
+        chatId: options.chatId,
         symbol: tokenData.symbol,
         alertType: 'entry_added',
         message: `${tokenData.symbol} added to hot list with triggers`,
@@ -245,6 +376,12 @@ export class HotListService {
         ...options,
       });
 
+      // Start streaming right away instead of after the next poll
+      this.lastPairs.set(contractAddress, tokenData);
+      if (this.priceStream) {
+        this.syncPriceStream(await this.getActiveEntries());
+      }
+
       return true;
     } catch (error) {
       console.error('Error in addEntry method:', error);
@@ -253,10 +390,10 @@ export class HotListService {
     }
   }
 
-  async removeEntry(contractAddress: string): Promise<boolean> {
+  async removeEntry(contractAddress: string, chatId?: string): Promise<boolean> {
     try {
       const result = await this.prisma.hotEntry.updateMany({
-        where: { contractAddress },
+        where: { contractAddress, isActive: true, ...(chatId ? { chatId } : {}) },
         data: { isActive: false },
       });
 
@@ -271,78 +408,252 @@ export class HotListService {
     }
   }
 
+  async removeEntryById(hotId: number): Promise<boolean> {
+    try {
+      const result = await this.prisma.hotEntry.updateMany({
+        where: { hotId, isActive: true },
+        data: { isActive: false },
+      });
+
+      if (result.count > 0) {
+        logger.info(`Deactivated hot entry ${hotId}`);
+        return true;
+      }
+      return false;
+    } catch (error) {
+      logger.error(`Failed to remove hot entry ${hotId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Stops one trigger of an entry from firing again: a target is marked fired without a re-arm band,
+   * 'failsafe' turns off the entry's failsafe. Returns false when there is nothing left to mute.
+   */
+  async muteTrigger(hotId: number, kind: string, value?: number): Promise<boolean> {
+    try {
+      if (kind === 'failsafe') {
+        const result = await this.prisma.hotEntry.updateMany({
+          // NULL steps follow the global failsafe, so they are still live
+          where: { hotId, OR: [{ failsafeSteps: null }, { NOT: { failsafeSteps: '' } }] },
+          data: { failsafeSteps: '' },
+        });
+        return result.count > 0;
+      }
+
+      const result = await this.prisma.hotTriggerState.updateMany({
+        where: { hotId, trigKind: kind, ...(value !== undefined ? { trigValue: value } : {}), OR: [{ fired: false }, { rearmBandPct: { not: null } }] },
+        data: { fired: true, rearmBandPct: null },
+      });
+      return result.count > 0;
+    } catch (error) {
+      logger.error(`Failed to mute ${kind} trigger for hot entry ${hotId}:`, error);
+      throw error;
+    }
+  }
+
+  /**
+   * Streams prices for this service's entries between polls; see handleStreamPrice.
+   */
+  setPriceStream(stream: HotPriceStream): void {
+    this.priceStream = stream;
+  }
+
   async checkAlerts(): Promise<HotAlert[]> {
     const now = Date.now();
     HotListService.lastCheckTime = now;
     HotListService.checksInLastHour++;
     
     try {
-      const entries = await this.getActiveEntries();
-      
-      if (entries.length === 0) return [];
+      return await this.exclusive(async () => {
+        const alerts: HotAlert[] = await this.expireEntries();
+        const entries = await this.getActiveEntries();
+        
+        if (entries.length === 0) {
+          this.lastPairs.clear();
+          this.syncPriceStream(entries);
+          return alerts;
+        }
 
-      const pairRequests = entries.map(entry => ({
-        chainId: entry.chainId,
-        tokenAddress: entry.contractAddress,
-      }));
+        const pairRequests = entries.map(entry => ({
+          chainId: entry.chainId,
+          tokenAddress: entry.contractAddress,
+        }));
 
-      const pairDataMap = await this.dexScreener.batchGetTokens(pairRequests);
-      
-      const alerts: HotAlert[] = [];
+        const pairDataMap = await this.dexScreener.batchGetTokens(pairRequests);
+        const { hotFailsafeSteps } = await this.db.getScheduleConfig();
 
-      for (const entry of entries) {
-        const key = `${entry.chainId}:${entry.contractAddress}`;
-        const pair = pairDataMap.get(key);
-        
-        
-        if (!pair) {
-          continue;
+        for (const entry of entries) {
+          const key = `${entry.chainId}:${entry.contractAddress}`;
+          const pair = pairDataMap.get(key);
+          
+          
+          if (!pair) {
+            continue;
+          }
+
+          if (!this.dexScreener.validatePairData(pair)) {
+            continue;
+          }
+
+          this.lastPairs.set(entry.contractAddress, pair);
+          alerts.push(...await this.processEntry(entry, pair, hotFailsafeSteps));
         }
 
-        if (!this.dexScreener.validatePairData(pair)) {
-          continue;
+        const activeTokens = new Set(entries.map(entry => entry.contractAddress));
+        for (const tokenAddress of Array.from(this.lastPairs.keys())) {
+          if (!activeTokens.has(tokenAddress)) {
+            this.lastPairs.delete(tokenAddress);
+          }
         }
+        this.syncPriceStream(entries);
 
-        const entryAlerts = this.evaluator.evaluateEntry(entry, pair.price, pair.marketCap || undefined);
+        if (alerts.length > 0) {
+          logger.info(`Checked ${entries.length} hot list entries, found ${alerts.length} alerts`);
+        } else {
+          logger.debug(`Checked ${entries.length} hot list entries, found ${alerts.length} alerts`);
+        }
         
-        for (const alert of entryAlerts) {
-          await this.recordAlert(alert, pair);
+        // Report hourly summary
+        this.maybeLogHourlySummary();
+        
+        return alerts;
+      });
+    } catch (error) {
+      HotListService.failsInLastHour++;
+      logger.error('Failed to check hot list alerts:', error);
+      throw error;
+    }
+  }
 
-          if (alert.alertType === 'failsafe') {
-            await this.markFailsafeFired(entry.hotId);
-          } else {
-            await this.markTriggerFired(entry.hotId, alert.alertType, alert.targetValue!);
-          }
+  /**
+   * Evaluates the entries of one token at a price streamed from its pool, between polls.
+   * Market cap is scaled from the last poll, since supply doesn't move with price.
+   */
+  async handleStreamPrice(update: StreamPriceUpdate): Promise<HotAlert[]> {
+    const polled = this.lastPairs.get(update.tokenAddress);
+    if (!polled) {
+      return [];
+    }
+
+    const pair: PairInfo = {
+      ...polled,
+      price: update.price,
+      marketCap: polled.marketCap ? polled.marketCap * (update.price / polled.price) : null,
+      lastUpdated: Date.now()
+    };
 
-          // Emit alert through the global alert bus
-          await globalAlertBus.emitHotAlert(alert);
+    try {
+      return await this.exclusive(async () => {
+        const entries = (await this.getActiveEntries()).filter(entry => entry.contractAddress === update.tokenAddress);
+        if (entries.length === 0) {
+          return [];
         }
 
-        alerts.push(...entryAlerts);
+        const { hotFailsafeSteps } = await this.db.getScheduleConfig();
+        const alerts: HotAlert[] = [];
+        for (const entry of entries) {
+          alerts.push(...await this.processEntry(entry, pair, hotFailsafeSteps));
+        }
 
-        // Re-fetch triggers after updates; deactivate entry when no active triggers remain
-        const refreshed = await this.getEntryById(entry.hotId);
-        if (this.evaluator.shouldRemoveEntry(refreshed)) {
-          await this.deactivateEntry(entry.hotId);
-          logger.info(`Deactivated hot list entry for ${entry.symbol} (all triggers fired)`);
+        if (alerts.length > 0) {
+          logger.info(`Streamed price for ${pair.symbol} fired ${alerts.length} hot list alerts`, { signature: update.signature });
         }
-      }
+        return alerts;
+      });
+    } catch (error) {
+      logger.error(`Failed to evaluate streamed price for ${update.tokenAddress}:`, error);
+      throw error;
+    }
+  }
 
-      if (alerts.length > 0) {
-        logger.info(`Checked ${entries.length} hot list entries, found ${alerts.length} alerts`);
+  /**
+   * Tracks the price range of one entry, then fires, re-arms and deactivates its triggers.
+   */
+  private async processEntry(entry: HotListEntry, pair: PairInfo, hotFailsafeSteps: number[]): Promise<HotAlert[]> {
+    const peakPrice = Math.max(entry.peakPrice ?? pair.price, pair.price);
+    const lowPrice = Math.min(entry.lowPrice ?? pair.price, pair.price);
+    await this.updatePriceTracking(entry.hotId, peakPrice, lowPrice, pair.price);
+
+    for (const trigger of this.evaluator.findRearmedTriggers(entry, pair.price, pair.marketCap || undefined)) {
+      await this.rearmTrigger(entry.hotId, trigger);
+      trigger.fired = false;
+      logger.info(`Re-armed ${trigger.kind} ${trigger.value} trigger for ${entry.symbol} (fired ${trigger.fireCount}x)`);
+    }
+
+    const entryAlerts = this.evaluator.evaluateEntry(
+      { ...entry, peakPrice, failsafeSteps: entry.failsafeSteps ?? hotFailsafeSteps },
+      pair.price,
+      pair.marketCap || undefined
+    );
+    
+    for (const alert of entryAlerts) {
+      alert.chatId = entry.chatId;
+      await this.recordAlert(alert, pair);
+
+      if (alert.alertType === 'failsafe') {
+        await this.markFailsafeFired(entry.hotId, alert.targetValue!, entry.failsafeSteps ?? hotFailsafeSteps);
       } else {
-        logger.debug(`Checked ${entries.length} hot list entries, found ${alerts.length} alerts`);
+        await this.markTriggerFired(entry.hotId, alert.alertType, alert.targetValue!);
       }
-      
-      // Report hourly summary
-      this.maybeLogHourlySummary();
-      
-      return alerts;
-    } catch (error) {
-      HotListService.failsInLastHour++;
-      logger.error('Failed to check hot list alerts:', error);
-      throw error;
+
+      // A snoozed alert still counts as fired, it just isn't delivered
+      if (entry.chatId) {
+        const kind = getHotAlertKind(alert.alertType, alert.targetValue);
+        const recipients = await globalSnoozes.filterRecipients([entry.chatId], {
+          hotId: entry.hotId,
+          symbol: entry.symbol,
+          ...(entry.coinId !== undefined ? { coinId: entry.coinId } : {}),
+          ...(kind ? { triggerKind: kind } : {})
+        });
+        if (recipients.length === 0) {
+          continue;
+        }
+      }
+
+      // Emit alert through the global alert bus
+      await globalAlertBus.emitHotAlert(alert);
+    }
+
+    // Re-fetch triggers after updates; deactivate entry when no active triggers remain
+    const refreshed = await this.getEntryById(entry.hotId);
+    if (this.evaluator.shouldRemoveEntry(refreshed)) {
+      await this.deactivateEntry(entry.hotId);
+      logger.info(`Deactivated hot list entry for ${entry.symbol} (all triggers fired)`);
     }
+
+    return entryAlerts;
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.evaluation.then(task, task);
+    this.evaluation = run.catch(() => undefined);
+    return run;
+  }
+
+  /**
+   * Points the price stream at the pools of the active Solana entries.
+   */
+  private syncPriceStream(entries: HotListEntry[]): void {
+    if (!this.priceStream) {
+      return;
+    }
+
+    const pools = new Map<string, StreamPool>();
+    for (const entry of entries) {
+      const pair = this.lastPairs.get(entry.contractAddress);
+      if (entry.chainId !== 'solana' || !pair?.pairAddress || !pair.quoteTokenAddress || !pair.priceNative) {
+        continue;
+      }
+      pools.set(pair.pairAddress, {
+        tokenAddress: entry.contractAddress,
+        pairAddress: pair.pairAddress,
+        quoteTokenAddress: pair.quoteTokenAddress,
+        quoteUsd: pair.price / pair.priceNative,
+        referencePrice: pair.price
+      });
+    }
+    this.priceStream.syncPools(Array.from(pools.values()));
   }
 
   private maybeLogHourlySummary(): void {
@@ -372,8 +683,19 @@ export class HotListService {
     };
   }
 
-  async listEntries(): Promise<HotListEntry[]> {
-    return this.getActiveEntries();
+  async listEntries(chatId?: string): Promise<HotListEntry[]> {
+    const entries = await this.getActiveEntries();
+    return chatId ? entries.filter(entry => entry.chatId === chatId) : entries;
+  }
+
+  async getEntry(hotId: number): Promise<HotListEntry | null> {
+    const exists = await this.prisma.hotEntry.count({ where: { hotId } });
+    return exists > 0 ? this.getEntryById(hotId) : null;
+  }
+
+  async getEntryOwner(hotId: number): Promise<string | null> {
+    const entry = await this.prisma.hotEntry.findUnique({ where: { hotId }, select: { chatId: true } });
+    return entry?.chatId ?? null;
   }
 
   async getAlertHistory(limit: number = 50): Promise<Array<{
@@ -413,6 +735,8 @@ export class HotListService {
 
       return entries.map((entry: any) => ({
         hotId: entry.hotId,
+        chatId: entry.chatId ?? undefined,
+        coinId: entry.coinId ?? undefined,
         contractAddress: entry.contractAddress,
         chainId: entry.chainId,
         symbol: entry.symbol,
@@ -422,12 +746,21 @@ export class HotListService {
         socials: entry.socialsJson ? JSON.parse(entry.socialsJson) : [],
         addedAtUtc: entry.addedAtUtc,
         failsafeFired: entry.failsafeFired,
+        failsafeSteps: entry.failsafeSteps !== null ? parseFailsafeSteps(entry.failsafeSteps).steps : undefined,
+        failsafeFiredSteps: parseFailsafeSteps(entry.failsafeFiredSteps).steps ?? [],
+        peakPrice: entry.peakPrice ?? undefined,
+        lowPrice: entry.lowPrice ?? undefined,
+        lastPrice: entry.lastPrice ?? undefined,
+        expiresAtUtc: entry.expiresAtUtc ?? undefined,
         activeTriggers: entry.triggerStates.map((ts: any) => ({
-          kind: ts.trigKind as 'pct' | 'mcap',
+          kind: ts.trigKind as HotTrigger['kind'],
           value: ts.trigValue,
           fired: ts.fired,
           anchorPrice: ts.anchorPrice,
           anchorMcap: ts.anchorMcap,
+          rearmBandPct: ts.rearmBandPct ?? undefined,
+          fireCount: ts.fireCount,
+          lastFiredUtc: ts.lastFiredUtc ?? undefined,
         })),
       }));
     } catch (error) {
@@ -446,10 +779,88 @@ export class HotListService {
     }
   }
 
-  private async markFailsafeFired(hotId: number): Promise<void> {
+  private async updatePriceTracking(hotId: number, peakPrice: number, lowPrice: number, lastPrice: number): Promise<void> {
     await this.prisma.hotEntry.update({
       where: { hotId },
-      data: { failsafeFired: true },
+      data: { peakPrice, lowPrice, lastPrice },
+    });
+  }
+
+  /**
+   * Deactivates entries whose TTL has passed and returns one summary alert per entry.
+   * Uses the prices tracked by earlier checks, so it works even if the token stopped trading.
+   */
+  private async expireEntries(): Promise<HotAlert[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const expired = await this.prisma.hotEntry.findMany({
+      where: { isActive: true, expiresAtUtc: { lte: now } },
+      select: { hotId: true },
+    });
+
+    const alerts: HotAlert[] = [];
+    for (const row of expired) {
+      const entry = await this.getEntryById(row.hotId);
+      const alert = this.buildExpirySummary(entry, now);
+
+      await this.deactivateEntry(entry.hotId);
+      await this.db.recordHotTriggerAlert(entry.hotId, alert);
+      await globalAlertBus.emitHotAlert(alert);
+      logger.info(`Hot list entry for ${entry.symbol} expired after ${Formatters.formatDuration((now - entry.addedAtUtc) * 1000)}`);
+
+      alerts.push(alert);
+    }
+
+    return alerts;
+  }
+
+  private buildExpirySummary(entry: HotListEntry, now: number): HotAlert {
+    const anchorPrice = entry.activeTriggers[0]?.anchorPrice ?? entry.lastPrice ?? 0;
+    const finalPrice = entry.lastPrice ?? anchorPrice;
+    const changeFrom = (price: number | undefined) =>
+      anchorPrice > 0 && price !== undefined ? ((price - anchorPrice) / anchorPrice) * 100 : 0;
+
+    const fired = entry.activeTriggers
+      .filter(t => t.fireCount > 0 || t.fired)
+      .map(t => {
+        const label = t.kind === 'pct' ? `${t.value > 0 ? '+' : ''}${t.value}%`
+          : t.kind === 'mcap' ? `mcap ${Formatters.formatMarketCap(t.value)}`
+          : `trail -${t.value}%`;
+        return t.fireCount > 1 ? `${label} (${t.fireCount}x)` : label;
+      });
+    fired.push(...entry.failsafeFiredSteps.map(step => `failsafe -${step}%`));
+
+    const message = [
+      `${entry.symbol} hot entry expired after ${Formatters.formatDuration((now - entry.addedAtUtc) * 1000)}`,
+      `Anchor: $${Formatters.formatPrice(anchorPrice)} → Final: $${Formatters.formatPrice(finalPrice)} (${Formatters.formatPercentage(changeFrom(finalPrice))})`,
+      // The tracked range can sit entirely above or below the anchor (re-added entries keep their first anchor)
+      `Max gain: ${Formatters.formatPercentage(Math.max(0, changeFrom(entry.peakPrice)))} | Max drawdown: ${Formatters.formatPercentage(Math.min(0, changeFrom(entry.lowPrice)))}`,
+      `Fired: ${fired.length > 0 ? fired.join(', ') : 'none'}`,
+    ].join('\n');
+
+    return {
+      hotId: entry.hotId,
+      chatId: entry.chatId,
+      symbol: entry.symbol,
+      alertType: 'expired',
+      message,
+      currentPrice: finalPrice,
+      deltaFromAnchor: changeFrom(finalPrice),
+      timestamp: now,
+    };
+  }
+
+  private async markFailsafeFired(hotId: number, step: number, steps: number[]): Promise<void> {
+    const entry = await this.prisma.hotEntry.findUnique({ where: { hotId } });
+    const firedSteps = Array.from(new Set([...(parseFailsafeSteps(entry?.failsafeFiredSteps || '').steps ?? []), step]))
+      .sort((a, b) => a - b);
+
+    await this.prisma.hotEntry.update({
+      where: { hotId },
+      data: {
+        failsafeFiredSteps: firedSteps.join(','),
+        // Kept for existing readers: true once every step has fired
+        failsafeFired: steps.every(s => firedSteps.includes(s)),
+      },
     });
   }
 
@@ -462,12 +873,25 @@ export class HotListService {
           trigValue: triggerValue,
         },
       },
-      data: { fired: true },
+      data: {
+        fired: true,
+        fireCount: { increment: 1 },
+        lastFiredUtc: Math.floor(Date.now() / 1000),
+      },
     });
   }
 
-  private async removeEntryById(hotId: number): Promise<void> {
-    await this.prisma.hotEntry.update({ where: { hotId }, data: { isActive: false } });
+  private async rearmTrigger(hotId: number, trigger: HotTrigger): Promise<void> {
+    await this.prisma.hotTriggerState.update({
+      where: {
+        hotId_trigKind_trigValue: {
+          hotId,
+          trigKind: trigger.kind,
+          trigValue: trigger.value,
+        },
+      },
+      data: { fired: false },
+    });
   }
 
   private async deactivateEntry(hotId: number): Promise<void> {
@@ -478,6 +902,8 @@ export class HotListService {
     const entry = await this.prisma.hotEntry.findUnique({ where: { hotId }, include: { triggerStates: true } });
     return {
       hotId: entry!.hotId,
+      chatId: entry!.chatId ?? undefined,
+      coinId: entry!.coinId ?? undefined,
       contractAddress: entry!.contractAddress,
       chainId: entry!.chainId,
       symbol: entry!.symbol,
@@ -487,12 +913,21 @@ export class HotListService {
       socials: entry!.socialsJson ? JSON.parse(entry!.socialsJson) : [],
       addedAtUtc: entry!.addedAtUtc,
       failsafeFired: entry!.failsafeFired,
+      failsafeSteps: entry!.failsafeSteps !== null ? parseFailsafeSteps(entry!.failsafeSteps).steps : undefined,
+      failsafeFiredSteps: parseFailsafeSteps(entry!.failsafeFiredSteps).steps ?? [],
+      peakPrice: entry!.peakPrice ?? undefined,
+      lowPrice: entry!.lowPrice ?? undefined,
+      lastPrice: entry!.lastPrice ?? undefined,
+      expiresAtUtc: entry!.expiresAtUtc ?? undefined,
       activeTriggers: entry!.triggerStates.map((ts: any) => ({
-        kind: ts.trigKind as 'pct' | 'mcap',
+        kind: ts.trigKind as HotTrigger['kind'],
         value: ts.trigValue,
         fired: ts.fired,
         anchorPrice: ts.anchorPrice,
         anchorMcap: ts.anchorMcap,
+        rearmBandPct: ts.rearmBandPct ?? undefined,
+        fireCount: ts.fireCount,
+        lastFiredUtc: ts.lastFiredUtc ?? undefined,
       })),
     };
   }
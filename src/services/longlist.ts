@@ -1,117 +1,41 @@
 import { DatabaseService } from './database';
 import { DexScreenerService } from './dexscreener';
-import { TriggerConfig, LongListState, TriggerResult, TriggerEvaluator, AnchorReportData } from '../types/triggers';
+import { LongListState, TriggerResult, AnchorReportData, LongTriggerDefinition, LongTriggerContext, TriggerConfigValue, TriggerSettingsUpdate } from '../types/triggers';
+import { ScheduleConfigData, LongTriggerConfigData, LongTriggerStateData, LongRuleData, UNCLAIMED_CHAT_ID } from '../types/database';
 import { PairInfo } from '../types/dexscreener';
 import { logger } from '../utils/logger';
-import { RollingWindowManager } from './rollingWindow';
+import { RollingWindowManager, DataPoint } from './rollingWindow';
 import { globalAlertBus } from '../events/alertBus';
-import { Formatters } from '../utils/formatters';
-
-class LongListTriggerEvaluator implements TriggerEvaluator {
-  /**
-   * Simple trigger evaluator following the plan specification
-   * No complex hysteresis - just basic cooldowns and conditions
-   */
-
-  evaluateRetrace(state: LongListState, config: TriggerConfig, currentPrice: number, cooldownHours: number): boolean {
-    if (!config.retraceOn || !state.h72High || currentPrice <= 0) {
-      return false;
-    }
-
-    const now = Math.floor(Date.now() / 1000);
-    const cooldownSeconds = cooldownHours * 3600;
-    
-    // Check cooldown period (2h as per plan)
-    if (state.lastRetraceFireUtc && (now - state.lastRetraceFireUtc) < cooldownSeconds) {
-      return false;
-    }
-
-    // Simple retrace condition: price drops below threshold from 72h high
-    const retraceThreshold = state.h72High * (1 - config.retracePct / 100);
-    return currentPrice <= retraceThreshold;
-  }
-
-  evaluateStall(state: LongListState, config: TriggerConfig, currentVolume: number, currentPrice: number, cooldownHours: number): boolean {
-    if (!config.stallOn || !state.v24Sum || !state.h12High || !state.h12Low) {
-      return false;
-    }
-
-    const now = Math.floor(Date.now() / 1000);
-    const cooldownSeconds = cooldownHours * 3600;
-    
-    // Check cooldown period (2h as per plan)
-    if (state.lastStallFireUtc && (now - state.lastStallFireUtc) < cooldownSeconds) {
-      return false;
-    }
-    
-    // Simple stall condition: volume down 30% vs 24h AND price in ±5% band over 12h
-    const volumeDropped = currentVolume <= (state.v24Sum * (1 - config.stallVolPct / 100));
-    const priceInBand = (
-      currentPrice >= state.h12Low * (1 - config.stallBandPct / 100) &&
-      currentPrice <= state.h12High * (1 + config.stallBandPct / 100)
-    );
-
-    return volumeDropped && priceInBand;
-  }
-
-  evaluateBreakout(state: LongListState, config: TriggerConfig, currentPrice: number, currentVolume: number, cooldownHours: number): boolean {
-    if (!config.breakoutOn || !state.h12High || !state.v12Sum) {
-      return false;
-    }
-
-    const now = Math.floor(Date.now() / 1000);
-    const cooldownSeconds = cooldownHours * 3600;
-    
-    // Check cooldown period (2h as per plan)
-    if (state.lastBreakoutFireUtc && (now - state.lastBreakoutFireUtc) < cooldownSeconds) {
-      return false;
-    }
-
-    // Simple breakout condition: price +12% vs 12h baseline AND volume 1.5x vs 12h
-    const priceBreakout = currentPrice >= (state.h12High * (1 + config.breakoutPct / 100));
-    const volumeIncrease = currentVolume >= (state.v12Sum * config.breakoutVolX);
-
-    return priceBreakout && volumeIncrease;
-  }
-
-  evaluateMcap(state: LongListState, config: TriggerConfig, currentMcap: number, cooldownHours: number): { triggered: boolean; level?: number } {
-    if (!config.mcapOn || !config.mcapLevels || currentMcap <= 0) {
-      return { triggered: false };
-    }
-
-    const now = Math.floor(Date.now() / 1000);
-    const cooldownSeconds = cooldownHours * 3600;
-    
-    if (state.lastMcapFireUtc && (now - state.lastMcapFireUtc) < cooldownSeconds) {
-      return { triggered: false };
-    }
-
-    const levels = config.mcapLevels.sort((a, b) => a - b);
-    
-    for (const level of levels) {
-      if (currentMcap >= level && (!state.lastMcap || state.lastMcap < level)) {
-        return { triggered: true, level };
-      }
-    }
-
-    return { triggered: false };
-  }
+import { globalSnoozes, getLongTriggerKind } from './snooze';
+import { LongTriggerRegistry, globalTriggerRegistry, getRetraceLadder } from './triggers';
+import { parseRule, evaluateRule, usesWindow, RuleNode } from './triggers/ruleDsl';
+import { WatchlistCoin } from './watchlist';
+
+interface EvaluatedTrigger {
+  result: TriggerResult;
+  nextState?: Record<string, unknown> | undefined;
+  ruleId?: number;
 }
 
 export class LongListService {
   private db: DatabaseService;
   private dexScreener: DexScreenerService;
-  private triggerEvaluator: TriggerEvaluator;
+  private registry: LongTriggerRegistry;
   private rollingWindow: RollingWindowManager;
 
-  constructor(db: DatabaseService, dexScreener: DexScreenerService, rollingWindow: RollingWindowManager) {
+  constructor(
+    db: DatabaseService,
+    dexScreener: DexScreenerService,
+    rollingWindow: RollingWindowManager,
+    registry: LongTriggerRegistry = globalTriggerRegistry
+  ) {
     this.db = db;
     this.dexScreener = dexScreener;
-    this.triggerEvaluator = new LongListTriggerEvaluator();
+    this.registry = registry;
     this.rollingWindow = rollingWindow;
   }
 
-  async addCoin(contractAddress: string, chainId: string = 'solana'): Promise<boolean> {
+  async addCoin(contractAddress: string, chainId: string = 'solana', chatId?: string): Promise<boolean> {
     try {
       // Get token info directly by contract address
       const pair = await this.dexScreener.getPairInfo(chainId, contractAddress);
@@ -124,7 +48,8 @@ export class LongListService {
         pair.symbol,
         pair.chainId,
         pair.tokenAddress,
-        pair.name
+        pair.name,
+        chatId
       );
 
       logger.info(`Added ${pair.symbol} (${contractAddress}) to long list`, { 
@@ -140,9 +65,9 @@ export class LongListService {
     }
   }
 
-  async removeCoin(contractAddress: string): Promise<boolean> {
+  async removeCoin(contractAddress: string, chatId?: string): Promise<boolean> {
     try {
-      const result = await this.db.removeCoinFromLongList(contractAddress);
+      const result = await this.db.removeCoinFromLongList(contractAddress, chatId);
       if (result) {
         logger.info(`Removed coin with contract ${contractAddress} from long list`);
       }
@@ -153,64 +78,44 @@ export class LongListService {
     }
   }
 
-  async updateTriggerSettings(
-    contractAddress: string,
-    settings: {
-      trigger?: string;
-      enabled?: boolean;
-      retracePct?: number;
-      stallVolPct?: number;
-      stallBandPct?: number;
-      breakoutPct?: number;
-      breakoutVolX?: number;
-      mcapLevels?: number[];
-    }
-  ): Promise<boolean> {
+  /**
+   * Changes the settings a chat uses for one of its coins; other chats following the coin keep theirs.
+   * Returns false when the chat doesn't follow the contract.
+   */
+  async updateTriggerSettings(chatId: string, contractAddress: string, settings: TriggerSettingsUpdate): Promise<boolean> {
     try {
-      const updateData: any = {};
-
-      if (settings.trigger && typeof settings.enabled !== 'undefined') {
-        switch (settings.trigger) {
-          case 'retrace':
-            updateData.retraceOn = settings.enabled;
-            break;
-          case 'stall':
-            updateData.stallOn = settings.enabled;
-            break;
-          case 'breakout':
-            updateData.breakoutOn = settings.enabled;
-            break;
-          case 'mcap':
-            updateData.mcapOn = settings.enabled;
-            break;
+      const kinds = new Set([
+        ...Object.keys(settings.enabled || {}),
+        ...Object.keys(settings.params || {}),
+        ...Object.keys(settings.cooldownHours || {}),
+        ...Object.keys(settings.rearmPct || {})
+      ]);
+
+      for (const kind of kinds) {
+        if (!this.registry.has(kind)) {
+          throw new Error(`Unknown trigger: ${kind}`);
         }
       }
 
-      if (typeof settings.retracePct !== 'undefined') {
-        updateData.retracePct = settings.retracePct;
-      }
-      if (typeof settings.stallVolPct !== 'undefined') {
-        updateData.stallVolPct = settings.stallVolPct;
-      }
-      if (typeof settings.stallBandPct !== 'undefined') {
-        updateData.stallBandPct = settings.stallBandPct;
-      }
-      if (typeof settings.breakoutPct !== 'undefined') {
-        updateData.breakoutPct = settings.breakoutPct;
-      }
-      if (typeof settings.breakoutVolX !== 'undefined') {
-        updateData.breakoutVolX = settings.breakoutVolX;
-      }
-      if (settings.mcapLevels) {
-        updateData.mcapLevels = settings.mcapLevels.join(',');
+      let result = kinds.size > 0;
+      for (const kind of kinds) {
+        const update: Parameters<DatabaseService['updateLongTriggerConfig']>[3] = {};
+        const enabled = settings.enabled?.[kind];
+        const params = settings.params?.[kind];
+        const cooldownHours = settings.cooldownHours?.[kind];
+        const rearmPct = settings.rearmPct?.[kind];
+        if (enabled !== undefined) update.enabled = enabled;
+        if (params) update.config = params;
+        if (cooldownHours !== undefined) update.cooldownHours = cooldownHours;
+        if (rearmPct !== undefined) update.rearmPct = rearmPct;
+
+        result = await this.db.updateLongTriggerConfig(chatId, contractAddress, kind, update) && result;
       }
 
-      const result = await this.db.updateTriggerConfig(contractAddress, updateData);
-      
       if (result) {
-        logger.info(`Updated trigger settings for contract ${contractAddress}`, settings);
+        logger.info(`Updated trigger settings for contract ${contractAddress} in chat ${chatId}`, settings);
       }
-      
+
       return result;
     } catch (error) {
       logger.error(`Failed to update trigger settings for ${contractAddress}:`, error);
@@ -218,6 +123,119 @@ export class LongListService {
     }
   }
 
+  /**
+   * Switch one trigger kind on or off for every coin the chat follows.
+   * Returns the number of coins updated.
+   */
+  async setTriggerEnabledForChat(chatId: string, kind: string, enabled: boolean): Promise<number> {
+    const coins = await this.db.getLongListCoins(chatId);
+    let updated = 0;
+    for (const coin of coins) {
+      if (await this.updateTriggerSettings(chatId, coin.tokenAddress, { enabled: { [kind]: enabled } })) {
+        updated++;
+      }
+    }
+    return updated;
+  }
+
+  async addRule(chatId: string, contractAddress: string, expression: string): Promise<LongRuleData | null> {
+    // Throws RuleSyntaxError so the caller can show the user what is wrong
+    parseRule(expression);
+
+    const rule = await this.db.addLongRule(chatId, contractAddress, expression.trim());
+    if (rule) {
+      logger.info(`Added rule #${rule.ruleId} for ${contractAddress} in chat ${chatId}: ${rule.expression}`);
+    }
+    return rule;
+  }
+
+  async listRules(chatId: string, contractAddress: string): Promise<LongRuleData[]> {
+    return this.db.getLongRules(chatId, contractAddress);
+  }
+
+  async removeRule(chatId: string, contractAddress: string, ruleId: number): Promise<boolean> {
+    const removed = await this.db.removeLongRule(chatId, contractAddress, ruleId);
+    if (removed) {
+      logger.info(`Removed rule #${ruleId} for ${contractAddress} in chat ${chatId}`);
+    }
+    return removed;
+  }
+
+  async getChartData(coinId: number, hours: number = 24): Promise<DataPoint[]> {
+    return this.rollingWindow.getDataPoints(coinId, Math.floor(Date.now() / 1000) - hours * 3600);
+  }
+
+  /**
+   * Retrace drops that fire for the coin in a chat, in percent: its ladder, or the single
+   * threshold. Empty when the retrace trigger is off for it. Without a chat, the defaults.
+   */
+  async getRetraceLevels(coinId: number, chatId: string = UNCLAIMED_CHAT_ID): Promise<number[]> {
+    const definition = this.registry.get('retrace');
+    if (!definition) {
+      return [];
+    }
+
+    const [scheduleConfig, triggerConfigs] = await Promise.all([this.db.getScheduleConfig(), this.db.getLongTriggerConfigs(chatId)]);
+    const stored = triggerConfigs.find(config => config.coinId === coinId && config.kind === 'retrace');
+    if (!(stored?.enabled ?? definition.defaultEnabled) || !this.isGloballyEnabled(definition, scheduleConfig)) {
+      return [];
+    }
+
+    const config = this.resolveTriggerConfig(definition, stored, scheduleConfig);
+    const levels = Array.isArray(config.levels) ? config.levels.filter((level): level is number => typeof level === 'number') : [];
+    return levels.length > 0 ? levels : typeof config.pct === 'number' ? [config.pct] : [];
+  }
+
+  async getWindowStatus(coinId: number): Promise<{ dataPoints: number; warmupComplete: boolean }> {
+    const [dataPoints, warmupComplete] = await Promise.all([
+      this.rollingWindow.getDataPointsCount(coinId),
+      this.rollingWindow.isWarmupComplete(coinId)
+    ]);
+    // COUNT(*) comes back from raw queries as a BigInt
+    return { dataPoints: Number(dataPoints), warmupComplete };
+  }
+
+  /**
+   * A chat's long list coins with their last known state and the triggers that would currently
+   * evaluate for the chat, for the /watchlist browser.
+   */
+  async getWatchlist(chatId: string): Promise<WatchlistCoin[]> {
+    const [coins, states, scheduleConfig, triggerConfigs, rules] = await Promise.all([
+      this.db.getLongListCoins(chatId),
+      this.db.getLongStates(),
+      this.db.getScheduleConfig(),
+      this.db.getLongTriggerConfigs(chatId),
+      this.db.getLongRules(chatId)
+    ]);
+    const stateMap = new Map(states.map(state => [state.coinId, state]));
+    const configMap = new Map(triggerConfigs.map(config => [`${config.coinId}:${config.kind}`, config]));
+    const coinsWithRules = new Set(rules.filter(rule => rule.enabled).map(rule => rule.coinId));
+
+    return coins.map(coin => {
+      const state = stateMap.get(coin.coinId);
+      const enabledTriggers = this.registry.list()
+        .filter(definition => (configMap.get(`${coin.coinId}:${definition.kind}`)?.enabled ?? definition.defaultEnabled)
+          && this.isGloballyEnabled(definition, scheduleConfig))
+        .map(definition => definition.kind);
+      if (coinsWithRules.has(coin.coinId)) {
+        enabledTriggers.push('rule');
+      }
+
+      return {
+        coinId: coin.coinId,
+        symbol: coin.symbol,
+        price: state?.lastPrice,
+        marketCap: state?.lastMcap,
+        volume24h: state?.v24Sum,
+        priceChange24h: state?.priceChange24h,
+        retraceFrom72h: state?.h72High && state.lastPrice !== undefined
+          ? ((state.lastPrice - state.h72High) / state.h72High) * 100
+          : undefined,
+        enabledTriggers
+      };
+    });
+  }
+
   async checkTriggers(): Promise<TriggerResult[]> {
     try {
       const coins = await this.db.getLongListCoins();
@@ -235,6 +253,19 @@ export class LongListService {
 
       const pairData = await this.dexScreener.batchGetTokens(pairRequests);
       const stateMap = new Map(states.map(s => [s.coinId, s]));
+      // Each chat following a coin has its own settings, fire state and rules for it
+      const triggerConfigs = new Map(
+        (await this.db.getLongTriggerConfigs()).map(c => [`${c.chatId}:${c.coinId}:${c.kind}`, c])
+      );
+      const triggerStates = new Map(
+        (await this.db.getLongTriggerStates()).map(s => [`${s.chatId}:${s.coinId}:${s.kind}`, s])
+      );
+      const rulesBySubscription = new Map<string, LongRuleData[]>();
+      for (const rule of await this.db.getLongRules()) {
+        if (!rule.enabled) continue;
+        const key = `${rule.chatId}:${rule.coinId}`;
+        rulesBySubscription.set(key, [...(rulesBySubscription.get(key) || []), rule]);
+      }
       const triggers: TriggerResult[] = [];
 
       for (const coin of coins) {
@@ -257,42 +288,58 @@ export class LongListService {
 
         await this.updateStateData(coin.coinId, pair, state);
 
-        const triggerConfig: TriggerConfig = {
-          retraceOn: coin.config.retraceOn && config.globalRetraceOn,
-          stallOn: coin.config.stallOn && config.globalStallOn,
-          breakoutOn: coin.config.breakoutOn && config.globalBreakoutOn,
-          mcapOn: coin.config.mcapOn && config.globalMcapOn,
-          retracePct: coin.config.retracePct,
-          stallVolPct: coin.config.stallVolPct,
-          stallBandPct: coin.config.stallBandPct,
-          breakoutPct: coin.config.breakoutPct,
-          breakoutVolX: coin.config.breakoutVolX,
-          mcapLevels: coin.config.mcapLevels ? 
-            coin.config.mcapLevels.split(',').map((l: string) => parseFloat(l)).filter((l: number) => !isNaN(l)) : 
-            []
-        };
-
-        const evaluatedTriggers = this.evaluateAllTriggers(
-          coin.coinId,
-          coin.symbol,
-          state,
-          triggerConfig,
-          pair,
-          config.cooldownHours
-        );
-
-        triggers.push(...evaluatedTriggers);
-
-        for (const trigger of evaluatedTriggers) {
-          logger.info(`Recording trigger for ${coin.symbol}: type=${trigger.triggerType}, price=${trigger.price}`);
-          
-          try {
-            await this.db.recordTriggerFire(coin.coinId, trigger.triggerType, trigger.price);
-            await this.db.recordLongTriggerAlert(coin.coinId, trigger);
-            await globalAlertBus.emitLongTrigger(trigger);
-          } catch (error) {
-            logger.error(`Failed to record ${trigger.triggerType} trigger for ${coin.symbol}:`, error);
-            throw error;
+        // Coins nobody follows yet (added by scripts, not claimed) go to the default chat
+        const subscribers = await this.db.getCoinSubscriberChatIds(coin.coinId);
+        for (const chatId of subscribers.length > 0 ? subscribers : [UNCLAIMED_CHAT_ID]) {
+          const evaluatedTriggers = await this.evaluateAllTriggers(
+            chatId,
+            coin.coinId,
+            coin.symbol,
+            state,
+            pair,
+            config,
+            triggerConfigs,
+            triggerStates
+          );
+
+          evaluatedTriggers.push(...await this.evaluateRules(
+            coin.coinId,
+            coin.symbol,
+            state,
+            pair,
+            rulesBySubscription.get(`${chatId}:${coin.coinId}`) || [],
+            config.cooldownHours
+          ));
+
+          triggers.push(...evaluatedTriggers.map(t => t.result));
+
+          for (const { result: trigger, nextState, ruleId } of evaluatedTriggers) {
+            logger.info(`Recording trigger for ${coin.symbol} in chat ${chatId}: type=${trigger.triggerType}, price=${trigger.price}`);
+
+            try {
+              if (ruleId !== undefined) {
+                await this.db.recordRuleFire(ruleId);
+              } else {
+                await this.db.recordTriggerFire(chatId, coin.coinId, trigger.triggerType, trigger.price, nextState);
+              }
+              await this.db.recordLongTriggerAlert(coin.coinId, trigger, chatId);
+
+              // Snoozing only holds back delivery; the fire above still drives cooldowns
+              if (chatId !== UNCLAIMED_CHAT_ID) {
+                trigger.chatIds = await globalSnoozes.filterRecipients([chatId], {
+                  coinId: coin.coinId,
+                  triggerKind: getLongTriggerKind(trigger),
+                  symbol: coin.symbol
+                });
+                if (trigger.chatIds.length === 0) {
+                  continue;
+                }
+              }
+              await globalAlertBus.emitLongTrigger(trigger);
+            } catch (error) {
+              logger.error(`Failed to record ${trigger.triggerType} trigger for ${coin.symbol}:`, error);
+              throw error;
+            }
           }
         }
       }
@@ -306,80 +353,211 @@ export class LongListService {
     }
   }
 
-  private evaluateAllTriggers(
+  private async evaluateAllTriggers(
+    chatId: string,
     coinId: number,
     symbol: string,
     state: LongListState,
-    config: TriggerConfig,
     pair: PairInfo,
-    cooldownHours: number
-  ): TriggerResult[] {
-    const triggers: TriggerResult[] = [];
+    scheduleConfig: ScheduleConfigData,
+    triggerConfigs: Map<string, LongTriggerConfigData>,
+    triggerStates: Map<string, LongTriggerStateData>
+  ): Promise<EvaluatedTrigger[]> {
+    const triggers: EvaluatedTrigger[] = [];
+    const now = Math.floor(Date.now() / 1000);
 
-    if (this.triggerEvaluator.evaluateRetrace(state, config, pair.price, cooldownHours)) {
-      const retracePercent = state.h72High ? 
-        ((state.h72High - pair.price) / state.h72High * 100) : 0;
-      
-      triggers.push({
+    for (const definition of this.registry.list()) {
+      const stored = triggerConfigs.get(`${chatId}:${coinId}:${definition.kind}`);
+      const enabled = stored?.enabled ?? definition.defaultEnabled;
+
+      if (!enabled || !this.isGloballyEnabled(definition, scheduleConfig)) {
+        continue;
+      }
+
+      const fireState = triggerStates.get(`${chatId}:${coinId}:${definition.kind}`);
+      const cooldownHours = stored?.cooldownHours ?? definition.cooldownHours ?? scheduleConfig.cooldownHours;
+      const ctx = {
         coinId,
         symbol,
-        triggerType: 'retrace',
-        message: `${symbol} retraced ${retracePercent.toFixed(1)}% from 72h high`,
-        price: pair.price,
-        marketCap: pair.marketCap || 0,
-        volume24h: pair.volume24h,
-        priceChange24h: pair.priceChange24h,
-        retraceFromHigh: retracePercent
-      });
-    }
+        pair,
+        state,
+        config: this.resolveTriggerConfig(definition, stored, scheduleConfig),
+        triggerState: { ...definition.initialState, ...(fireState?.state || {}) },
+        lastFireUtc: fireState?.lastFireUtc,
+        lastFirePrice: fireState?.lastFirePrice,
+        cooldownHours,
+        now
+      };
+
+      const limitsRepeats = !this.managesRepeats(definition, ctx);
+
+      // Hysteresis: after a fire the trigger stays disarmed until price moves rearmPct away.
+      // Checked before the cooldown so a recovery during the cooldown still counts.
+      // Coins without an override use the global hysteresis_pct, which defaults to 0 (off).
+      const rearmPct = stored?.rearmPct ?? scheduleConfig.hysteresisPct;
+      if (limitsRepeats && fireState && !fireState.armed && rearmPct > 0) {
+        if (!this.isRearmed(definition, ctx, rearmPct)) {
+          continue;
+        }
+        await this.db.rearmTrigger(chatId, coinId, definition.kind);
+        logger.debug(`Re-armed ${definition.kind} trigger for ${symbol} at price ${pair.price}`);
+      }
+
+      if (limitsRepeats && fireState?.lastFireUtc && (now - fireState.lastFireUtc) < cooldownHours * 3600) {
+        continue;
+      }
+
+      let fire;
+      try {
+        fire = definition.evaluate(ctx);
+      } catch (error) {
+        // One broken trigger definition must not block the others
+        logger.error(`Trigger ${definition.kind} failed to evaluate for ${symbol}:`, error);
+        continue;
+      }
+
+      if (!fire) {
+        continue;
+      }
 
-    if (this.triggerEvaluator.evaluateStall(state, config, pair.volume24h, pair.price, cooldownHours)) {
       triggers.push({
-        coinId,
-        symbol,
-        triggerType: 'stall',
-        message: `${symbol} momentum stalled: volume down ${config.stallVolPct}%, price in ${config.stallBandPct}% band`,
-        price: pair.price,
-        marketCap: pair.marketCap || 0,
-        volume24h: pair.volume24h,
-        priceChange24h: pair.priceChange24h
+        result: {
+          coinId,
+          symbol,
+          triggerType: definition.kind,
+          message: fire.message,
+          price: pair.price,
+          marketCap: pair.marketCap || 0,
+          volume24h: pair.volume24h,
+          priceChange24h: pair.priceChange24h,
+          retraceFromHigh: fire.retraceFromHigh,
+          targetLevel: fire.targetLevel,
+          direction: fire.direction
+        },
+        nextState: fire.nextState
       });
     }
 
-    if (this.triggerEvaluator.evaluateBreakout(state, config, pair.price, pair.volume24h, cooldownHours)) {
-      const breakoutPercent = state.h12High ? 
-        ((pair.price - state.h12High) / state.h12High * 100) : 0;
-      
-      triggers.push({
-        coinId,
-        symbol,
-        triggerType: 'breakout',
-        message: `${symbol} breakout: +${breakoutPercent.toFixed(1)}% with ${config.breakoutVolX}x volume`,
-        price: pair.price,
-        marketCap: pair.marketCap || 0,
-        volume24h: pair.volume24h,
-        priceChange24h: pair.priceChange24h
-      });
+    return triggers;
+  }
+
+  private async evaluateRules(
+    coinId: number,
+    symbol: string,
+    state: LongListState,
+    pair: PairInfo,
+    rules: LongRuleData[],
+    cooldownHours: number
+  ): Promise<EvaluatedTrigger[]> {
+    const now = Math.floor(Date.now() / 1000);
+    const due: Array<{ rule: LongRuleData; ast: RuleNode }> = [];
+
+    for (const rule of rules) {
+      if (rule.lastFireUtc && (now - rule.lastFireUtc) < cooldownHours * 3600) {
+        continue;
+      }
+      try {
+        due.push({ rule, ast: parseRule(rule.expression) });
+      } catch (error) {
+        // Rules are validated on add; this only happens if the language changed underneath
+        logger.warn(`Skipping invalid rule #${rule.ruleId} for ${symbol}:`, error);
+      }
+    }
+
+    if (due.length === 0) {
+      return [];
     }
 
-    if (pair.marketCap) {
-      const mcapResult = this.triggerEvaluator.evaluateMcap(state, config, pair.marketCap, cooldownHours);
-      if (mcapResult.triggered && mcapResult.level) {
-        triggers.push({
+    const points = due.some(({ ast }) => usesWindow(ast))
+      ? await this.rollingWindow.getDataPoints(coinId, now - 72 * 3600)
+      : [];
+
+    const fired: EvaluatedTrigger[] = [];
+    for (const { rule, ast } of due) {
+      try {
+        if (!evaluateRule(ast, { pair, state, points, now })) {
+          continue;
+        }
+      } catch (error) {
+        // One broken rule must not stop the checkpoint for the remaining rules and coins
+        logger.error(`Failed to evaluate rule #${rule.ruleId} for ${symbol}:`, error);
+        continue;
+      }
+
+      fired.push({
+        result: {
           coinId,
           symbol,
-          triggerType: 'mcap',
-          message: `${symbol} market cap reached ${this.formatMarketCap(mcapResult.level)}`,
+          triggerType: 'rule',
+          message: `${symbol} rule #${rule.ruleId} matched: ${rule.expression}`,
+          ruleId: rule.ruleId,
           price: pair.price,
-          marketCap: pair.marketCap,
+          marketCap: pair.marketCap || 0,
           volume24h: pair.volume24h,
-          priceChange24h: pair.priceChange24h,
-          targetLevel: mcapResult.level
-        });
+          priceChange24h: pair.priceChange24h
+        },
+        ruleId: rule.ruleId
+      });
+    }
+
+    return fired;
+  }
+
+  /**
+   * Per-coin config over global ScheduleCfg defaults over the definition defaults.
+   */
+  private resolveTriggerConfig(
+    definition: LongTriggerDefinition,
+    stored: LongTriggerConfigData | undefined,
+    scheduleConfig: ScheduleConfigData
+  ): Record<string, TriggerConfigValue> {
+    const globalDefaults: Record<string, unknown> = {};
+    if (definition.kind === 'retrace' && scheduleConfig.retraceLadder.length > 0) {
+      globalDefaults.levels = scheduleConfig.retraceLadder;
+    }
+
+    return this.registry.resolveConfig(definition.kind, { ...globalDefaults, ...(stored?.config || {}) });
+  }
+
+  private managesRepeats(definition: LongTriggerDefinition, ctx: LongTriggerContext<any, any>): boolean {
+    try {
+      return definition.managesRepeats?.(ctx) ?? false;
+    } catch (error) {
+      logger.error(`Trigger ${definition.kind} failed to check repeat handling for ${ctx.symbol}:`, error);
+      return false;
+    }
+  }
+
+  private isRearmed(definition: LongTriggerDefinition, ctx: LongTriggerContext<any, any>, rearmPct: number): boolean {
+    try {
+      if (definition.isRearmed) {
+        return definition.isRearmed(ctx, rearmPct);
       }
+    } catch (error) {
+      logger.error(`Trigger ${definition.kind} failed to check re-arm for ${ctx.symbol}:`, error);
+      return false;
     }
 
-    return triggers;
+    if (!ctx.lastFirePrice) {
+      return true;
+    }
+    return Math.abs(ctx.pair.price - ctx.lastFirePrice) / ctx.lastFirePrice * 100 >= rearmPct;
+  }
+
+  private isGloballyEnabled(definition: LongTriggerDefinition, config: ScheduleConfigData): boolean {
+    // The original four kinds keep their global switches in ScheduleCfg
+    switch (definition.kind) {
+      case 'retrace':
+        return config.globalRetraceOn;
+      case 'stall':
+        return config.globalStallOn;
+      case 'breakout':
+        return config.globalBreakoutOn;
+      case 'mcap':
+        return config.globalMcapOn;
+      default:
+        return true;
+    }
   }
 
   private async updateStateData(coinId: number, pair: PairInfo, currentState: LongListState): Promise<void> {
@@ -437,6 +615,7 @@ export class LongListService {
     const updateData: any = {
       price: pair.price,
       volume24h: pair.volume24h,
+      priceChange24h: pair.priceChange24h,
       ...newState
     };
     
@@ -447,15 +626,26 @@ export class LongListService {
     await this.db.updateLongState(coinId, updateData);
   }
 
-  async generateAnchorReport(): Promise<AnchorReportData[]> {
+  async generateAnchorReport(chatId?: string): Promise<AnchorReportData[]> {
     try {
-      const coins = await this.db.getLongListCoins();
+      const coins = await this.db.getLongListCoins(chatId);
       const states = await this.db.getLongStates();
 
       if (coins.length === 0) {
         return [];
       }
 
+      const scheduleConfig = await this.db.getScheduleConfig();
+      // Ladders follow the chat's own retrace settings; the all-chats view shows defaults
+      const settingsChatId = chatId ?? UNCLAIMED_CHAT_ID;
+      const retraceConfigs = new Map(
+        (await this.db.getLongTriggerConfigs(settingsChatId)).filter(c => c.kind === 'retrace').map(c => [c.coinId, c])
+      );
+      const retraceStates = new Map(
+        (await this.db.getLongTriggerStates(settingsChatId)).filter(s => s.kind === 'retrace').map(s => [s.coinId, s])
+      );
+      const retraceDefinition = this.registry.get('retrace');
+
       const tokenRequests = coins.map(coin => ({
         chainId: coin.chain,
         tokenAddress: coin.tokenAddress
@@ -491,6 +681,17 @@ export class LongListService {
         // Calculate performance difference vs SOL
         const solPerformanceDiff = pair.priceChange24h - solChange24h;
 
+        let retraceLadder: AnchorReportData['retraceLadder'];
+        if (retraceDefinition) {
+          const config = this.resolveTriggerConfig(retraceDefinition, retraceConfigs.get(coin.coinId), scheduleConfig);
+          const ladder = getRetraceLadder(
+            config as { pct: number; levels: number[] },
+            { ...retraceDefinition.initialState, ...(retraceStates.get(coin.coinId)?.state || {}) },
+            state.h72High
+          );
+          retraceLadder = ladder.length > 0 ? ladder : undefined;
+        }
+
         reportData.push({
           symbol: pair.symbol,
           contractAddress: coin.tokenAddress,
@@ -498,7 +699,8 @@ export class LongListService {
           change24h: pair.priceChange24h,
           retraceFrom72hHigh,
           volume24h: pair.volume24h,
-          solPerformanceDiff
+          solPerformanceDiff,
+          retraceLadder
         });
       }
 
@@ -511,8 +713,4 @@ export class LongListService {
       throw error;
     }
   }
-
-  private formatMarketCap(value: number): string {
-    return Formatters.formatMarketCap(value);
-  }
 }
\ No newline at end of file
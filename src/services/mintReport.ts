@@ -5,6 +5,7 @@ import { TelegramService } from './telegram';
 import { TokenProcessorService } from './tokenProcessor';
 import { TokenClassifier } from '../utils/tokenClassifier';
 import { logger } from '../utils/logger';
+import { globalSnoozes } from './snooze';
 
 const DEFAULT_TIME = '09:00';
 
@@ -138,13 +139,24 @@ async function processTokenChunk(
 export async function runMintReport(
   dexScreener: DexScreenerService,
   telegram: TelegramService,
-  timezone: string
+  timezone: string,
+  // An explicit /mints_24h is sent even while the report is snoozed
+  ignoreSnooze: boolean = false
 ): Promise<void> {
   const prisma = DatabaseManager.getInstance();
   const nowMs = Date.now();
   const cutoffMs = nowMs - 24 * 60 * 60 * 1000;
 
   try {
+    // Checked before the token scan so a snoozed report costs nothing
+    if (!ignoreSnooze) {
+      const recipients = await globalSnoozes.filterRecipients([telegram.getDefaultChatId()], { triggerKind: 'mints' });
+      if (recipients.length === 0) {
+        logger.info('Mint report skipped: snoozed');
+        return;
+      }
+    }
+
     // Get all tokens EXCEPT those already marked as scam
     const rows = await prisma.mintEvent.findMany({
       where: {
@@ -0,0 +1,264 @@
+import { DatabaseManager } from '../utils/database';
+import { logger } from '../utils/logger';
+import { Formatters } from '../utils/formatters';
+import { TokenBucketRateLimiter } from './rateLimiter';
+import { OutboxBacklog, OutboxMessage } from '../types/telegram';
+
+export interface OutboxTransport {
+  sendMessage(chatId: string, text: string, options: Record<string, unknown>): Promise<unknown>;
+  sendPhoto(chatId: string, photo: Buffer, caption: string, options: Record<string, unknown>): Promise<unknown>;
+}
+
+// Telegram allows about 30 messages a second overall, one a second per chat and 20 a minute per group
+const GLOBAL_MESSAGES_PER_SECOND = 30;
+const PRIVATE_MESSAGES_PER_SECOND = 1;
+const GROUP_MESSAGES_PER_SECOND = 20 / 60;
+
+const MAX_ATTEMPTS = 8;
+const MAX_RETRY_DELAY_SECONDS = 3600;
+const BATCH_SIZE = 100;
+const POLL_INTERVAL_MS = 1000;
+
+/**
+ * Backoff after a failed attempt: 5s, 10s, 20s... capped at an hour.
+ */
+export function getRetryDelaySeconds(attempts: number): number {
+  return Math.min(MAX_RETRY_DELAY_SECONDS, 5 * 2 ** Math.max(0, attempts - 1));
+}
+
+/**
+ * 429s carry Telegram's `retry_after`; other 4xx errors (bad markup, bot blocked, chat gone)
+ * won't succeed on retry. Anything else, such as network errors, is retried with backoff.
+ */
+export function classifySendError(error: any): { retryAfter?: number; permanent: boolean } {
+  const code = error?.response?.error_code;
+  if (code === 429) {
+    const retryAfter = error.response.parameters?.retry_after;
+    return { retryAfter: typeof retryAfter === 'number' ? retryAfter : getRetryDelaySeconds(1), permanent: false };
+  }
+  return { permanent: typeof code === 'number' && code >= 400 && code < 500 };
+}
+
+/**
+ * Delivers messages written to the outbox table. Every message is stored before it is sent,
+ * so whatever is still unsent after a crash or restart goes out once the worker starts again.
+ */
+export class OutboxWorker {
+  private globalLimiter = new TokenBucketRateLimiter(GLOBAL_MESSAGES_PER_SECOND, GLOBAL_MESSAGES_PER_SECOND);
+  private chatLimiters = new Map<string, TokenBucketRateLimiter>();
+  // Chats Telegram told us to back off from, until epoch ms
+  private pausedUntil = new Map<string, number>();
+  private interval: NodeJS.Timeout | undefined = undefined;
+  private processing = false;
+
+  constructor(private transport: OutboxTransport) {}
+
+  /**
+   * Stores a message for delivery. A fingerprint that was already sent is skipped; an unsent one
+   * is replaced and retried from scratch.
+   */
+  async enqueue(message: OutboxMessage): Promise<void> {
+    const prisma = DatabaseManager.getInstance();
+
+    const existing = await prisma.outbox.findUnique({ where: { fingerprint: message.fingerprint } });
+    if (existing?.sentOk) {
+      logger.debug(`Message already sent: ${message.fingerprint}`);
+      return;
+    }
+
+    const fields = {
+      messageText: message.text,
+      parseMode: message.parseMode ?? null,
+      disablePreview: message.disablePreview ?? false,
+      replyMarkup: message.replyMarkup ? JSON.stringify(message.replyMarkup) : null,
+      photo: message.photo ?? null
+    };
+    await prisma.outbox.upsert({
+      where: { fingerprint: message.fingerprint },
+      update: { ...fields, deferred: false, attempts: 0, nextAttemptUtc: 0, lastError: null, failedTsUtc: null },
+      create: {
+        ...fields,
+        tsUtc: Math.floor(message.timestamp / 1000),
+        chatId: message.chatId,
+        fingerprint: message.fingerprint
+      }
+    });
+
+    this.kick();
+  }
+
+  start(): void {
+    if (this.interval) {
+      return;
+    }
+
+    this.interval = setInterval(() => this.kick(), POLL_INTERVAL_MS);
+    this.kick();
+    logger.info('Outbox worker started');
+  }
+
+  stop(): void {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = undefined;
+    }
+  }
+
+  /**
+   * Runs a pass now instead of waiting for the next tick.
+   */
+  kick(): void {
+    this.processPending().catch(error => {
+      logger.error('Error in outbox processing loop:', error);
+    });
+  }
+
+  /**
+   * Sends the oldest unsent message of each chat that can take one now, oldest first. A chat's
+   * later messages wait behind its head, so each chat still receives messages in order, and a
+   * chat with a long backlog or a 429 pause holds up only itself. Returns the number sent.
+   */
+  async processPending(): Promise<number> {
+    if (this.processing) {
+      return 0;
+    }
+    this.processing = true;
+
+    try {
+      const prisma = DatabaseManager.getInstance();
+      const heads = await prisma.outbox.groupBy({
+        by: ['chatId'],
+        where: { sentOk: false, deferred: false, failedTsUtc: null },
+        _min: { outboxId: true }
+      });
+      const headIds = heads
+        .filter(head => head._min.outboxId !== null && this.canSendTo(head.chatId))
+        .map(head => head._min.outboxId!);
+      if (headIds.length === 0) {
+        return 0;
+      }
+
+      const rows = await prisma.outbox.findMany({
+        where: { outboxId: { in: headIds }, nextAttemptUtc: { lte: Math.floor(Date.now() / 1000) } },
+        orderBy: { outboxId: 'asc' },
+        take: BATCH_SIZE
+      });
+
+      let sent = 0;
+      for (const row of rows) {
+        if (!this.globalLimiter.canSendMessage()) {
+          break;
+        }
+        if (await this.deliver(row)) {
+          sent++;
+        }
+      }
+
+      return sent;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  async getBacklog(): Promise<OutboxBacklog> {
+    const prisma = DatabaseManager.getInstance();
+    const pendingWhere = { sentOk: false, deferred: false, failedTsUtc: null };
+
+    const [pending, oldest, failedLastDay] = await Promise.all([
+      prisma.outbox.count({ where: pendingWhere }),
+      prisma.outbox.findFirst({ where: pendingWhere, orderBy: { tsUtc: 'asc' }, select: { tsUtc: true } }),
+      prisma.outbox.count({ where: { failedTsUtc: { gte: Math.floor(Date.now() / 1000) - 86400 } } })
+    ]);
+
+    return { pending, oldestTsUtc: oldest?.tsUtc ?? null, failedLastDay };
+  }
+
+  private canSendTo(chatId: string): boolean {
+    if ((this.pausedUntil.get(chatId) ?? 0) > Date.now()) {
+      return false;
+    }
+    return this.getChatLimiter(chatId).canSendMessage();
+  }
+
+  private getChatLimiter(chatId: string): TokenBucketRateLimiter {
+    let limiter = this.chatLimiters.get(chatId);
+    if (!limiter) {
+      // Group and channel ids are negative
+      limiter = new TokenBucketRateLimiter(1, chatId.startsWith('-') ? GROUP_MESSAGES_PER_SECOND : PRIVATE_MESSAGES_PER_SECOND);
+      this.chatLimiters.set(chatId, limiter);
+    }
+    return limiter;
+  }
+
+  private async deliver(row: {
+    outboxId: number;
+    chatId: string;
+    messageText: string;
+    parseMode: string | null;
+    disablePreview: boolean;
+    replyMarkup: string | null;
+    photo: Uint8Array | null;
+    attempts: number;
+  }): Promise<boolean> {
+    const prisma = DatabaseManager.getInstance();
+    // Photos have no link preview to disable
+    const options: Record<string, unknown> = row.photo ? {} : { disable_web_page_preview: row.disablePreview };
+    if (row.parseMode) {
+      options.parse_mode = row.parseMode;
+    }
+    if (row.replyMarkup) {
+      options.reply_markup = JSON.parse(row.replyMarkup);
+    }
+    const text = row.parseMode === 'MarkdownV2' ? Formatters.escapeMarkdown(row.messageText) : row.messageText;
+
+    this.globalLimiter.recordMessage();
+    this.getChatLimiter(row.chatId).recordMessage();
+
+    try {
+      if (row.photo) {
+        await this.transport.sendPhoto(row.chatId, Buffer.from(row.photo), text, options);
+      } else {
+        await this.transport.sendMessage(row.chatId, text, options);
+      }
+      await prisma.outbox.update({
+        where: { outboxId: row.outboxId },
+        // The row stays for deduplication; the chart image isn't needed once delivered
+        data: { sentOk: true, sentTsUtc: Math.floor(Date.now() / 1000), lastError: null, photo: null }
+      });
+      return true;
+    } catch (error) {
+      const now = Math.floor(Date.now() / 1000);
+      const failure = classifySendError(error);
+      const lastError = error instanceof Error ? error.message : String(error);
+
+      if (failure.retryAfter !== undefined) {
+        // Rate limited: wait as told without using up an attempt
+        this.pausedUntil.set(row.chatId, Date.now() + failure.retryAfter * 1000);
+        await prisma.outbox.update({
+          where: { outboxId: row.outboxId },
+          data: { nextAttemptUtc: now + failure.retryAfter, lastError }
+        });
+        logger.warn(`Telegram rate limited chat ${row.chatId}, retrying in ${failure.retryAfter}s`);
+        return false;
+      }
+
+      const attempts = row.attempts + 1;
+      if (failure.permanent || attempts >= MAX_ATTEMPTS) {
+        await prisma.outbox.update({
+          where: { outboxId: row.outboxId },
+          data: { attempts, lastError, failedTsUtc: now }
+        });
+        logger.error(`Giving up on message ${row.outboxId} to chat ${row.chatId} after ${attempts} attempts:`, error);
+        return false;
+      }
+
+      const delay = getRetryDelaySeconds(attempts);
+      await prisma.outbox.update({
+        where: { outboxId: row.outboxId },
+        data: { attempts, nextAttemptUtc: now + delay, lastError }
+      });
+      logger.warn(`Failed to send message ${row.outboxId} to chat ${row.chatId}, retrying in ${delay}s: ${lastError}`);
+      return false;
+    }
+  }
+}
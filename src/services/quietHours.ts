@@ -0,0 +1,70 @@
+import { QuietHoursWindow } from '../types/database';
+
+export interface DigestItem {
+  tsUtc: number;
+  // Coin symbol the item is grouped under
+  groupKey: string | null;
+  text: string;
+}
+
+// Lines shown per coin; older ones are counted instead
+const MAX_ITEMS_PER_COIN = 5;
+
+/**
+ * Minutes after midnight of `date` in the given timezone.
+ */
+export function getLocalMinute(date: Date, timezone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23'
+  }).formatToParts(date);
+  const hour = parseInt(parts.find(part => part.type === 'hour')?.value || '0', 10);
+  const minute = parseInt(parts.find(part => part.type === 'minute')?.value || '0', 10);
+  return hour * 60 + minute;
+}
+
+export function isQuietTime(window: QuietHoursWindow | null, date: Date, timezone: string): boolean {
+  if (!window) {
+    return false;
+  }
+
+  const minute = getLocalMinute(date, timezone);
+  return window.startMinute < window.endMinute
+    ? minute >= window.startMinute && minute < window.endMinute
+    // Wraps past midnight, e.g. 23:00-07:00
+    : minute >= window.startMinute || minute < window.endMinute;
+}
+
+/**
+ * One message for everything held back during quiet hours: coins with the most alerts
+ * first, each coin's alerts oldest to newest.
+ */
+export function buildDigest(items: DigestItem[], timezone: string): string {
+  const groups = new Map<string, DigestItem[]>();
+  for (const item of [...items].sort((a, b) => a.tsUtc - b.tsUtc)) {
+    const key = item.groupKey || 'Other';
+    groups.set(key, [...(groups.get(key) || []), item]);
+  }
+
+  const time = (tsUtc: number) => new Date(tsUtc * 1000).toLocaleTimeString('en-GB', {
+    timeZone: timezone,
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+  let message = `🌙 *Quiet hours digest* (${items.length} alert${items.length === 1 ? '' : 's'})\n`;
+  for (const [key, group] of Array.from(groups.entries()).sort((a, b) => b[1].length - a[1].length)) {
+    message += `\n*${key}* (${group.length})\n`;
+    const hidden = group.length - MAX_ITEMS_PER_COIN;
+    if (hidden > 0) {
+      message += `• ${hidden} earlier\n`;
+    }
+    for (const item of group.slice(-MAX_ITEMS_PER_COIN)) {
+      message += `• ${time(item.tsUtc)} ${item.text}\n`;
+    }
+  }
+
+  return message.trimEnd();
+}
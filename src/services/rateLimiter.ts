@@ -18,7 +18,7 @@ export interface GlobalRateLimiter {
   getNextAvailableSlot(): number;
 }
 
-class TokenBucketRateLimiter implements GlobalRateLimiter {
+export class TokenBucketRateLimiter implements GlobalRateLimiter {
   public tokens: number;
   private lastRefill: number;
   private readonly maxTokens: number;
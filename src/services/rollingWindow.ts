@@ -4,6 +4,9 @@ import { logger } from '../utils/logger';
 export interface DataPoint {
   timestamp: number;
   price: number;
+  // Candle high/low, so rolling highs and lows include wicks; spot samples only have price
+  high?: number;
+  low?: number;
   volume: number;
   marketCap?: number;
 }
@@ -41,8 +44,8 @@ export class RollingWindowManager {
     try {
       // Store the data point for rolling calculations
       await prisma.$executeRaw`
-        INSERT INTO rolling_data_points (coin_id, timestamp, price, volume, market_cap)
-        VALUES (${coinId}, ${dataPoint.timestamp}, ${dataPoint.price}, ${dataPoint.volume}, ${dataPoint.marketCap})
+        INSERT INTO rolling_data_points (coin_id, timestamp, price, high, low, volume, market_cap)
+        VALUES (${coinId}, ${dataPoint.timestamp}, ${dataPoint.price}, ${dataPoint.high ?? null}, ${dataPoint.low ?? null}, ${dataPoint.volume}, ${dataPoint.marketCap})
       `;
 
       // Update rolling stats
@@ -65,17 +68,17 @@ export class RollingWindowManager {
       // Get price stats for different time windows
       const [h12Stats, h24Stats, h72Stats] = await Promise.all([
         prisma.$queryRaw<Array<{ high: number; low: number }>>`
-          SELECT MAX(price) as high, MIN(price) as low
+          SELECT MAX(COALESCE(high, price)) as high, MIN(COALESCE(low, price)) as low
           FROM rolling_data_points 
           WHERE coin_id = ${coinId} AND timestamp >= ${h12Ago}
         `,
         prisma.$queryRaw<Array<{ high: number; low: number }>>`
-          SELECT MAX(price) as high, MIN(price) as low
+          SELECT MAX(COALESCE(high, price)) as high, MIN(COALESCE(low, price)) as low
           FROM rolling_data_points 
           WHERE coin_id = ${coinId} AND timestamp >= ${h24Ago}
         `,
         prisma.$queryRaw<Array<{ high: number; low: number }>>`
-          SELECT MAX(price) as high, MIN(price) as low
+          SELECT MAX(COALESCE(high, price)) as high, MIN(COALESCE(low, price)) as low
           FROM rolling_data_points 
           WHERE coin_id = ${coinId} AND timestamp >= ${h72Ago}
         `
@@ -207,6 +210,23 @@ export class RollingWindowManager {
     return earliestTimestamp ? earliestTimestamp <= requiredTime : false;
   }
 
+  async getDataPoints(coinId: number, since: number): Promise<DataPoint[]> {
+    const prisma = DatabaseManager.getInstance();
+
+    const rows = await prisma.rollingDataPoint.findMany({
+      where: { coinId, timestamp: { gte: since } },
+      orderBy: { timestamp: 'asc' }
+    });
+
+    return rows.map(row => {
+      const point: DataPoint = { timestamp: row.timestamp, price: row.price, volume: row.volume };
+      if (row.high !== null) point.high = row.high;
+      if (row.low !== null) point.low = row.low;
+      if (row.marketCap !== null) point.marketCap = row.marketCap;
+      return point;
+    });
+  }
+
   async getSumVolume(coinId: number, startTime: number, endTime: number): Promise<number> {
     const prisma = DatabaseManager.getInstance();
     
@@ -5,6 +5,7 @@ import { HotListService } from './hotlist';
 import { TelegramService } from './telegram';
 import { DexScreenerService } from './dexscreener';
 import { TokenProcessorService } from './tokenProcessor';
+import { globalSnoozes, formatSnoozeSummary } from './snooze';
 import { Formatters } from '../utils/formatters';
 import { logger } from '../utils/logger';
 
@@ -68,6 +69,9 @@ export class SchedulerService {
     // Setup token processing every 3 hours
     this.setupTokenProcessing();
 
+    this.setupSnoozeSummaries();
+    this.setupQuietHoursDigest();
+
     logger.info('Scheduled tasks:', {
       anchorTimes: config.anchorTimesLocal,
       longCheckpointHours: config.longCheckpointHours,
@@ -143,13 +147,36 @@ export class SchedulerService {
     logger.info(`Scheduled token processing every 3 hours`);
   }
 
+  private setupSnoozeSummaries(): void {
+    // Every minute, so a snooze's summary arrives close to when alerts resume
+    const task = cron.schedule('* * * * *', async () => {
+      await this.runSnoozeSummaries();
+    }, {
+      scheduled: true,
+      timezone: this.timezone
+    });
+
+    this.tasks.push(task);
+  }
+
+  private setupQuietHoursDigest(): void {
+    // Checked every minute; the digest goes out on the first run after quiet hours end
+    const task = cron.schedule('* * * * *', async () => {
+      await this.runQuietHoursDigest();
+    }, {
+      scheduled: true,
+      timezone: this.timezone
+    });
+
+    this.tasks.push(task);
+  }
+
   private async runAnchorReport(): Promise<void> {
     try {
       logger.info('Running anchor report...');
       
-      const reportData = await this.longList.generateAnchorReport();
-      
-      if (reportData.length === 0) {
+      const chatIds = [...new Set((await this.db.getLongSubscriptions()).map(s => s.chatId))];
+      if (chatIds.length === 0) {
         logger.info('No coins in long list for anchor report');
         return;
       }
@@ -159,46 +186,61 @@ export class SchedulerService {
         hour12: false 
       });
 
-      // Calculate SOL data from the first coin's performance difference
-      // If first coin has +10% and solPerformanceDiff is +5%, then SOL is +5%
-      const firstCoin = reportData[0];
-      const solChange24h = firstCoin ? firstCoin.change24h - (firstCoin.solPerformanceDiff || 0) : 0;
-      
       // We need to fetch SOL price separately - let's do a quick fetch
       const solPair = await this.dexScreener.getPairInfo('solana', 'So11111111111111111111111111111111111111112');
       const solPrice = solPair?.price || 0;
-      const solChangeStr = solChange24h >= 0 ? `+${solChange24h.toFixed(1)}` : solChange24h.toFixed(1);
-      
-      let report = `📊 *Long List Snapshot* (${timestamp})\n`;
-      report += `SOL: $${solPrice.toFixed(2)} (${solChangeStr}%)\n\n`;
-      report += `\`Ticker   Price (24h Δ%)     │72h High│ Vol  │vs SOL\`\n`;
-      report += `\`─────────────────────────────────────────────────────\`\n`;
-
-      for (const coin of reportData) {
-        const price = coin.price < 1 ? coin.price.toFixed(6) : coin.price.toFixed(4);
-        const change24h = coin.change24h >= 0 ? `+${coin.change24h.toFixed(1)}` : coin.change24h.toFixed(1);
-        const priceWithDelta = `${price} (${change24h}%)`;
+
+      // Each chat's report is built separately so retrace ladders use that chat's settings
+      let coinCount = 0;
+      for (const chatId of chatIds) {
+        const chatReport = await this.longList.generateAnchorReport(chatId);
+        if (chatReport.length === 0) {
+          continue;
+        }
+        coinCount += chatReport.length;
+
+        // Calculate SOL data from the first coin's performance difference
+        // If first coin has +10% and solPerformanceDiff is +5%, then SOL is +5%
+        const firstCoin = chatReport[0];
+        const solChange24h = firstCoin ? firstCoin.change24h - (firstCoin.solPerformanceDiff || 0) : 0;
+        const solChangeStr = solChange24h >= 0 ? `+${solChange24h.toFixed(1)}` : solChange24h.toFixed(1);
+
+        let report = `📊 *Long List Snapshot* (${timestamp})\n`;
+        report += `SOL: $${solPrice.toFixed(2)} (${solChangeStr}%)\n\n`;
+        report += `\`Ticker   Price (24h Δ%)     │72h High│ Vol  │vs SOL\`\n`;
+        report += `\`─────────────────────────────────────────────────────\`\n`;
+
+        for (const coin of chatReport) {
+          const price = coin.price < 1 ? coin.price.toFixed(6) : coin.price.toFixed(4);
+          const change24h = coin.change24h >= 0 ? `+${coin.change24h.toFixed(1)}` : coin.change24h.toFixed(1);
+          const priceWithDelta = `${price} (${change24h}%)`;
         
-        // Fix the 72h high sign - negative retracement should show as negative
-        const retrace = coin.retraceFrom72hHigh >= 0 ? `+${coin.retraceFrom72hHigh.toFixed(1)}` : coin.retraceFrom72hHigh.toFixed(1);
+          // Fix the 72h high sign - negative retracement should show as negative
+          const retrace = coin.retraceFrom72hHigh >= 0 ? `+${coin.retraceFrom72hHigh.toFixed(1)}` : coin.retraceFrom72hHigh.toFixed(1);
         
-        const volume = Formatters.formatVolume(coin.volume24h);
+          const volume = Formatters.formatVolume(coin.volume24h);
         
-        // Format vs SOL performance 
-        const solDiff = coin.solPerformanceDiff || 0;
-        const solDiffStr = solDiff >= 0 ? `+${solDiff.toFixed(1)}` : solDiff.toFixed(1);
+          // Format vs SOL performance 
+          const solDiff = coin.solPerformanceDiff || 0;
+          const solDiffStr = solDiff >= 0 ? `+${solDiff.toFixed(1)}` : solDiff.toFixed(1);
         
-        report += `\`${coin.symbol.padEnd(8)} ${priceWithDelta.padEnd(16)} │${retrace.padStart(6)}%│${volume.padStart(5)} │${solDiffStr.padStart(5)}%\`\n`;
-      }
+          report += `\`${coin.symbol.padEnd(8)} ${priceWithDelta.padEnd(16)} │${retrace.padStart(6)}%│${volume.padStart(5)} │${solDiffStr.padStart(5)}%\`\n`;
+
+          if (coin.retraceLadder) {
+            report += `\`${''.padEnd(8)} ladder ${Formatters.formatRetraceLadder(coin.retraceLadder)}\`\n`;
+          }
+        }
 
-      const fingerprint = `anchor_report_${Math.floor(Date.now() / 1000)}`;
-      await this.telegram.sendToGroupOrAdmin(
-        report,
-        'MarkdownV2',
-        fingerprint
-      );
+        const fingerprint = `anchor_report_${chatId}_${Math.floor(Date.now() / 1000)}`;
+        await this.telegram.sendMessage(
+          chatId,
+          report,
+          'MarkdownV2',
+          fingerprint
+        );
+      }
 
-      logger.info(`Anchor report sent with ${reportData.length} coins`);
+      logger.info(`Anchor report sent to ${chatIds.length} chats with ${coinCount} coins`);
     } catch (error) {
       logger.error('Failed to run anchor report:', error);
     }
@@ -242,6 +284,25 @@ export class SchedulerService {
     }
   }
 
+  private async runSnoozeSummaries(): Promise<void> {
+    try {
+      const ended = await globalSnoozes.collectExpired();
+      for (const snooze of ended) {
+        await this.telegram.sendMessage(snooze.chatId, formatSnoozeSummary(snooze), undefined, `snooze_end_${snooze.snoozeId}`);
+      }
+    } catch (error) {
+      logger.error('Failed to send snooze summaries:', error);
+    }
+  }
+
+  private async runQuietHoursDigest(): Promise<void> {
+    try {
+      await this.telegram.flushQuietHoursDigest();
+    } catch (error) {
+      logger.error('Failed to send quiet hours digest:', error);
+    }
+  }
+
   private async runTokenProcessing(): Promise<void> {
     try {
       logger.info('Running token processing...');
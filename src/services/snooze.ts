@@ -0,0 +1,196 @@
+import { DatabaseManager } from '../utils/database';
+import { logger } from '../utils/logger';
+import { Formatters } from '../utils/formatters';
+import { SnoozeData, SnoozeScope, SnoozeTarget } from '../types/snooze';
+import { TriggerResult } from '../types/triggers';
+
+/**
+ * Whether a snooze silences an alert. Every field the snooze sets has to match; a snooze
+ * with no coin, entry or kind covers the whole chat.
+ */
+export function snoozeCovers(snooze: SnoozeScope, target: SnoozeTarget): boolean {
+  if (snooze.coinId !== undefined && snooze.coinId !== target.coinId) {
+    return false;
+  }
+  if (snooze.hotId !== undefined && snooze.hotId !== target.hotId) {
+    return false;
+  }
+  if (snooze.triggerKind !== undefined) {
+    const kind = target.triggerKind;
+    return kind !== undefined && (kind === snooze.triggerKind || kind.startsWith(`${snooze.triggerKind}:`));
+  }
+  return true;
+}
+
+/**
+ * Kind a long trigger is snoozed and muted by; rules are told apart by id.
+ */
+export function getLongTriggerKind(trigger: Pick<TriggerResult, 'triggerType' | 'ruleId'>): string {
+  return trigger.triggerType === 'rule' && trigger.ruleId ? `rule:${trigger.ruleId}` : trigger.triggerType;
+}
+
+/**
+ * Kind of the hot trigger an alert came from, e.g. `pct:-20` or `failsafe`.
+ */
+export function getHotAlertKind(alertType: string, targetValue?: number): string | undefined {
+  if (alertType === 'failsafe') {
+    return 'failsafe';
+  }
+  if ((alertType === 'pct' || alertType === 'mcap' || alertType === 'trail') && targetValue !== undefined) {
+    return `${alertType}:${targetValue}`;
+  }
+  return undefined;
+}
+
+export function formatSnoozeSummary(snooze: SnoozeData): string {
+  const entries = Object.entries(snooze.suppressed).sort((a, b) => b[1] - a[1]);
+  const total = entries.reduce((sum, [, count]) => sum + count, 0);
+
+  let message = `🔔 Snooze on ${snooze.label} ended after ${Formatters.formatDuration(((snooze.endedAtUtc ?? snooze.expiresAtUtc) - snooze.createdAtUtc) * 1000)}\n`;
+  if (total === 0) {
+    return message + 'No alerts were suppressed.';
+  }
+
+  message += `${total} alert${total === 1 ? '' : 's'} suppressed:\n`;
+  message += entries.map(([key, count]) => `• ${key} ×${count}`).join('\n');
+  return message;
+}
+
+export class SnoozeService {
+  async snooze(chatId: string, scope: SnoozeScope, label: string, hours: number): Promise<SnoozeData> {
+    const prisma = DatabaseManager.getInstance();
+    const now = Math.floor(Date.now() / 1000);
+
+    const row = await prisma.alertSnooze.create({
+      data: {
+        chatId,
+        coinId: scope.coinId ?? null,
+        hotId: scope.hotId ?? null,
+        triggerKind: scope.triggerKind ?? null,
+        label,
+        expiresAtUtc: now + Math.round(hours * 3600),
+        createdAtUtc: now
+      }
+    });
+
+    logger.info(`Snoozed ${label} in chat ${chatId} for ${hours}h`);
+    return this.mapSnooze(row);
+  }
+
+  async listActive(chatId: string): Promise<SnoozeData[]> {
+    const prisma = DatabaseManager.getInstance();
+    const rows = await prisma.alertSnooze.findMany({
+      where: { chatId, endedAtUtc: null, expiresAtUtc: { gt: Math.floor(Date.now() / 1000) } },
+      orderBy: { expiresAtUtc: 'asc' }
+    });
+    return rows.map(row => this.mapSnooze(row));
+  }
+
+  /**
+   * Longest-running active snooze in the chat that covers the alert.
+   */
+  async findCovering(chatId: string, target: SnoozeTarget): Promise<SnoozeData | null> {
+    const covering = (await this.listActive(chatId)).filter(snooze => snoozeCovers(snooze, target));
+    return covering[covering.length - 1] ?? null;
+  }
+
+  /**
+   * Drops chats that have the alert snoozed, counting it against their snooze for the end summary.
+   */
+  async filterRecipients(chatIds: string[], target: SnoozeTarget): Promise<string[]> {
+    const recipients: string[] = [];
+    for (const chatId of chatIds) {
+      const snooze = await this.findCovering(chatId, target);
+      if (!snooze) {
+        recipients.push(chatId);
+        continue;
+      }
+
+      await this.recordSuppressed(snooze, target);
+      logger.info(`Suppressed ${target.symbol ?? ''} ${target.triggerKind ?? ''} alert in chat ${chatId} (snoozed: ${snooze.label})`);
+    }
+    return recipients;
+  }
+
+  /**
+   * Ends the chat's active snoozes with this label ('all' ends every one), returning them for a summary.
+   */
+  async unsnooze(chatId: string, label: string): Promise<SnoozeData[]> {
+    const active = (await this.listActive(chatId))
+      .filter(snooze => label.toLowerCase() === 'all' || snooze.label.toLowerCase() === label.toLowerCase());
+    return this.end(active);
+  }
+
+  /**
+   * Marks snoozes that ran out as ended and returns them, once each, so their summaries can be sent.
+   */
+  async collectExpired(): Promise<SnoozeData[]> {
+    const prisma = DatabaseManager.getInstance();
+    const rows = await prisma.alertSnooze.findMany({
+      where: { endedAtUtc: null, expiresAtUtc: { lte: Math.floor(Date.now() / 1000) } }
+    });
+    return this.end(rows.map(row => this.mapSnooze(row)));
+  }
+
+  private async end(snoozes: SnoozeData[]): Promise<SnoozeData[]> {
+    const prisma = DatabaseManager.getInstance();
+    const now = Math.floor(Date.now() / 1000);
+    const ended: SnoozeData[] = [];
+
+    for (const snooze of snoozes) {
+      // Expired snoozes end at their expiry, not when the sweep noticed
+      const endedAtUtc = Math.min(now, snooze.expiresAtUtc);
+      const result = await prisma.alertSnooze.updateMany({
+        where: { snoozeId: snooze.snoozeId, endedAtUtc: null },
+        data: { endedAtUtc }
+      });
+      if (result.count > 0) {
+        ended.push({ ...snooze, endedAtUtc });
+      }
+    }
+
+    return ended;
+  }
+
+  private async recordSuppressed(snooze: SnoozeData, target: SnoozeTarget): Promise<void> {
+    const prisma = DatabaseManager.getInstance();
+    const baseKind = target.triggerKind?.split(':')[0] ?? 'alert';
+    const key = target.symbol ? `${target.symbol} ${baseKind}` : baseKind;
+
+    const row = await prisma.alertSnooze.findUnique({ where: { snoozeId: snooze.snoozeId } });
+    const suppressed = this.parseSuppressed(row?.suppressedJson ?? '{}');
+    suppressed[key] = (suppressed[key] || 0) + 1;
+
+    await prisma.alertSnooze.update({
+      where: { snoozeId: snooze.snoozeId },
+      data: { suppressedJson: JSON.stringify(suppressed) }
+    });
+  }
+
+  private mapSnooze(row: any): SnoozeData {
+    return {
+      snoozeId: row.snoozeId,
+      chatId: row.chatId,
+      ...(row.coinId !== null ? { coinId: row.coinId } : {}),
+      ...(row.hotId !== null ? { hotId: row.hotId } : {}),
+      ...(row.triggerKind !== null ? { triggerKind: row.triggerKind } : {}),
+      label: row.label,
+      expiresAtUtc: row.expiresAtUtc,
+      createdAtUtc: row.createdAtUtc,
+      suppressed: this.parseSuppressed(row.suppressedJson),
+      ...(row.endedAtUtc !== null ? { endedAtUtc: row.endedAtUtc } : {})
+    };
+  }
+
+  private parseSuppressed(json: string): Record<string, number> {
+    try {
+      const parsed = JSON.parse(json);
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+    } catch {
+      return {};
+    }
+  }
+}
+
+// Shared so the long list, hot list and mint report honor the same snoozes
+export const globalSnoozes = new SnoozeService();
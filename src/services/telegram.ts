@@ -1,15 +1,40 @@
 import { Telegraf, Context } from 'telegraf';
-import { Update, Message } from 'telegraf/typings/core/types/typegram';
+import { Update, Message, InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
 import { DatabaseService } from './database';
 import { LongListService } from './longlist';
 import { HotListService } from './hotlist';
 import { DexScreenerService } from './dexscreener';
-import { MessageSender, OutboxMessage } from '../types/telegram';
+import { MessageSender, OutboxMessage, USER_ROLES, UserRole } from '../types/telegram';
 import { logger } from '../utils/logger';
 import { PrismaClient } from '@prisma/client';
 import { Formatters } from '../utils/formatters';
 import { DatabaseManager } from '../utils/database';
 import { runMintReport } from './mintReport';
+import { globalTriggerRegistry, parseCooldownHours, parseRearmPct } from './triggers';
+import { TriggerSettingsUpdate } from '../types/triggers';
+import { HotListEntry, HotTrigger } from '../types/hotlist';
+import { parseAlias, parseFailsafeSteps, parseQuietHours, parseTtlHours } from '../utils/validation';
+import { RuleSyntaxError, listRuleFields, listRuleFunctions } from './triggers/ruleDsl';
+import { AlertAction, ALERT_ACTION_PATTERN, SNOOZE_BUTTON_HOURS, buildAlertKeyboard, decodeAlertAction } from './alertActions';
+import { globalSnoozes, getHotAlertKind, getLongTriggerKind, formatSnoozeSummary } from './snooze';
+import { SnoozeScope } from '../types/snooze';
+import { isQuietTime, buildDigest } from './quietHours';
+import { AlertEvent } from '../events/alertBus';
+import { OutboxWorker } from './outbox';
+import { formatCoinDetails } from './coinDetails';
+import { CHART_HOURS, getPriceRange, renderPriceChart } from './chart';
+import { DEFAULT_WATCHLIST_VIEW, WATCHLIST_ACTION_PATTERN, buildCoinCard, buildWatchlistPage, decodeWatchlistAction } from './watchlist';
+import { DataPoint } from './rollingWindow';
+import {
+  COIN_CHOICE_ACTION_PATTERN,
+  COIN_CHOICE_TTL_MS,
+  MAX_COIN_CHOICES,
+  buildCoinChoiceKeyboard,
+  decodeCoinChoice,
+  formatCoinChoice,
+  isContractAddress
+} from './coinResolver';
+import { CoinData } from '../types/database';
 
 export class TelegramService implements MessageSender {
   private bot: Telegraf<Context<Update>>;
@@ -20,11 +45,22 @@ export class TelegramService implements MessageSender {
   private prisma: PrismaClient;
   private adminChatId: string;
   private groupChatId: string | null = null;
+  // Made owner on every startup so access can't be locked out
+  private adminUserId: string;
+  // Minimum role per command; null = open to everyone
+  private commandRoles = new Map<string, UserRole | null>();
+  private deniedAttempts = new Map<string, number>();
+  // Quiet hours are in local time
+  private timezone = process.env.TIMEZONE || 'UTC';
+  private outbox: OutboxWorker;
+  // Ambiguous tickers waiting for a button press, by choice id
+  private coinChoices = new Map<string, { userId: string | undefined; createdAt: number; coins: CoinData[]; rerun: (address: string) => Promise<void> }>();
 
   constructor(
     token: string, 
     adminChatId: string,
     groupChatId: string | undefined,
+    adminUserId: string,
     db: DatabaseService,
     longList: LongListService,
     hotList: HotListService,
@@ -33,34 +69,121 @@ export class TelegramService implements MessageSender {
     this.bot = new Telegraf(token);
     this.adminChatId = adminChatId;
     this.groupChatId = groupChatId || null;
+    this.adminUserId = adminUserId;
     this.db = db;
     this.longList = longList;
     this.hotList = hotList;
     this.dexScreener = dexScreener;
     this.prisma = DatabaseManager.getInstance();
+    this.outbox = new OutboxWorker({
+      sendMessage: (chatId, text, options) => this.bot.telegram.sendMessage(chatId, text, options),
+      sendPhoto: (chatId, photo, caption, options) => this.bot.telegram.sendPhoto(chatId, { source: photo }, { ...options, caption })
+    });
 
     this.setupCommands();
     this.registerEventHandlers();
   }
 
   private setupCommands(): void {
-    this.bot.command('start', this.handleStartCommand.bind(this));
-    this.bot.command('help', this.handleHelpCommand.bind(this));
-    this.bot.command('long_add', this.handleLongAddCommand.bind(this));
-    this.bot.command('long_rm', this.handleLongRemoveCommand.bind(this));
-    this.bot.command('long_trigger', this.handleLongTriggerCommand.bind(this));
-    this.bot.command('long_set', this.handleLongSetCommand.bind(this));
-    this.bot.command('report_now', this.handleReportNowCommand.bind(this));
-    this.bot.command('hot_add', this.handleHotAddCommand.bind(this));
-    this.bot.command('hot_rm', this.handleHotRemoveCommand.bind(this));
+    // Runs before every command so lists can be owned by the calling chat
+    this.bot.use(this.trackCaller.bind(this));
+
+    this.command('start', null, this.handleStartCommand);
+    this.command('help', null, this.handleHelpCommand);
+    this.command('long_add', 'editor', this.handleLongAddCommand);
+    this.command('long_rm', 'editor', this.handleLongRemoveCommand);
+    this.command('long_trigger', 'editor', this.handleLongTriggerCommand);
+    this.command('long_set', 'editor', this.handleLongSetCommand);
+    this.command('long_rule', 'editor', this.handleLongRuleCommand);
+    this.command('report_now', 'viewer', this.handleReportNowCommand);
+    this.command('hot_add', 'editor', this.handleHotAddCommand);
+    this.command('hot_rm', 'editor', this.handleHotRemoveCommand);
     // Remove a specific hot trigger by hotId and value (e.g., /hot_rm 12 +10%)
-    this.bot.command('hot_rm_trigger', this.handleHotRemoveTriggerCommand.bind(this));
-    this.bot.command('hot_list', this.handleHotListCommand.bind(this));
-    this.bot.command('list', this.handleHotListCommand.bind(this));
-    this.bot.command('alerts', this.handleAlertsCommand.bind(this));
-    this.bot.command('status', this.handleStatusCommand.bind(this));
-    this.bot.command('mints_24h', this.handleMints24hCommand.bind(this));
-    this.bot.command('list_contracts', this.handleListContractsCommand.bind(this));
+    this.command('hot_rm_trigger', 'editor', this.handleHotRemoveTriggerCommand);
+    this.command('hot_list', 'viewer', this.handleHotListCommand);
+    this.command('hot_failsafe', 'owner', this.handleHotFailsafeCommand);
+    this.command('quiet_hours', 'owner', this.handleQuietHoursCommand);
+    this.command('list', 'viewer', this.handleHotListCommand);
+    this.command('alerts', 'viewer', this.handleAlertsCommand);
+    this.command('watchlist', 'viewer', this.handleWatchlistCommand);
+    this.command('coin', 'viewer', this.handleCoinCommand);
+    this.command('chart', 'viewer', this.handleChartCommand);
+    this.command('alias_add', 'editor', this.handleAliasAddCommand);
+    this.command('alias_rm', 'editor', this.handleAliasRemoveCommand);
+    this.command('alias_list', 'viewer', this.handleAliasListCommand);
+    this.command('status', 'viewer', this.handleStatusCommand);
+    this.command('mints_24h', 'viewer', this.handleMints24hCommand);
+    this.command('list_contracts', 'viewer', this.handleListContractsCommand);
+    this.command('chats', 'owner', this.handleChatsCommand);
+    this.command('grant', 'owner', this.handleGrantCommand);
+    this.command('revoke', 'owner', this.handleRevokeCommand);
+    this.command('roles', 'owner', this.handleRolesCommand);
+    this.command('snooze', 'editor', this.handleSnoozeCommand);
+    this.command('unsnooze', 'editor', this.handleUnsnoozeCommand);
+
+    // Buttons under long trigger and hot alerts
+    this.bot.action(ALERT_ACTION_PATTERN, this.requireRole('alert_buttons', 'editor'), this.handleAlertAction.bind(this));
+    this.bot.action(WATCHLIST_ACTION_PATTERN, this.requireRole('watchlist', 'viewer'), this.handleWatchlistAction.bind(this));
+    // Picking a coin for an ambiguous ticker; the command itself already passed its role check
+    this.bot.action(COIN_CHOICE_ACTION_PATTERN, this.requireRole('coin_choice', 'viewer'), this.handleCoinChoiceAction.bind(this));
+  }
+
+  private command(name: string, role: UserRole | null, handler: (ctx: Context<Update>) => Promise<void>): void {
+    this.commandRoles.set(name, role);
+    this.bot.command(name, this.requireRole(name, role), handler.bind(this));
+  }
+
+  private async hasRole(userId: string | undefined, required: UserRole): Promise<boolean> {
+    const role = userId ? await this.db.getUserRole(userId) : null;
+    return role !== null && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required);
+  }
+
+  private requireRole(command: string, required: UserRole | null) {
+    return async (ctx: Context<Update>, next: () => Promise<void>): Promise<void> => {
+      if (!required) {
+        await next();
+        return;
+      }
+
+      const userId = ctx.from?.id.toString();
+      const role = userId ? await this.db.getUserRole(userId) : null;
+      if (role && USER_ROLES.indexOf(role) >= USER_ROLES.indexOf(required)) {
+        await next();
+        return;
+      }
+
+      this.deniedAttempts.set(command, (this.deniedAttempts.get(command) || 0) + 1);
+      logger.warn(`Denied /${command} for user ${userId ?? 'unknown'} (${ctx.from?.username ?? 'no username'}) in chat ${ctx.chat?.id}: has ${role ?? 'no role'}, needs ${required}`);
+      if (ctx.callbackQuery) {
+        // Button presses answer privately instead of posting in the chat
+        await ctx.answerCbQuery(`⛔ This button needs the ${required} role${role ? ` (you are ${role})` : ''}`, { show_alert: true });
+        return;
+      }
+      await this.sendMessage(
+        ctx.chat!.id.toString(),
+        `⛔ /${command} needs the ${required} role${role ? ` (you are ${role})` : ''}. Ask an owner to /grant it.`
+      );
+    };
+  }
+
+  private async trackCaller(ctx: Context<Update>, next: () => Promise<void>): Promise<void> {
+    try {
+      if (ctx.chat) {
+        const title = 'title' in ctx.chat ? ctx.chat.title : ('username' in ctx.chat ? ctx.chat.username : undefined);
+        await this.db.upsertChat(ctx.chat.id.toString(), ctx.chat.type, title);
+      }
+      if (ctx.from) {
+        await this.db.upsertUser(ctx.from.id.toString(), ctx.from.username, ctx.from.first_name);
+      }
+    } catch (error) {
+      logger.warn('Failed to record chat/user:', error);
+    }
+
+    await next();
+  }
+
+  private isAdminChat(chatId: string): boolean {
+    return chatId === this.adminChatId;
   }
 
   private registerEventHandlers(): void {
@@ -109,8 +232,16 @@ export class TelegramService implements MessageSender {
     await this.handleLongSet(ctx.message as Message, match);
   }
 
+  private async handleLongRuleCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/long_rule\s*(.*)/);
+    await this.handleLongRule(ctx.message as Message, match);
+  }
+
   private async handleReportNowCommand(ctx: Context<Update>): Promise<void> {
-    await this.handleReportNow(ctx.message as Message);
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/report_now\s*(.*)/);
+    await this.handleReportNow(ctx.message as Message, match);
   }
 
   private async handleHotAddCommand(ctx: Context<Update>): Promise<void> {
@@ -137,11 +268,18 @@ export class TelegramService implements MessageSender {
     }
     const hotId = parseInt(match[1], 10);
     const pct = parseFloat(match[2]);
+    const chatId = ctx.chat!.id.toString();
     try {
+      const owner = await this.hotList.getEntryOwner(hotId);
+      if (owner !== chatId && !this.isAdminChat(chatId)) {
+        await this.sendMessage(chatId, `❌ Trigger not found.`, 'MarkdownV2');
+        return;
+      }
+
       const prisma = this.prisma;
       const updated = await prisma.hotTriggerState.update({
         where: { hotId_trigKind_trigValue: { hotId, trigKind: 'pct', trigValue: pct } },
-        data: { fired: true }
+        data: { fired: true, rearmBandPct: null }
       });
       if (updated) {
         await this.sendMessage(ctx.chat!.id.toString(), `✅ Trigger ${pct > 0 ? '+' : ''}${pct}% for hotId ${hotId} marked as fired.`, 'MarkdownV2');
@@ -154,13 +292,61 @@ export class TelegramService implements MessageSender {
   }
 
   private async handleHotListCommand(ctx: Context<Update>): Promise<void> {
-    await this.handleHotList(ctx.message as Message);
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/(?:hot_list|list)\s*(.*)/);
+    await this.handleHotList(ctx.message as Message, match);
+  }
+
+  private async handleHotFailsafeCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/hot_failsafe\s*(.*)/);
+    await this.handleHotFailsafe(ctx.message as Message, match);
+  }
+
+  private async handleQuietHoursCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/quiet_hours\s*(.*)/);
+    await this.handleQuietHours(ctx.message as Message, match);
   }
 
   private async handleAlertsCommand(ctx: Context<Update>): Promise<void> {
     await this.handleAlerts(ctx.message as Message);
   }
 
+  private async handleWatchlistCommand(ctx: Context<Update>): Promise<void> {
+    await this.handleWatchlist(ctx.message as Message);
+  }
+
+  private async handleCoinCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/coin\S*\s*(.*)/);
+    await this.handleCoin(ctx.message as Message, match);
+  }
+
+  private async handleChartCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/chart\S*\s*(.*)/);
+    await this.handleChart(ctx.message as Message, match);
+  }
+
+  private async handleAliasAddCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/alias_add\S*\s*(.*)/);
+    await this.handleAliasAdd(ctx.message as Message, match);
+  }
+
+  private async handleAliasRemoveCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/alias_rm\S*\s*(.*)/);
+    await this.handleAliasRemove(ctx.message as Message, match);
+  }
+
+  private async handleAliasListCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/alias_list\S*\s*(.*)/);
+    await this.handleAliasList(ctx.message as Message, match);
+  }
+
   private async handleStatusCommand(ctx: Context<Update>): Promise<void> {
     await this.handleStatus(ctx.message as Message);
   }
@@ -169,7 +355,7 @@ export class TelegramService implements MessageSender {
     const chatId = this.groupChatId || ctx.chat!.id.toString();
     try {
       await this.sendMessage(chatId, '⏳ Generating 24h mint report...');
-      await runMintReport(this.dexScreener, this, process.env.TIMEZONE || 'UTC');
+      await runMintReport(this.dexScreener, this, process.env.TIMEZONE || 'UTC', true);
     } catch (error) {
       await this.sendMessage(chatId, `❌ Failed to generate mint report: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
@@ -179,11 +365,42 @@ export class TelegramService implements MessageSender {
     await this.handleListContracts(ctx.message as Message);
   }
 
-  private async sendPaginatedMessage(chatId: string, text: string, parseMode?: 'MarkdownV2' | 'HTML') {
+  private async handleChatsCommand(ctx: Context<Update>): Promise<void> {
+    await this.handleChats(ctx.message as Message);
+  }
+
+  private async handleGrantCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/grant\S*\s*(.*)/);
+    await this.handleGrant(ctx.message as Message, match);
+  }
+
+  private async handleRevokeCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/revoke\S*\s*(.*)/);
+    await this.handleRevoke(ctx.message as Message, match);
+  }
+
+  private async handleRolesCommand(ctx: Context<Update>): Promise<void> {
+    await this.handleRoles(ctx.message as Message);
+  }
+
+  private async handleSnoozeCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/snooze\S*\s*(.*)/);
+    await this.handleSnooze(ctx.message as Message, match);
+  }
+
+  private async handleUnsnoozeCommand(ctx: Context<Update>): Promise<void> {
+    const text = (ctx.message as any)?.text || '';
+    const match = text.match(/^\/unsnooze\S*\s*(.*)/);
+    await this.handleUnsnooze(ctx.message as Message, match);
+  }
+
+  private async sendPaginatedMessage(chatId: string, text: string, parseMode?: 'MarkdownV2' | 'HTML'): Promise<boolean> {
     const MAX_LENGTH = 4096;
     if (text.length <= MAX_LENGTH) {
-      await this.sendMessage(chatId, text, parseMode, undefined, true);
-      return;
+      return this.sendMessage(chatId, text, parseMode, undefined, true);
     }
 
     const messages = [];
@@ -199,10 +416,11 @@ export class TelegramService implements MessageSender {
     }
     messages.push(currentMessage);
 
+    let allSent = true;
     for (const msg of messages) {
-      await this.sendMessage(chatId, msg, parseMode, undefined, true);
-      await new Promise(resolve => setTimeout(resolve, 300)); // Avoid rate limiting
+      allSent = await this.sendMessage(chatId, msg, parseMode, undefined, true) && allSent;
     }
+    return allSent;
   }
 
   private async handleStart(msg: Message): Promise<void> {
@@ -220,7 +438,8 @@ Track cryptocurrency movements with intelligent alerts:
 🔥 *Hot List* - Quick one-time alerts
 • Percentage change targets
 • Market cap milestones
-• 60% drawdown failsafe
+• Trailing stops from the peak price
+• Configurable drawdown failsafe (warn + critical steps)
 
 💡 Use \`/help\` for quick command reference\n\n*Note:* \`/alerts\` shows current long list monitoring status
 `;
@@ -233,17 +452,39 @@ Track cryptocurrency movements with intelligent alerts:
 🤖 *Follow Coin Bot - Quick Reference*
 
 📊 *Long List Commands*
-• \`/long_add CONTRACT_ADDRESS\` - Add to persistent monitoring
-• \`/long_rm CONTRACT_ADDRESS\` - Remove from long list
-• \`/long_set CONTRACT_ADDRESS [param=value]...\` - Configure triggers
-• \`/long_trigger [retrace|stall|breakout|mcap] on|off\` - Toggle triggers globally
-• \`/report_now\` - Generate status report
+• \`/long_add SYMBOL|CONTRACT_ADDRESS\` - Add to persistent monitoring
+• \`/long_rm SYMBOL|CONTRACT_ADDRESS\` - Remove from long list
+• \`/long_set SYMBOL|CONTRACT_ADDRESS [param=value]...\` - Configure triggers
+• \`/long_trigger [retrace|stall|breakout|mcap] on|off [global]\` - Toggle triggers for this chat (\`global\`: owner, every chat)
+• \`/long_rule SYMBOL|CONTRACT_ADDRESS add|list|rm\` - Composite rules, e.g. \`retrace(72) > 20% AND liquidity > $200k\`
+• \`/report_now\` - Generate status report (admin chat: \`/report_now all\`)
 
 🔥 *Hot List Commands*
-• \`/hot_add CONTRACT_ADDRESS ±% mcap=VALUE\` - Quick alerts
-• \`/hot_rm CONTRACT_ADDRESS\` - Remove from hot list
-• \`/hot_list\` - Show all entries
+• \`/hot_add SYMBOL|CONTRACT_ADDRESS ±% mcap=VALUE\` - Quick alerts
+• \`/hot_rm SYMBOL|CONTRACT_ADDRESS\` - Remove from hot list
+• \`/hot_list\` - Show this chat's entries (admin chat: \`/hot_list all\`)
+• \`/hot_failsafe [30,60|off]\` - Show or set default failsafe steps
 • \`/alerts\` - Current long list monitoring status
+• \`/coin SYMBOL|CONTRACT_ADDRESS [alerts]\` - Everything known about one coin: live data, rolling window, triggers, recent alerts
+• \`/chart SYMBOL|CONTRACT_ADDRESS\` - 72h price chart with the high and retrace lines
+• \`/watchlist\` - Browse the long list page by page, sorted and filtered, with a card per coin
+
+🏷️ *Aliases*
+• \`/alias_add ALIAS SYMBOL|CONTRACT_ADDRESS\` - Name a coin, e.g. \`/alias_add DOGWIF WIF\`
+• \`/alias_rm ALIAS\` - Remove an alias
+• \`/alias_list [SYMBOL|CONTRACT_ADDRESS]\` - Show aliases, optionally for one coin
+
+😴 *Snoozes*
+• \`/snooze SYMBOL|TRIGGER|all 6h\` - Hold back alerts for a while, e.g. \`/snooze BONK 6h\`, \`/snooze all 1h\`
+• \`/snooze\` - List this chat's snoozes
+• \`/unsnooze SYMBOL|TRIGGER|all\` - End early and show what was suppressed
+• \`/quiet_hours [23:00-07:00|off]\` - Show or set quiet hours (owner); alerts arrive as one digest afterwards
+
+🔑 *Access (owner)*
+• \`/chats\` - Chats using the bot and their list sizes
+• \`/grant USER_ID|@username owner|editor|viewer\` - Give a user a role
+• \`/revoke USER_ID|@username\` - Remove a user's role
+• \`/roles\` - Users with roles and which commands each role can run
 
 ⚙️ *Long List Trigger Configuration*
 
@@ -273,10 +514,10 @@ Track cryptocurrency movements with intelligent alerts:
 • \`/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU mcap=500K\`
 
 💡 *Key Points*
-• Use contract addresses, not symbols
+• Coins can be given by contract address, symbol or alias; an ambiguous symbol asks which coin you mean
 • Long list: persistent monitoring with smart triggers
 • Hot list: one-time alerts for specific targets
-• All commands support Solana addresses
+• Each chat has its own long and hot list; alerts go only to the chats following a coin
 • Triggers have 2-hour cooldown to prevent spam
 `;
 
@@ -285,28 +526,21 @@ Track cryptocurrency movements with intelligent alerts:
 
   private async handleLongAdd(msg: Message, match: RegExpMatchArray | null): Promise<void> {
     const args = match?.[1]?.trim().split(/\s+/) || [];
-    const contractAddress = args[0];
+    const query = args[0];
 
-    if (!contractAddress) {
+    if (!query) {
       await this.sendMessage(
         msg.chat.id.toString(), 
-        '❌ *Usage:* `/long_add CONTRACT_ADDRESS`\n\n' +
+        '❌ *Usage:* `/long_add SYMBOL|CONTRACT_ADDRESS`\n\n' +
         '*Example:* `/long_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU`\n\n' +
-        '*Note:* Use contract/mint addresses, not symbols',
+        '*Note:* Symbols and aliases only work for coins the bot already knows; new coins need the contract address',
         'MarkdownV2'
       );
       return;
     }
 
-    // Validate contract address format (basic check for Solana addresses)
-    if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(contractAddress)) {
-      await this.sendMessage(
-        msg.chat.id.toString(), 
-        '❌ *Invalid contract address format*\n\n' +
-        'Please provide a valid Solana mint/contract address.\n' +
-        'Example: `7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU`',
-        'MarkdownV2'
-      );
+    const contractAddress = await this.resolveContractArg(msg, query, address => this.handleLongAdd(msg, this.withContractArg(match, query, address)));
+    if (!contractAddress) {
       return;
     }
 
@@ -327,8 +561,8 @@ Track cryptocurrency movements with intelligent alerts:
         return;
       }
 
-      // Add to long list
-      await this.longList.addCoin(contractAddress);
+      // Add to this chat's long list
+      await this.longList.addCoin(contractAddress, 'solana', msg.chat.id.toString());
 
       // Show confirmation with token details
       let message = `✅ *Added to Long List*\n\n`;
@@ -397,31 +631,35 @@ Track cryptocurrency movements with intelligent alerts:
 
   private async handleLongRemove(msg: Message, match: RegExpMatchArray | null): Promise<void> {
     const args = match?.[1]?.trim().split(/\s+/) || [];
-    const contractAddress = args[0];
+    const query = args[0];
 
-    if (!contractAddress) {
+    if (!query) {
       await this.sendMessage(
         msg.chat.id.toString(), 
-        '❌ *Usage:* `/long_rm CONTRACT_ADDRESS`\n\n' +
-        '*Example:* `/long_rm 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU`\n\n' +
-        '*Note:* Use contract/mint addresses, not symbols',
+        '❌ *Usage:* `/long_rm SYMBOL|CONTRACT_ADDRESS`\n\n' +
+        '*Example:* `/long_rm 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU`',
         'MarkdownV2'
       );
       return;
     }
 
+    const contractAddress = await this.resolveContractArg(msg, query, address => this.handleLongRemove(msg, this.withContractArg(match, query, address)));
+    if (!contractAddress) {
+      return;
+    }
+
     try {
-      const removed = await this.longList.removeCoin(contractAddress);
+      const removed = await this.longList.removeCoin(contractAddress, msg.chat.id.toString());
       if (removed) {
         await this.sendMessage(
           msg.chat.id.toString(), 
-          `✅ *Removed from Long List*\n\nContract: \`${contractAddress}\`\n\nAll alerts for this token have been disabled.`,
+          `✅ *Removed from Long List*\n\nContract: \`${contractAddress}\`\n\nThis chat no longer gets alerts for this token.`,
           'MarkdownV2'
         );
       } else {
         await this.sendMessage(
           msg.chat.id.toString(), 
-          `❌ *Token not found*\n\nContract \`${contractAddress}\` is not in the long list.\n\nUse \`/long_add ${contractAddress}\` to add it first.`,
+          `❌ *Token not found*\n\nContract \`${contractAddress}\` is not in this chat's long list.\n\nUse \`/long_add ${contractAddress}\` to add it first.`,
           'MarkdownV2'
         );
       }
@@ -438,24 +676,56 @@ Track cryptocurrency movements with intelligent alerts:
     const args = match?.[1]?.trim().split(/\s+/) || [];
     const trigger = args[0];
     const state = args[1];
+    const global = args[2] === 'global';
+    const chatId = msg.chat.id.toString();
+
+    // Ladder defaults and global switches affect every chat, so they stay with owners
+    if ((trigger === 'retrace' && state === 'ladder') || global) {
+      if (!await this.hasRole(msg.from?.id.toString(), 'owner')) {
+        await this.sendMessage(chatId, '⛔ Global trigger settings need the owner role. Without `global`, /long_trigger changes this chat only.');
+        return;
+      }
+    }
+
+    if (trigger === 'retrace' && state === 'ladder') {
+      await this.handleRetraceLadder(msg, args[2]);
+      return;
+    }
 
     if (!trigger || !state || !['retrace', 'stall', 'breakout', 'mcap'].includes(trigger) || !['on', 'off'].includes(state)) {
       await this.sendMessage(
-        msg.chat.id.toString(), 
-        '❌ *Usage:* `/long_trigger [retrace|stall|breakout|mcap] [on|off]`\n\n' +
+        chatId,
+        '❌ *Usage:* `/long_trigger [retrace|stall|breakout|mcap] [on|off] [global]`\n\n' +
         '*Examples:*\n' +
-        '• `/long_trigger retrace on` - Enable retrace triggers globally\n' +
-        '• `/long_trigger stall off` - Disable stall triggers globally\n' +
-        '• `/long_trigger breakout on` - Enable breakout triggers globally\n' +
-        '• `/long_trigger mcap off` - Disable market cap triggers globally\n\n' +
-        '*Note:* This affects ALL coins in the long list. Use `/long_set` for per-coin settings.',
+        '• `/long_trigger retrace on` - Enable retrace triggers for this chat\n' +
+        '• `/long_trigger stall off` - Disable stall triggers for this chat\n' +
+        '• `/long_trigger mcap off global` - Disable market cap triggers for every chat (owner)\n' +
+        '• `/long_trigger retrace ladder 15,25,40` - Default retrace ladder, `off` to clear (owner)\n\n' +
+        '*Note:* Without `global` this affects every coin this chat follows. Use `/long_set` for per-coin settings.',
         'MarkdownV2'
       );
       return;
     }
 
     const enabled = state === 'on';
-    
+
+    if (!global) {
+      try {
+        const updated = await this.longList.setTriggerEnabledForChat(chatId, trigger, enabled);
+        await this.sendMessage(
+          chatId,
+          `✅ ${trigger} triggers ${enabled ? 'enabled' : 'disabled'} for ${updated} coin${updated === 1 ? '' : 's'} in this chat.\n` +
+          `Other chats following the same coins keep their settings.`
+        );
+      } catch (error) {
+        await this.sendMessage(
+          chatId,
+          `❌ Failed to update ${trigger} triggers: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+      return;
+    }
+
     try {
       // Map trigger names to database fields
       const triggerMap = {
@@ -473,10 +743,7 @@ Track cryptocurrency movements with intelligent alerts:
         `✅ *Global ${trigger} triggers ${enabled ? 'enabled' : 'disabled'}*\n\n` +
         `This change affects ALL coins in the long list.\n\n` +
         `*What ${trigger} triggers do:*\n` +
-        `${trigger === 'retrace' ? '• Alert when prices drop from 72h highs' : ''}` +
-        `${trigger === 'stall' ? '• Alert when volume declines + price consolidates' : ''}` +
-        `${trigger === 'breakout' ? '• Alert when price breaks out with volume surge' : ''}` +
-        `${trigger === 'mcap' ? '• Alert when market cap reaches milestone levels' : ''}\n\n` +
+        `• ${globalTriggerRegistry.get(trigger)?.label || trigger}\n\n` +
         `💡 Use \`/long_set CONTRACT_ADDRESS\` for per-coin trigger settings.`,
         'MarkdownV2'
       );
@@ -488,15 +755,53 @@ Track cryptocurrency movements with intelligent alerts:
     }
   }
 
+  private async handleRetraceLadder(msg: Message, rawLevels: string | undefined): Promise<void> {
+    if (!rawLevels) {
+      const config = await this.db.getScheduleConfig();
+      const current = config.retraceLadder.length > 0
+        ? config.retraceLadder.map(level => `${level}%`).join(', ')
+        : 'off (single threshold)';
+      await this.sendMessage(
+        msg.chat.id.toString(),
+        `📶 *Global retrace ladder:* ${current}\n\n` +
+        `Set with \`/long_trigger retrace ladder 15,25,40\`, clear with \`/long_trigger retrace ladder off\`.\n` +
+        `Per coin: \`/long_set CONTRACT_ADDRESS retrace_ladder=10,20\`.`,
+        'MarkdownV2'
+      );
+      return;
+    }
+
+    try {
+      const levels = rawLevels.toLowerCase() === 'off'
+        ? []
+        : globalTriggerRegistry.parseParam('retrace', 'levels', rawLevels) as number[];
+      await this.db.updateRetraceLadder(levels);
+
+      await this.sendMessage(
+        msg.chat.id.toString(),
+        levels.length > 0
+          ? `✅ *Global retrace ladder set:* ${levels.map(level => `${level}%`).join(', ')}\n\n` +
+            `Each rung fires once per 72h high on coins without their own ladder.`
+          : `✅ *Global retrace ladder cleared*\n\nCoins without their own ladder use the single retrace threshold.`,
+        'MarkdownV2'
+      );
+    } catch (error) {
+      await this.sendMessage(
+        msg.chat.id.toString(),
+        `❌ Failed to update retrace ladder: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
   private async handleLongSet(msg: Message, match: RegExpMatchArray | null): Promise<void> {
     const args = match?.[1]?.trim().split(/\s+/) || [];
-    const contractAddress = args[0];
+    const query = args[0];
     const settings = args.slice(1);
 
-    if (!contractAddress || settings.length === 0) {
+    if (!query || settings.length === 0) {
       await this.sendMessage(
         msg.chat.id.toString(), 
-        '❌ *Usage:* `/long_set CONTRACT_ADDRESS [param=value]...`\n\n' +
+        '❌ *Usage:* `/long_set SYMBOL|CONTRACT_ADDRESS [param=value]...`\n\n' +
         '*Examples:*\n' +
         '• `/long_set 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU retrace=20`\n' +
         '• `/long_set 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU breakout=15 stall_vol=25`\n' +
@@ -507,7 +812,13 @@ Track cryptocurrency movements with intelligent alerts:
         '• `breakout_vol=1.5` - Require 1.5x volume increase for breakout (default: 1.5x)\n' +
         '• `stall_vol=30` - Alert when 24h volume drops 30% from 12h average (default: 30%)\n' +
         '• `stall_band=5` - Price must stay within 5% band over 12h for stall (default: 5%)\n' +
-        '• `mcap=100K,500K` - Alert at specific market cap levels (comma-separated)\n\n' +
+        '• `mcap=100K,500K` - Alert when market cap rises through these levels (comma-separated)\n' +
+        '• `mcap_down=500K` - Alert when market cap falls through these levels (list a level in both for either way)\n' +
+        '• `retrace_ladder=15,25,40` - Retrace rungs, each fires once per 72h high (`none` = single threshold)\n' +
+        '• `stall=off` - Turn a trigger off for this coin only\n' +
+        '• `kind.param=value` - Set any registered trigger parameter\n' +
+        '• `retrace.cooldown=4h` - Minimum time between alerts of one trigger (`cooldown=` for all)\n' +
+        '• `retrace.rearm=10` - Only re-fire after price moves 10% past the last alert (`0` = off, `default` = global)\n\n' +
         '*What Each Trigger Does:*\n' +
         '• **Retrace**: Detects significant price pullbacks from recent highs\n' +
         '• **Breakout**: Identifies momentum moves with volume confirmation\n' +
@@ -518,31 +829,70 @@ Track cryptocurrency movements with intelligent alerts:
       return;
     }
 
-    try {
-      const updateData: any = {};
-      
-      for (const setting of settings) {
-        const [key, value] = setting.split('=');
-        if (!key || !value) continue;
-
-        switch (key) {
-          case 'retrace':
-            updateData.retracePct = parseFloat(value);
-            break;
-          case 'breakout':
-            updateData.breakoutPct = parseFloat(value);
-            break;
-          case 'stall_vol':
-            updateData.stallVolPct = parseFloat(value);
-            break;
-          case 'mcap':
-            updateData.mcapLevels = value.split(',').map(v => parseFloat(v)).filter(v => !isNaN(v));
-            break;
+    const contractAddress = await this.resolveContractArg(msg, query, address => this.handleLongSet(msg, this.withContractArg(match, query, address)));
+    if (!contractAddress) {
+      return;
+    }
+
+    const updateData: TriggerSettingsUpdate = {};
+    const errors: string[] = [];
+
+    for (const setting of settings) {
+      const [key, value] = setting.split('=');
+      if (!key || !value) continue;
+
+      try {
+        const [scope, option] = key.includes('.') ? key.split('.', 2) as [string, string] : [undefined, key];
+        if (option === 'cooldown' || option === 'rearm') {
+          if (scope && !globalTriggerRegistry.has(scope)) {
+            errors.push(`Unknown trigger: ${scope}`);
+            continue;
+          }
+
+          const kinds = scope ? [scope] : globalTriggerRegistry.kinds();
+          const target = option === 'cooldown'
+            ? (updateData.cooldownHours || (updateData.cooldownHours = {}))
+            : (updateData.rearmPct || (updateData.rearmPct = {}));
+          const parsed = option === 'cooldown' ? parseCooldownHours(value) : parseRearmPct(value);
+          kinds.forEach(kind => { target[kind] = parsed; });
+          continue;
+        }
+
+        if (globalTriggerRegistry.has(key) && ['on', 'off'].includes(value.toLowerCase())) {
+          updateData.enabled = { ...updateData.enabled, [key]: value.toLowerCase() === 'on' };
+          continue;
+        }
+
+        const param = globalTriggerRegistry.resolveParam(key);
+        if (!param) {
+          errors.push(`Unknown parameter: ${key}`);
+          continue;
         }
+
+        const params = updateData.params || (updateData.params = {});
+        params[param.kind] = {
+          ...params[param.kind],
+          [param.field]: globalTriggerRegistry.parseParam(param.kind, param.field, value)
+        };
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `Invalid value for ${key}`);
       }
+    }
+
+    if (errors.length > 0 || Object.keys(updateData).length === 0) {
+      await this.sendMessage(
+        msg.chat.id.toString(),
+        `❌ *Invalid settings*\n\n${errors.map(e => `• ${e}`).join('\n') || 'No valid param=value pairs given'}`,
+        'MarkdownV2'
+      );
+      return;
+    }
+
+    try {
+      // Only this chat's settings change; other chats following the coin keep theirs
+      const updated = await this.longList.updateTriggerSettings(msg.chat.id.toString(), contractAddress, updateData);
+
 
-      const updated = await this.longList.updateTriggerSettings(contractAddress, updateData);
-      
       if (updated) {
         await this.sendMessage(
           msg.chat.id.toString(), 
@@ -553,7 +903,7 @@ Track cryptocurrency movements with intelligent alerts:
       } else {
         await this.sendMessage(
           msg.chat.id.toString(), 
-          `❌ *Token not found*\n\nContract \`${contractAddress}\` is not in the long list.\n\nUse \`/long_add ${contractAddress}\` to add it first.`,
+          `❌ *Token not found*\n\nContract \`${contractAddress}\` is not in this chat's long list.\n\nUse \`/long_add ${contractAddress}\` to add it first.`,
           'MarkdownV2'
         );
       }
@@ -566,9 +916,100 @@ Track cryptocurrency movements with intelligent alerts:
     }
   }
 
-  private async handleReportNow(msg: Message): Promise<void> {
+  private async handleLongRule(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const input = match?.[1]?.trim() || '';
+    const [query, action = 'list', ...rest] = input.split(/\s+/).filter(Boolean);
+    const chatId = msg.chat.id.toString();
+
+    if (!query || !['add', 'list', 'rm'].includes(action)) {
+      await this.sendMessage(
+        chatId,
+        '❌ *Usage:* `/long_rule SYMBOL|CONTRACT_ADDRESS add|list|rm ...`\n\n' +
+        '*Examples:*\n' +
+        '• `/long_rule CA add retrace(72) > 20% AND txns.h1.buys / txns.h1.sells > 1.5 AND liquidity > $200k`\n' +
+        '• `/long_rule CA list`\n' +
+        '• `/long_rule CA rm 3`\n\n' +
+        `*Fields:* ${listRuleFields().join(', ')}\n` +
+        `*Functions:* ${listRuleFunctions().map(f => `${f}()`).join(', ')} (window functions take hours, max 72)\n` +
+        '*Operators:* AND OR NOT > >= < <= == != + - * /',
+        'MarkdownV2'
+      );
+      return;
+    }
+
+    const contractAddress = await this.resolveContractArg(msg, query, address => this.handleLongRule(msg, this.withContractArg(match, query, address)));
+    if (!contractAddress) {
+      return;
+    }
+
+    try {
+      // Rules belong to the chat that added them
+      if (!(await this.db.isSubscribedToCoin(chatId, contractAddress))) {
+        await this.sendMessage(
+          chatId,
+          `❌ *Token not found*\n\nContract \`${contractAddress}\` is not in this chat's long list.\n\nUse \`/long_add ${contractAddress}\` to add it first.`,
+          'MarkdownV2'
+        );
+        return;
+      }
+
+      if (action === 'add') {
+        const expression = input.replace(/^\S+\s+add\s*/, '');
+        const rule = await this.longList.addRule(chatId, contractAddress, expression);
+        if (!rule) {
+          await this.sendMessage(
+            chatId,
+            `❌ *Token not found*\n\nContract \`${contractAddress}\` is not in this chat's long list.\n\nUse \`/long_add ${contractAddress}\` to add it first.`,
+            'MarkdownV2'
+          );
+          return;
+        }
+        await this.sendMessage(
+          chatId,
+          `✅ *Rule #${rule.ruleId} added*\n\n\`${rule.expression}\`\n\nIt is evaluated at every long list checkpoint.`,
+          'MarkdownV2'
+        );
+        return;
+      }
+
+      if (action === 'rm') {
+        const ruleId = parseInt(rest[0] || '', 10);
+        if (isNaN(ruleId)) {
+          await this.sendMessage(chatId, '❌ *Usage:* `/long_rule CONTRACT_ADDRESS rm RULE_ID`', 'MarkdownV2');
+          return;
+        }
+        const removed = await this.longList.removeRule(chatId, contractAddress, ruleId);
+        await this.sendMessage(
+          chatId,
+          removed ? `✅ Rule #${ruleId} removed` : `❌ Rule #${ruleId} not found for this contract`,
+          'MarkdownV2'
+        );
+        return;
+      }
+
+      const rules = await this.longList.listRules(chatId, contractAddress);
+      if (rules.length === 0) {
+        await this.sendMessage(chatId, `No rules for \`${contractAddress}\``, 'MarkdownV2');
+        return;
+      }
+
+      let message = `📐 *Rules for* \`${contractAddress}\`\n\n`;
+      for (const rule of rules) {
+        const lastFire = rule.lastFireUtc ? new Date(rule.lastFireUtc * 1000).toISOString().slice(0, 16).replace('T', ' ') : 'never';
+        message += `#${rule.ruleId}${rule.enabled ? '' : ' (off)'}: \`${rule.expression}\`\n   Last fired: ${lastFire}\n`;
+      }
+      await this.sendMessage(chatId, message, 'MarkdownV2');
+    } catch (error) {
+      const reason = error instanceof RuleSyntaxError ? `Invalid rule: ${error.message}` : (error instanceof Error ? error.message : 'Unknown error');
+      await this.sendMessage(chatId, `❌ *Failed to update rules:* ${reason}`, 'MarkdownV2');
+    }
+  }
+
+  private async handleReportNow(msg: Message, match: RegExpMatchArray | null): Promise<void> {
     try {
-      const reportData = await this.longList.generateAnchorReport();
+      const chatId = msg.chat.id.toString();
+      const showAll = match?.[1]?.trim().toLowerCase() === 'all' && this.isAdminChat(chatId);
+      const reportData = await this.longList.generateAnchorReport(showAll ? undefined : chatId);
       
       if (reportData.length === 0) {
         await this.sendMessage(msg.chat.id.toString(), 'No coins in long list');
@@ -610,6 +1051,10 @@ Track cryptocurrency movements with intelligent alerts:
         const solDiffStr = solDiff >= 0 ? `+${solDiff.toFixed(1)}` : solDiff.toFixed(1);
 
         report += `\`${coin.symbol.padEnd(8)} ${priceWithDelta.padEnd(16)} │${retrace.padStart(6)}%│${volume.padStart(5)} │${solDiffStr.padStart(5)}%\`\n`;
+
+        if (coin.retraceLadder) {
+          report += `\`${''.padEnd(8)} ladder ${Formatters.formatRetraceLadder(coin.retraceLadder)}\`\n`;
+        }
       }
 
       await this.sendMessage(msg.chat.id.toString(), report, 'MarkdownV2');
@@ -623,7 +1068,7 @@ Track cryptocurrency movements with intelligent alerts:
 
   private async handleListContracts(msg: Message): Promise<void> {
     try {
-      const reportData = await this.longList.generateAnchorReport();
+      const reportData = await this.longList.generateAnchorReport(msg.chat.id.toString());
 
       if (reportData.length === 0) {
         await this.sendMessage(
@@ -649,78 +1094,402 @@ Track cryptocurrency movements with intelligent alerts:
     }
   }
 
-  private formatPrice(price: number): string {
-    return price < 1 ? price.toFixed(6) : price.toFixed(4);
-  }
+  private async handleChats(msg: Message): Promise<void> {
+    const chatId = msg.chat.id.toString();
 
-  private async handleHotAdd(msg: Message, match: RegExpMatchArray | null): Promise<void> {
-    const args = match?.[1]?.trim().split(/\s+/) || [];
-    const contractAddress = args[0];
-    const params = args.slice(1);
+    try {
+      const chats = await this.db.getChats();
+      if (chats.length === 0) {
+        await this.sendMessage(chatId, 'No chats have used the bot yet');
+        return;
+      }
 
-    if (!contractAddress) {
+      let message = `👥 *Chats*\n\n`;
+      for (const chat of chats) {
+        message += `*${chat.title || chat.type}* \`${chat.chatId}\`\n`;
+        message += `   📈 ${chat.longCount} long | 🔥 ${chat.hotCount} hot\n`;
+      }
+      message += `\nUse \`/hot_list all\` and \`/report_now all\` to see every chat's entries.`;
+
+      await this.sendMessage(chatId, message, 'MarkdownV2');
+    } catch (error) {
       await this.sendMessage(
-        msg.chat.id.toString(), 
-        '❌ *Usage:* `/hot_add CONTRACT_ADDRESS [±%] [mcap=VALUE]`\n\n' +
-        '*Examples:*\n' +
-        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU -15%`\n' +
-        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU +20%`\n' +
-        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU -10% mcap=1M`\n\n' +
-        '*Note:* You must specify at least one trigger (±% or mcap)'
+        chatId,
+        `❌ Failed to list chats: ${error instanceof Error ? error.message : 'Unknown error'}`
       );
-      return;
     }
+  }
 
-    // Validate contract address format (basic check for Solana addresses)
-    if (!/^[1-9A-HJ-NP-Za-km-z]{32,44}$/.test(contractAddress)) {
-      await this.sendMessage(
-        msg.chat.id.toString(), 
-        '❌ *Invalid contract address format*\n\n' +
-        'Please provide a valid Solana mint/contract address.\n' +
-        'Example: `7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU`'
-      );
-      return;
+  private async resolveUserId(target: string): Promise<string | null> {
+    if (/^\d+$/.test(target)) {
+      return target;
     }
+    return target.startsWith('@') ? this.db.findUserIdByUsername(target) : null;
+  }
 
-    // Validate that at least one trigger criteria is provided
-    if (params.length === 0) {
+  private async handleGrant(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const [target, role] = match?.[1]?.trim().split(/\s+/) || [];
+
+    if (!target || !role || !USER_ROLES.includes(role as UserRole)) {
       await this.sendMessage(
-        msg.chat.id.toString(), 
-        '❌ *Error:* You must specify at least one trigger criteria!\n\n' +
-        '*Valid formats:*\n' +
-        '• `-15%` (15% price drop)\n' +
-        '• `+20%` (20% price rise)\n' +
-        '• `mcap=1M` (1 million market cap)\n' +
-        '• `mcap=500K` (500K market cap)\n\n' +
-        '*Example:* `/hot_add ' + contractAddress + ' -15%`',
+        chatId,
+        '❌ *Usage:* `/grant USER_ID|@username owner|editor|viewer`\n\n' +
+        '• viewer - reports, lists and status\n' +
+        '• editor - also add, remove and configure coins\n' +
+        '• owner - also global settings and roles',
         'MarkdownV2'
       );
       return;
     }
 
     try {
-      // Parse trigger parameters
-      const options: { pctTargets?: number[], mcapTargets?: number[] } = {};
-      let hasValidTrigger = false;
-      
-      for (const param of params) {
-        // Check if it's a percentage trigger (e.g., -15%, +20%)
-        if (param.includes('%')) {
-          const percentageMatch = param.match(/^([+-]?\d+(?:\.\d+)?)%$/);
-          if (percentageMatch && percentageMatch[1]) {
-            const pctValue = parseFloat(percentageMatch[1]);
-            if (!isNaN(pctValue)) {
-              if (!options.pctTargets) {
-                options.pctTargets = [];
-              }
-              options.pctTargets.push(pctValue);
-              hasValidTrigger = true;
-              continue;
-            }
-          }
-          
-          // Invalid percentage format
-          await this.sendMessage(
+      const userId = await this.resolveUserId(target);
+      if (!userId) {
+        await this.sendMessage(chatId, `❌ Unknown user ${target}. Use the numeric id if they haven't messaged the bot yet.`);
+        return;
+      }
+
+      await this.db.setUserRole(userId, role as UserRole);
+      await this.sendMessage(chatId, `✅ ${target} is now ${role}`);
+    } catch (error) {
+      await this.sendMessage(chatId, `❌ Failed to grant role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleRevoke(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const target = match?.[1]?.trim().split(/\s+/)[0];
+
+    if (!target) {
+      await this.sendMessage(chatId, '❌ *Usage:* `/revoke USER_ID|@username`', 'MarkdownV2');
+      return;
+    }
+
+    try {
+      const userId = await this.resolveUserId(target);
+      if (!userId) {
+        await this.sendMessage(chatId, `❌ Unknown user ${target}`);
+        return;
+      }
+      if (userId === this.adminUserId) {
+        await this.sendMessage(chatId, '❌ The admin user always stays owner');
+        return;
+      }
+
+      await this.db.setUserRole(userId, null);
+      await this.sendMessage(chatId, `✅ Revoked all roles from ${target}`);
+    } catch (error) {
+      await this.sendMessage(chatId, `❌ Failed to revoke role: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleRoles(msg: Message): Promise<void> {
+    const chatId = msg.chat.id.toString();
+
+    try {
+      const users = await this.db.getUsersWithRoles();
+      let message = `🔑 *Roles*\n\n`;
+      for (const user of users) {
+        message += `• ${user.username ? `@${user.username}` : user.userId} (\`${user.userId}\`): ${user.role}\n`;
+      }
+      if (users.length === 0) {
+        message += 'No roles granted yet\n';
+      }
+
+      message += `\n*Commands by role*\n`;
+      for (const role of USER_ROLES) {
+        const commands = Array.from(this.commandRoles.entries())
+          .filter(([, required]) => required === role)
+          .map(([command]) => `/${command}`);
+        message += `• ${role}: ${commands.join(' ')}\n`;
+      }
+      await this.sendMessage(chatId, message, 'MarkdownV2');
+    } catch (error) {
+      await this.sendMessage(chatId, `❌ Failed to list roles: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleSnooze(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const [target, duration] = match?.[1]?.trim().split(/\s+/).filter(Boolean) || [];
+
+    try {
+      if (!target) {
+        const snoozes = await globalSnoozes.listActive(chatId);
+        if (snoozes.length === 0) {
+          await this.sendMessage(chatId, '🔔 No active snoozes in this chat');
+          return;
+        }
+
+        let message = `😴 *Active snoozes*\n\n`;
+        for (const snooze of snoozes) {
+          const suppressed = Object.values(snooze.suppressed).reduce((sum, count) => sum + count, 0);
+          message += `• ${snooze.label} until ${Formatters.formatTimestamp(snooze.expiresAtUtc)} UTC`;
+          message += suppressed > 0 ? ` (${suppressed} suppressed)\n` : '\n';
+        }
+        await this.sendMessage(chatId, message, 'MarkdownV2');
+        return;
+      }
+
+      const parsed = duration ? parseTtlHours(duration) : { valid: false, error: 'Missing duration' };
+      if (!parsed.valid) {
+        await this.sendMessage(
+          chatId,
+          `❌ ${parsed.error}\n\n` +
+          '*Usage:* `/snooze SYMBOL|CONTRACT|TRIGGER|all DURATION`\n' +
+          '*Examples:* `/snooze BONK 6h`, `/snooze retrace 2h`, `/snooze all 1h`',
+          'MarkdownV2'
+        );
+        return;
+      }
+
+      const resolved = await this.resolveSnoozeTarget(chatId, target);
+      if ('error' in resolved) {
+        await this.sendMessage(chatId, `❌ ${resolved.error}`);
+        return;
+      }
+
+      const snooze = await globalSnoozes.snooze(chatId, resolved.scope, resolved.label, parsed.hours!);
+      await this.sendMessage(
+        chatId,
+        `😴 Snoozed ${resolved.label} alerts until ${Formatters.formatTimestamp(snooze.expiresAtUtc)} UTC\n` +
+        `Suppressed alerts are summarized when it ends, or end it early with /unsnooze ${resolved.label}`
+      );
+    } catch (error) {
+      await this.sendMessage(chatId, `❌ Failed to snooze: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleUnsnooze(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const target = match?.[1]?.trim().split(/\s+/)[0];
+
+    if (!target) {
+      await this.sendMessage(chatId, '❌ *Usage:* `/unsnooze SYMBOL|CONTRACT|TRIGGER|all`', 'MarkdownV2');
+      return;
+    }
+
+    try {
+      // Contracts resolve to the symbol the snooze was stored under
+      const resolved = target.toLowerCase() === 'all' ? null : await this.resolveSnoozeTarget(chatId, target);
+      const label = resolved && !('error' in resolved) ? resolved.label : target;
+
+      const ended = await globalSnoozes.unsnooze(chatId, label);
+      if (ended.length === 0) {
+        await this.sendMessage(chatId, `❌ No active snooze for ${target}. /snooze lists them.`);
+        return;
+      }
+
+      for (const snooze of ended) {
+        await this.sendMessage(chatId, formatSnoozeSummary(snooze));
+      }
+    } catch (error) {
+      await this.sendMessage(chatId, `❌ Failed to end snooze: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * `all`, a trigger kind, or a symbol or contract on this chat's long or hot list.
+   */
+  private async resolveSnoozeTarget(chatId: string, target: string): Promise<{ scope: SnoozeScope; label: string } | { error: string }> {
+    const lowered = target.toLowerCase();
+    if (lowered === 'all') {
+      return { scope: {}, label: 'all' };
+    }
+
+    const kinds = new Set([...globalTriggerRegistry.kinds(), 'rule', 'pct', 'mcap', 'trail', 'failsafe', 'mints']);
+    if (kinds.has(lowered)) {
+      return { scope: { triggerKind: lowered }, label: lowered };
+    }
+
+    const matches = (candidate: { symbol: string; contractAddress: string }) =>
+      candidate.contractAddress === target || candidate.symbol.toLowerCase() === lowered;
+    const longCoins = (await this.db.getLongListCoins(chatId))
+      .map(coin => ({ coinId: coin.coinId, symbol: coin.symbol, contractAddress: coin.tokenAddress }))
+      .filter(matches);
+    const hotEntries = (await this.hotList.listEntries(chatId)).filter(matches);
+
+    // Snoozing by coin covers its hot entries too; entries without a coin are snoozed on their own
+    const coinIds = new Set([
+      ...longCoins.map(coin => coin.coinId),
+      ...hotEntries.flatMap(entry => entry.coinId !== undefined ? [entry.coinId] : [])
+    ]);
+    if (coinIds.size > 1) {
+      const contracts = [...longCoins.map(coin => coin.contractAddress), ...hotEntries.map(entry => entry.contractAddress)];
+      return { error: `${target} matches several coins, use the contract: ${Array.from(new Set(contracts)).join(', ')}` };
+    }
+
+    const [coinId] = Array.from(coinIds);
+    const symbol = longCoins[0]?.symbol ?? hotEntries[0]?.symbol;
+    if (coinId !== undefined) {
+      return { scope: { coinId }, label: symbol! };
+    }
+    if (hotEntries[0]) {
+      return { scope: { hotId: hotEntries[0].hotId }, label: symbol! };
+    }
+
+    return { error: `${target} is not a trigger type or a coin on this chat's lists` };
+  }
+
+  private formatPrice(price: number): string {
+    return price < 1 ? price.toFixed(6) : price.toFixed(4);
+  }
+
+  private async handleHotAdd(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const args = match?.[1]?.trim().split(/\s+/) || [];
+    const query = args[0];
+    const params = args.slice(1);
+
+    if (!query) {
+      await this.sendMessage(
+        msg.chat.id.toString(), 
+        '❌ *Usage:* `/hot_add SYMBOL|CONTRACT_ADDRESS [±%] [mcap=VALUE] [trail:%] [ttl:48h]`\n\n' +
+        '*Examples:*\n' +
+        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU -15%`\n' +
+        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU +20%`\n' +
+        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU -10% mcap=1M`\n' +
+        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU +50% trail:20%`\n' +
+        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU +30% failsafe=25,40`\n' +
+        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU +20%:rearm=5` (fires again after a 5% pullback)\n' +
+        '• `/hot_add 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU +50% ttl:48h` (removed with a summary after 48h)\n\n' +
+        '*Note:* You must specify at least one trigger (±%, mcap or trail)'
+      );
+      return;
+    }
+
+    // Validate that at least one trigger criteria is provided
+    if (params.length === 0) {
+      await this.sendMessage(
+        msg.chat.id.toString(), 
+        '❌ *Error:* You must specify at least one trigger criteria!\n\n' +
+        '*Valid formats:*\n' +
+        '• `-15%` (15% price drop)\n' +
+        '• `+20%` (20% price rise)\n' +
+        '• `mcap=1M` (1 million market cap)\n' +
+        '• `mcap=500K` (500K market cap)\n' +
+        '• `trail:20%` (20% drop from the highest price since added)\n' +
+        '• `+20%:rearm=5` (re-arm after moving 5% back past the target)\n\n' +
+        '*Example:* `/hot_add ' + query + ' -15%`',
+        'MarkdownV2'
+      );
+      return;
+    }
+
+    const contractAddress = await this.resolveContractArg(msg, query, address => this.handleHotAdd(msg, this.withContractArg(match, query, address)));
+    if (!contractAddress) {
+      return;
+    }
+
+    try {
+      // Parse trigger parameters
+      const options: {
+        pctTargets?: number[],
+        mcapTargets?: number[],
+        trailTargets?: number[],
+        failsafeSteps?: number[],
+        rearmBands?: Record<string, number>,
+        ttlHours?: number,
+        chatId?: string
+      } = { chatId: msg.chat.id.toString() };
+      let hasValidTrigger = false;
+      
+      for (const rawParam of params) {
+        // Optional re-arm band on pct/mcap targets (e.g., +20%:rearm=5, mcap=1M:rearm=10)
+        const rearmMatch = rawParam.match(/^(.+):rearm=(\d+(?:\.\d+)?)%?$/);
+        const param = rearmMatch?.[1] ?? rawParam;
+        const rearmBand = rearmMatch?.[2] ? parseFloat(rearmMatch[2]) : undefined;
+        if (rearmBand !== undefined && (rearmBand <= 0 || rearmBand >= 100)) {
+          await this.sendMessage(
+            msg.chat.id.toString(), 
+            `❌ *Invalid re-arm band:* \`${rawParam}\`\n` +
+            'Use a band between 0 and 100, e.g. `+20%:rearm=5`',
+            'MarkdownV2'
+          );
+          return;
+        }
+        if (rearmBand !== undefined && !/^[+-]?\d/.test(param) && !param.startsWith('mcap=')) {
+          await this.sendMessage(
+            msg.chat.id.toString(), 
+            `❌ *Re-arm is only supported on % and mcap targets:* \`${rawParam}\``,
+            'MarkdownV2'
+          );
+          return;
+        }
+
+        // Failsafe override for this entry (e.g., failsafe=40, failsafe=30,60, failsafe=off)
+        if (param.startsWith('failsafe=')) {
+          const parsed = parseFailsafeSteps(param.slice('failsafe='.length));
+          if (!parsed.valid) {
+            await this.sendMessage(
+              msg.chat.id.toString(), 
+              `❌ *Invalid failsafe:* \`${param}\`\n${parsed.error}\n` +
+              'Use format: `failsafe=40`, `failsafe=30,60` or `failsafe=off`',
+              'MarkdownV2'
+            );
+            return;
+          }
+          options.failsafeSteps = parsed.steps!;
+          continue;
+        }
+
+        // Lifetime of the entry (e.g., ttl:48h, ttl=30m, ttl:2d)
+        if (param.startsWith('ttl:') || param.startsWith('ttl=')) {
+          const parsed = parseTtlHours(param.slice('ttl:'.length));
+          if (!parsed.valid) {
+            await this.sendMessage(
+              msg.chat.id.toString(), 
+              `❌ *Invalid TTL:* \`${param}\`\n${parsed.error}`,
+              'MarkdownV2'
+            );
+            return;
+          }
+          options.ttlHours = parsed.hours!;
+          continue;
+        }
+
+        // Trailing stop from the peak price (e.g., trail:20%)
+        if (param.startsWith('trail:') || param.startsWith('trail=')) {
+          const trailMatch = param.match(/^trail[:=](\d+(?:\.\d+)?)%?$/);
+          const trailValue = trailMatch?.[1] ? parseFloat(trailMatch[1]) : NaN;
+          if (isNaN(trailValue) || trailValue <= 0 || trailValue >= 100) {
+            await this.sendMessage(
+              msg.chat.id.toString(), 
+              `❌ *Invalid trailing stop:* \`${param}\`\n` +
+              'Use format: `trail:20%` (between 0 and 100)',
+              'MarkdownV2'
+            );
+            return;
+          }
+
+          if (!options.trailTargets) {
+            options.trailTargets = [];
+          }
+          options.trailTargets.push(trailValue);
+          hasValidTrigger = true;
+          continue;
+        }
+
+        // Check if it's a percentage trigger (e.g., -15%, +20%)
+        if (param.includes('%')) {
+          const percentageMatch = param.match(/^([+-]?\d+(?:\.\d+)?)%$/);
+          if (percentageMatch && percentageMatch[1]) {
+            const pctValue = parseFloat(percentageMatch[1]);
+            if (!isNaN(pctValue)) {
+              if (!options.pctTargets) {
+                options.pctTargets = [];
+              }
+              options.pctTargets.push(pctValue);
+              if (rearmBand !== undefined) {
+                options.rearmBands = { ...options.rearmBands, [`pct:${pctValue}`]: rearmBand };
+              }
+              hasValidTrigger = true;
+              continue;
+            }
+          }
+          
+          // Invalid percentage format
+          await this.sendMessage(
             msg.chat.id.toString(), 
             `❌ *Invalid percentage format:* \`${param}\`\n` +
             'Use format: `-15%` or `+20%`',
@@ -770,13 +1539,16 @@ Track cryptocurrency movements with intelligent alerts:
             options.mcapTargets = [];
           }
           options.mcapTargets.push(mcapValue);
+          if (rearmBand !== undefined) {
+            options.rearmBands = { ...options.rearmBands, [`mcap:${mcapValue}`]: rearmBand };
+          }
           hasValidTrigger = true;
         } else {
           // Unknown parameter
           await this.sendMessage(
             msg.chat.id.toString(), 
             `❌ *Unknown parameter:* \`${param}\`\n` +
-            'Valid parameters: percentage (e.g., `-15%`) or `mcap=VALUE`',
+            'Valid parameters: percentage (e.g., `-15%`), `mcap=VALUE`, `trail:20%`, `failsafe=30,60` or `ttl:48h`',
             'MarkdownV2'
           );
           return;
@@ -789,7 +1561,8 @@ Track cryptocurrency movements with intelligent alerts:
           '❌ *Error:* No valid trigger criteria provided!\n\n' +
           'You must specify at least one of:\n' +
           '• `-15%` (percentage change)\n' +
-          '• `mcap=1M` (market cap target)',
+          '• `mcap=1M` (market cap target)\n' +
+          '• `trail:20%` (trailing stop)',
           'MarkdownV2'
         );
         return;
@@ -815,6 +1588,7 @@ Track cryptocurrency movements with intelligent alerts:
 
       // Get all targets for this token to show complete view
       const allEntries = await this.hotList.listEntries();
+      const { hotFailsafeSteps } = await this.db.getScheduleConfig();
       const currentEntry = allEntries.find(e => e.contractAddress === contractAddress);
 
       // Show confirmation with actual token data
@@ -864,6 +1638,13 @@ Track cryptocurrency movements with intelligent alerts:
         }
       }
 
+      if (options.trailTargets && options.trailTargets.length > 0) {
+        message += `\n📉 **Trailing Stop${options.trailTargets.length > 1 ? 's' : ''}:**\n`;
+        for (const trailTarget of options.trailTargets) {
+          message += `   - ${trailTarget}% below peak\n`;
+        }
+      }
+
       // Show all existing targets for this token
       if (currentEntry && currentEntry.activeTriggers.length > 0) {
         message += `\n📊 **All Targets for this token:**\n`;
@@ -875,15 +1656,18 @@ Track cryptocurrency movements with intelligent alerts:
         for (const trigger of pctTriggers) {
           const status = trigger.fired ? '✅' : '⏳';
           const targetPrice = trigger.anchorPrice * (1 + trigger.value / 100);
-          message += `${status} Target: ${trigger.value > 0 ? '+' : ''}${trigger.value}% ($${this.formatPrice(targetPrice)})\n`;
+          message += `${status} Target: ${trigger.value > 0 ? '+' : ''}${trigger.value}% ($${this.formatPrice(targetPrice)})${this.formatRearm(trigger)}\n`;
         }
         
         for (const trigger of mcapTriggers) {
           const status = trigger.fired ? '✅' : '⏳';
-          message += `${status} MCAP: ${Formatters.formatMarketCap(trigger.value)}\n`;
+          message += `${status} MCAP: ${Formatters.formatMarketCap(trigger.value)}${this.formatRearm(trigger)}\n`;
         }
+
+        message += this.formatTrailTriggers(currentEntry);
         
-        message += `${currentEntry.failsafeFired ? '🚨' : '🛡️'} Failsafe: ${currentEntry.failsafeFired ? 'FIRED' : 'Active'}\n`;
+        message += this.formatFailsafe(currentEntry, hotFailsafeSteps);
+        message += this.formatExpiry(currentEntry);
       }
       
        try {
@@ -912,77 +1696,240 @@ Track cryptocurrency movements with intelligent alerts:
     }
   }
 
-  private async handleHotRemove(msg: Message, match: RegExpMatchArray | null): Promise<void> {
-    const args = match?.[1]?.trim().split(/\s+/) || [];
-    const contractAddress = args[0];
+  private formatRearm(trigger: HotTrigger): string {
+    if (trigger.rearmBandPct === undefined) {
+      return '';
+    }
 
-    if (!contractAddress) {
-      await this.sendMessage(
-        msg.chat.id.toString(), 
-        'Usage: /hot_rm CONTRACT_ADDRESS\n\n' +
-        'Example: `/hot_rm 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU`',
-        'MarkdownV2'
-      );
-      return;
+    let text = ` 🔁 rearm ${trigger.rearmBandPct}%`;
+    if (trigger.fireCount > 0) {
+      text += `, fired ${trigger.fireCount}x`;
+      if (trigger.lastFiredUtc) {
+        text += `, last ${Formatters.formatDuration((Date.now() / 1000 - trigger.lastFiredUtc) * 1000)} ago`;
+      }
+    }
+    return text;
+  }
+
+  private formatFailsafe(entry: HotListEntry, globalSteps: number[]): string {
+    const steps = entry.failsafeSteps ?? globalSteps;
+    if (steps.length === 0) {
+      return '🛡️ Failsafe: Off\n';
+    }
+
+    const anyFired = steps.some(step => entry.failsafeFiredSteps.includes(step));
+    const stepText = steps
+      .map(step => `-${step}% ${entry.failsafeFiredSteps.includes(step) ? 'FIRED' : 'Active'}`)
+      .join(', ');
+    return `${anyFired ? '🚨' : '🛡️'} Failsafe: ${stepText}\n`;
+  }
+
+  private formatExpiry(entry: HotListEntry): string {
+    if (!entry.expiresAtUtc) {
+      return '';
+    }
+
+    const remainingMs = Math.max(0, entry.expiresAtUtc * 1000 - Date.now());
+    return `⌛ Expires in ${Formatters.formatDuration(remainingMs)}\n`;
+  }
+
+  private formatTrailTriggers(entry: HotListEntry): string {
+    const trailTriggers = entry.activeTriggers.filter(t => t.kind === 'trail');
+    if (trailTriggers.length === 0 || !entry.peakPrice) {
+      return '';
+    }
+
+    let text = `⛰️ Peak: $${this.formatPrice(entry.peakPrice)}`;
+    if (entry.lastPrice) {
+      const fromPeak = ((entry.lastPrice - entry.peakPrice) / entry.peakPrice) * 100;
+      text += ` (now ${fromPeak.toFixed(1)}% from peak)`;
+    }
+    text += '\n';
+
+    for (const trigger of trailTriggers) {
+      const status = trigger.fired ? '✅' : '⏳';
+      const stopPrice = entry.peakPrice * (1 - trigger.value / 100);
+      text += `${status} Trail: -${trigger.value}% from peak ($${this.formatPrice(stopPrice)})\n`;
     }
 
+    return text;
+  }
+
+  private async handleHotFailsafe(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const raw = match?.[1]?.trim() || '';
+
     try {
-      const removed = await this.hotList.removeEntry(contractAddress);
-      if (removed) {
+      if (!raw) {
+        const { hotFailsafeSteps } = await this.db.getScheduleConfig();
         await this.sendMessage(
-          msg.chat.id.toString(), 
-          `✅ Removed token with contract \`${contractAddress}\` from hot list`,
+          msg.chat.id.toString(),
+          `🛡️ *Default failsafe:* ${hotFailsafeSteps.length > 0 ? hotFailsafeSteps.map(step => `-${step}%`).join(', ') : 'Off'}\n\n` +
+          'The last step is critical, earlier steps are warnings.\n' +
+          'Set with `/hot_failsafe 30,60`, disable with `/hot_failsafe off`.\n' +
+          'Per entry: `/hot_add CONTRACT_ADDRESS +50% failsafe=25,40`',
           'MarkdownV2'
         );
-      } else {
+        return;
+      }
+
+      const parsed = parseFailsafeSteps(raw);
+      if (!parsed.valid) {
         await this.sendMessage(
-          msg.chat.id.toString(), 
-          `❌ Token with contract \`${contractAddress}\` not found in hot list`,
+          msg.chat.id.toString(),
+          `❌ *Invalid failsafe steps:* ${parsed.error}\n\nUsage: \`/hot_failsafe 30,60\` or \`/hot_failsafe off\``,
           'MarkdownV2'
         );
+        return;
       }
-    } catch (error) {
+
+      await this.db.updateHotFailsafeSteps(parsed.steps!);
       await this.sendMessage(
-        msg.chat.id.toString(), 
-        `❌ Failed to remove token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        msg.chat.id.toString(),
+        parsed.steps!.length > 0
+          ? `✅ *Default failsafe set:* ${parsed.steps!.map(step => `-${step}%`).join(', ')}\n\nApplies to hot entries without their own failsafe.`
+          : `✅ *Default failsafe disabled*\n\nEntries with their own \`failsafe=\` keep it.`,
         'MarkdownV2'
-      );  
+      );
+    } catch (error) {
+      await this.sendMessage(
+        msg.chat.id.toString(),
+        `❌ Failed to update failsafe: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
     }
   }
 
-  private async handleHotList(msg: Message): Promise<void> {
+  private async handleQuietHours(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const raw = match?.[1]?.trim() || '';
+
     try {
-      const entries = await this.hotList.listEntries();
-      
-      if (entries.length === 0) {
+      if (!raw) {
+        const { quietHours } = await this.db.getScheduleConfig();
+        const queued = await this.prisma.outbox.count({ where: { deferred: true, sentOk: false } });
         await this.sendMessage(
-          msg.chat.id.toString(), 
-          '🔥 *Hot list is empty*\\!\n\nUse `/hot_add` to add a token with price or market cap targets\\.', 
+          msg.chat.id.toString(),
+          `🌙 *Quiet hours:* ${quietHours ? `${Formatters.formatQuietHours(quietHours)} (${this.timezone})` : 'Off'}\n` +
+          `Alerts waiting for the digest: ${queued}\n\n` +
+          'Critical alerts such as the final failsafe step are always sent right away.\n' +
+          'Set with `/quiet_hours 23:00-07:00`, disable with `/quiet_hours off`.',
           'MarkdownV2'
         );
         return;
       }
 
-      let message = `🔥 Hot List Entries\n\n`;
-      
-      for (const entry of entries) {
-        message += `*${entry.name} (${entry.symbol})*\n`;
-        message += `\`${entry.contractAddress}\`\n`;
-        
-        for (const trigger of entry.activeTriggers) {
-          const status = trigger.fired ? '✅' : '⏳';
-          if (trigger.kind === 'pct') {
-            const targetPrice = trigger.anchorPrice * (1 + trigger.value / 100);
-            message += `${status} Target: ${trigger.value > 0 ? '+' : ''}${trigger.value}% ($${this.formatPrice(targetPrice)})\n`;
-          } else if (trigger.kind === 'mcap') {
-            message += `${status} MCAP: ${Formatters.formatMarketCap(trigger.value)}\n`;
-          }
-        }
-        
-        message += `${entry.failsafeFired ? '🚨' : '🛡️'} Failsafe: ${entry.failsafeFired ? 'FIRED' : 'Active'}\n\n`;
-      }
-
-      await this.sendPaginatedMessage(msg.chat.id.toString(), message, 'MarkdownV2');
+      const parsed = parseQuietHours(raw);
+      if (!parsed.valid) {
+        await this.sendMessage(
+          msg.chat.id.toString(),
+          `❌ *Invalid quiet hours:* ${parsed.error}\n\nUsage: \`/quiet_hours 23:00-07:00\` or \`/quiet_hours off\``,
+          'MarkdownV2'
+        );
+        return;
+      }
+
+      await this.db.updateQuietHours(parsed.window!);
+      await this.sendMessage(
+        msg.chat.id.toString(),
+        parsed.window
+          ? `✅ *Quiet hours set:* ${Formatters.formatQuietHours(parsed.window)} (${this.timezone})\n\nAlerts in this window are sent as one digest when it ends.`
+          : `✅ *Quiet hours disabled*\n\nAlerts already queued go out in the next digest.`,
+        'MarkdownV2'
+      );
+    } catch (error) {
+      await this.sendMessage(
+        msg.chat.id.toString(),
+        `❌ Failed to update quiet hours: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async handleHotRemove(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const args = match?.[1]?.trim().split(/\s+/) || [];
+    const query = args[0];
+
+    if (!query) {
+      await this.sendMessage(
+        msg.chat.id.toString(), 
+        'Usage: /hot_rm SYMBOL|CONTRACT_ADDRESS\n\n' +
+        'Example: `/hot_rm 7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU`',
+        'MarkdownV2'
+      );
+      return;
+    }
+
+    const contractAddress = await this.resolveContractArg(msg, query, address => this.handleHotRemove(msg, this.withContractArg(match, query, address)));
+    if (!contractAddress) {
+      return;
+    }
+
+    try {
+      const removed = await this.hotList.removeEntry(contractAddress, msg.chat.id.toString());
+      if (removed) {
+        await this.sendMessage(
+          msg.chat.id.toString(), 
+          `✅ Removed token with contract \`${contractAddress}\` from hot list`,
+          'MarkdownV2'
+        );
+      } else {
+        await this.sendMessage(
+          msg.chat.id.toString(), 
+          `❌ Token with contract \`${contractAddress}\` not found in this chat's hot list`,
+          'MarkdownV2'
+        );
+      }
+    } catch (error) {
+      await this.sendMessage(
+        msg.chat.id.toString(), 
+        `❌ Failed to remove token: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        'MarkdownV2'
+      );  
+    }
+  }
+
+  private async handleHotList(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    try {
+      const chatId = msg.chat.id.toString();
+      const showAll = match?.[1]?.trim().toLowerCase() === 'all' && this.isAdminChat(chatId);
+      const entries = await this.hotList.listEntries(showAll ? undefined : chatId);
+      const { hotFailsafeSteps } = await this.db.getScheduleConfig();
+      const chatTitles = showAll
+        ? new Map((await this.db.getChats()).map(chat => [chat.chatId, chat.title || chat.chatId]))
+        : new Map<string, string>();
+      
+      if (entries.length === 0) {
+        await this.sendMessage(
+          msg.chat.id.toString(), 
+          '🔥 *Hot list is empty*\\!\n\nUse `/hot_add` to add a token with price or market cap targets\\.', 
+          'MarkdownV2'
+        );
+        return;
+      }
+
+      let message = `🔥 Hot List Entries\n\n`;
+      
+      for (const entry of entries) {
+        message += `*${entry.name} (${entry.symbol})*\n`;
+        message += `\`${entry.contractAddress}\`\n`;
+        if (showAll) {
+          message += `👥 ${entry.chatId ? chatTitles.get(entry.chatId) || entry.chatId : 'unowned'}\n`;
+        }
+        
+        for (const trigger of entry.activeTriggers) {
+          const status = trigger.fired ? '✅' : '⏳';
+          if (trigger.kind === 'pct') {
+            const targetPrice = trigger.anchorPrice * (1 + trigger.value / 100);
+            message += `${status} Target: ${trigger.value > 0 ? '+' : ''}${trigger.value}% ($${this.formatPrice(targetPrice)})${this.formatRearm(trigger)}\n`;
+          } else if (trigger.kind === 'mcap') {
+            message += `${status} MCAP: ${Formatters.formatMarketCap(trigger.value)}${this.formatRearm(trigger)}\n`;
+          }
+        }
+
+        message += this.formatTrailTriggers(entry);
+        
+        message += this.formatFailsafe(entry, hotFailsafeSteps);
+        message += `${this.formatExpiry(entry)}\n`;
+      }
+
+      await this.sendPaginatedMessage(msg.chat.id.toString(), message, 'MarkdownV2');
     } catch (error) {
       await this.sendMessage(
         msg.chat.id.toString(), 
@@ -994,15 +1941,19 @@ Track cryptocurrency movements with intelligent alerts:
 
   private async handleStatus(msg: Message): Promise<void> {
     try {
-      const hotEntries = await this.hotList.listEntries();
-      const longEntries = await this.db.getLongListCoins();
+      // The admin chat sees totals, other chats their own lists
+      const chatId = msg.chat.id.toString();
+      const scope = this.isAdminChat(chatId) ? undefined : chatId;
+      const hotEntries = await this.hotList.listEntries(scope);
+      const longEntries = await this.db.getLongListCoins(scope);
       
       // Get enhanced memory stats from our monitoring
       let memoryInfo = '';
+      let healthData: any = null;
       try {
         const response = await fetch('http://localhost:3002/health');
         if (response.ok) {
-          const healthData = await response.json() as any;
+          healthData = await response.json() as any;
           const rss = healthData.memory?.rss || 0;
           const pressure = healthData.memory?.pressure || 'unknown';
           const pressureEmoji = pressure === 'critical' ? '🔴' : 
@@ -1046,6 +1997,34 @@ Track cryptocurrency movements with intelligent alerts:
       }
       
       message += `📈 *Long List:* ${longEntries.length} coins tracking\n`;
+
+      const ws = healthData?.websocket;
+      if (ws) {
+        message += `🔌 *WebSocket:* ${ws.connected ? '✅ connected' : '⚠️ disconnected'}${ws.endpoint ? ` to ${ws.endpoint}` : ''}, ${ws.active}/${ws.program + ws.account} subscriptions active`;
+        message += ` (${ws.program} program, ${ws.account} account)\n`;
+      }
+
+      const gaps = healthData?.backfill;
+      if (gaps?.lastGap) {
+        const last = gaps.lastGap;
+        message += `🩹 *Gap backfill:* ${gaps.gaps} gaps, ${gaps.recovered} signatures recovered, ${gaps.stored} mints stored`;
+        message += ` (last: ${last.slots} slots, ${last.recovered} recovered${last.truncated ? ', truncated' : ''})\n`;
+      }
+
+      const backlog = await this.outbox.getBacklog();
+      message += `📬 *Outbox:* ${backlog.pending} pending`;
+      if (backlog.oldestTsUtc !== null) {
+        message += `, oldest ${Formatters.formatDuration(Date.now() - backlog.oldestTsUtc * 1000)}`;
+      }
+      message += backlog.failedLastDay > 0 ? ` (⚠️ ${backlog.failedLastDay} failed in 24h)\n` : '\n';
+
+      const denied = Array.from(this.deniedAttempts.entries()).sort((a, b) => b[1] - a[1]);
+      const deniedTotal = denied.reduce((sum, [, count]) => sum + count, 0);
+      message += `⛔ *Denied commands:* ${deniedTotal}`;
+      if (denied.length > 0) {
+        message += ` (${denied.slice(0, 3).map(([command, count]) => `/${command} ${count}x`).join(', ')})`;
+      }
+      message += '\n';
       
       // Add scheduler health indicator (basic check)
       const now = new Date();
@@ -1066,7 +2045,7 @@ Track cryptocurrency movements with intelligent alerts:
 
   private async handleAlerts(msg: Message): Promise<void> {
     try {
-      const activeCoins = await this.db.getActiveLongListStatus(20);
+      const activeCoins = await this.db.getActiveLongListStatus(20, msg.chat.id.toString());
       
       if (activeCoins.length === 0) {
         await this.sendMessage(msg.chat.id.toString(), '📊 No coins in long list monitoring', 'MarkdownV2');
@@ -1105,74 +2084,596 @@ Track cryptocurrency movements with intelligent alerts:
     }
   }
 
-  async sendMessage(chatId: string, text: string, parseMode?: 'MarkdownV2' | 'HTML', fingerprint?: string, disablePreview: boolean = false): Promise<boolean> {
+  private async handleCoin(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const [query, countArg] = match?.[1]?.trim().split(/\s+/).filter(Boolean) || [];
+    if (!query) {
+      await this.sendMessage(chatId, '❌ Usage: /coin SYMBOL|CONTRACT_ADDRESS [alerts]\nExample: /coin BONK 10');
+      return;
+    }
+
+    const alertCount = Math.min(20, Math.max(1, parseInt(countArg || '5', 10) || 5));
+
     try {
-      logger.info(`Attempting to send message to ${chatId}, parseMode: ${parseMode}, text length: ${text.length}`);
-      
-      if (fingerprint) {
-        const existing = await this.prisma.outbox.findUnique({
-          where: { fingerprint }
-        });
-        
-        if (existing?.sentOk) {
-          logger.debug(`Message already sent: ${fingerprint}`);
-          return true;
+      const address = await this.resolveContractArg(msg, query, resolved => this.handleCoin(msg, this.withContractArg(match, query, resolved)));
+      if (!address) {
+        return;
+      }
+      const coin = (await this.db.findCoins(address))[0];
+      if (!coin) {
+        await this.sendMessage(chatId, `❌ ${address} isn't on any list yet. Add it with /long_add or /hot_add.`);
+        return;
+      }
+
+      const [pair, states, triggerStates, rules, windowStatus, alerts, longCoins] = await Promise.all([
+        // The card is still useful without live data
+        this.dexScreener.getPairInfo(coin.chain, coin.tokenAddress).catch(error => {
+          logger.warn(`Live lookup for ${coin.symbol} failed:`, error);
+          return null;
+        }),
+        this.db.getLongStates(),
+        this.db.getLongTriggerStates(chatId),
+        this.db.getLongRules(chatId, coin.tokenAddress),
+        this.longList.getWindowStatus(coin.coinId),
+        this.db.getCoinAlerts(coin.coinId, alertCount),
+        this.db.getLongListCoins()
+      ]);
+
+      const details = formatCoinDetails({
+        coin,
+        pair,
+        state: states.find(state => state.coinId === coin.coinId),
+        triggerStates: triggerStates.filter(state => state.coinId === coin.coinId),
+        rules,
+        ...windowStatus,
+        alerts,
+        onLongList: longCoins.some(longCoin => longCoin.coinId === coin.coinId)
+      }, this.timezone);
+      await this.sendMessage(chatId, details, 'MarkdownV2', undefined, true);
+    } catch (error) {
+      await this.sendMessage(
+        chatId,
+        `❌ Failed to show coin: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async handleChart(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const query = match?.[1]?.trim().split(/\s+/)[0];
+    if (!query) {
+      await this.sendMessage(chatId, '❌ Usage: /chart SYMBOL|CONTRACT_ADDRESS');
+      return;
+    }
+
+    try {
+      const address = await this.resolveContractArg(msg, query, resolved => this.handleChart(msg, this.withContractArg(match, query, resolved)));
+      if (!address) {
+        return;
+      }
+      const coin = (await this.db.findCoins(address))[0];
+      if (!coin) {
+        await this.sendMessage(chatId, `❌ ${address} isn't on any list yet. Add it with /long_add or /hot_add.`);
+        return;
+      }
+
+      const [points, retraceLevels] = await Promise.all([
+        this.longList.getChartData(coin.coinId, CHART_HOURS),
+        this.longList.getRetraceLevels(coin.coinId, chatId)
+      ]);
+      const chart = renderPriceChart({ points, retraceLevels });
+      const last = points[points.length - 1];
+      if (!chart || !last) {
+        await this.sendMessage(chatId, `📈 Not enough price history for ${coin.symbol} yet. Charts need long list data.`);
+        return;
+      }
+
+      const { high, low } = getPriceRange(points);
+      let caption = `📈 *${coin.symbol}* last ${CHART_HOURS}h\n`;
+      caption += `Last: $${this.formatPrice(last.price)} (${Formatters.formatPriceChange(((last.price - high) / high) * 100)} from high)\n`;
+      caption += `High: $${this.formatPrice(high)} · Low: $${this.formatPrice(low)}\n`;
+      caption += retraceLevels.length > 0
+        ? `Retrace: ${retraceLevels.map(level => `${level}% at $${this.formatPrice(high * (1 - level / 100))}`).join(', ')}\n`
+        : 'Retrace: off\n';
+      caption += `${points.length} data points`;
+      await this.sendPhoto(chatId, chart, caption, 'MarkdownV2');
+    } catch (error) {
+      await this.sendMessage(
+        chatId,
+        `❌ Failed to render chart: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async handleAliasAdd(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const [rawAlias, query] = match?.[1]?.trim().split(/\s+/).filter(Boolean) || [];
+    if (!rawAlias || !query) {
+      await this.sendMessage(
+        chatId,
+        '❌ Usage: /alias_add ALIAS SYMBOL|CONTRACT_ADDRESS\n' +
+        'Example: /alias_add DOGWIF EKpQGSJtjMFqKZ9KQanSqYXRcF8fBopzLHYxdM65zcjm'
+      );
+      return;
+    }
+
+    const parsed = parseAlias(rawAlias);
+    if (!parsed.valid || !parsed.alias) {
+      await this.sendMessage(chatId, `❌ ${parsed.error}`);
+      return;
+    }
+    const alias = parsed.alias;
+
+    try {
+      const address = await this.resolveContractArg(msg, query, resolved => this.handleAliasAdd(msg, this.withContractArg(match, query, resolved)));
+      if (!address) {
+        return;
+      }
+      const coin = (await this.db.findCoins(address))[0];
+      if (!coin) {
+        await this.sendMessage(chatId, `❌ ${address} isn't on any list yet. Add it with /long_add or /hot_add first.`);
+        return;
+      }
+
+      const taken = await this.db.addSymbolAlias(alias, coin.coinId);
+      if (taken) {
+        await this.sendMessage(chatId, `❌ ${alias} already means ${formatCoinChoice(taken)}. Remove it with /alias_rm ${alias} first.`);
+        return;
+      }
+      await this.sendMessage(chatId, `✅ ${alias} now means ${formatCoinChoice(coin)}\n${coin.tokenAddress}`);
+    } catch (error) {
+      logger.error(`Failed to add alias ${alias}:`, error);
+      await this.sendMessage(chatId, `❌ Failed to add alias: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleAliasRemove(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const rawAlias = match?.[1]?.trim().split(/\s+/)[0];
+    if (!rawAlias) {
+      await this.sendMessage(chatId, '❌ Usage: /alias_rm ALIAS\nExample: /alias_rm DOGWIF');
+      return;
+    }
+
+    const parsed = parseAlias(rawAlias);
+    if (!parsed.valid || !parsed.alias) {
+      await this.sendMessage(chatId, `❌ ${parsed.error}`);
+      return;
+    }
+
+    try {
+      const removed = await this.db.removeSymbolAlias(parsed.alias);
+      await this.sendMessage(chatId, removed ? `✅ Removed alias ${parsed.alias}` : `❌ No alias ${parsed.alias}. See /alias_list.`);
+    } catch (error) {
+      logger.error(`Failed to remove alias ${parsed.alias}:`, error);
+      await this.sendMessage(chatId, `❌ Failed to remove alias: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  private async handleAliasList(msg: Message, match: RegExpMatchArray | null): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    const query = match?.[1]?.trim().split(/\s+/)[0];
+
+    try {
+      let coin: CoinData | undefined;
+      if (query) {
+        const address = await this.resolveContractArg(msg, query, resolved => this.handleAliasList(msg, this.withContractArg(match, query, resolved)));
+        if (!address) {
+          return;
+        }
+        coin = (await this.db.findCoins(address))[0];
+        if (!coin) {
+          await this.sendMessage(chatId, `❌ ${address} isn't on any list yet.`);
+          return;
+        }
+      }
+
+      const aliases = await this.db.getSymbolAliases(coin?.coinId);
+      if (aliases.length === 0) {
+        await this.sendMessage(chatId, coin ? `🏷️ ${coin.symbol} has no aliases. Add one with /alias_add.` : '🏷️ No aliases yet. Add one with /alias_add.');
+        return;
+      }
+
+      let text = `🏷️ Aliases${coin ? ` for ${coin.symbol}` : ''} (${aliases.length})\n\n`;
+      text += aliases.map(entry => `• ${entry.alias} → ${formatCoinChoice(entry.coin)}`).join('\n');
+      await this.sendPaginatedMessage(chatId, text);
+    } catch (error) {
+      logger.error('Failed to list aliases:', error);
+      await this.sendMessage(chatId, `❌ Failed to list aliases: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Turns a coin argument (contract address, symbol or alias) into a contract address. When
+   * several coins share the ticker, asks which one with a button per coin and reruns the
+   * command with the pick. Returns null whenever the user has already been answered.
+   */
+  private async resolveContractArg(msg: Message, query: string, rerun: (address: string) => Promise<void>): Promise<string | null> {
+    if (isContractAddress(query)) {
+      return query;
+    }
+
+    const chatId = msg.chat.id.toString();
+    try {
+      const matches = await this.db.findCoins(query);
+      if (matches.length === 1) {
+        return matches[0]!.tokenAddress;
+      }
+      if (matches.length === 0) {
+        await this.sendMessage(chatId, `❌ No coin found for ${query}. Use its contract address, or name a coin with /alias_add.`);
+        return null;
+      }
+
+      const now = Date.now();
+      for (const [choiceId, choice] of this.coinChoices) {
+        if (now - choice.createdAt > COIN_CHOICE_TTL_MS) {
+          this.coinChoices.delete(choiceId);
         }
       }
 
-      const options: any = {
-        disable_web_page_preview: disablePreview
-      };
-      let processedText = text;
+      const choiceId = `${now.toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+      const coins = matches.slice(0, MAX_COIN_CHOICES);
+      this.coinChoices.set(choiceId, { userId: msg.from?.id.toString(), createdAt: now, coins, rerun });
+      await this.sendMessage(
+        chatId,
+        `🤔 ${query} matches ${matches.length} coins. Which one do you mean?` +
+        (matches.length > coins.length ? `\nShowing the first ${coins.length}; use the contract address for the others.` : ''),
+        undefined,
+        undefined,
+        true,
+        buildCoinChoiceKeyboard(choiceId, coins)
+      );
+      return null;
+    } catch (error) {
+      logger.error(`Failed to resolve coin ${query}:`, error);
+      await this.sendMessage(chatId, `❌ Failed to look up ${query}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  /**
+   * The command's match with the coin argument replaced by the chosen address.
+   */
+  private withContractArg(match: RegExpMatchArray | null, query: string, address: string): RegExpMatchArray {
+    const args = (match?.[1] ?? '').trim().split(/\s+/);
+    const index = args.indexOf(query);
+    const rest = index < 0 ? [address] : [...args.slice(0, index), address, ...args.slice(index + 1)];
+    return [match?.[0] ?? '', rest.join(' ')];
+  }
+
+  private async handleCoinChoiceAction(ctx: Context<Update>): Promise<void> {
+    const query = ctx.callbackQuery;
+    const choice = query && 'data' in query ? decodeCoinChoice(query.data) : null;
+    const pending = choice ? this.coinChoices.get(choice.choiceId) : undefined;
+    const coin = choice ? pending?.coins[choice.index] : undefined;
+    if (!choice || !pending || !coin || Date.now() - pending.createdAt > COIN_CHOICE_TTL_MS) {
+      await ctx.answerCbQuery('This question has expired, run the command again', { show_alert: true });
+      return;
+    }
+    if (pending.userId && ctx.from?.id.toString() !== pending.userId) {
+      await ctx.answerCbQuery('Only whoever ran the command can choose', { show_alert: true });
+      return;
+    }
+
+    // One pick per question, even if the button is pressed twice
+    this.coinChoices.delete(choice.choiceId);
+    try {
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(`✔️ Using ${formatCoinChoice(coin)}\n${coin.tokenAddress}`);
+      await pending.rerun(coin.tokenAddress);
+    } catch (error) {
+      logger.error(`Coin choice ${choice.choiceId} failed:`, error);
+      await ctx.answerCbQuery(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`, { show_alert: true }).catch(() => undefined);
+    }
+  }
 
-      if (parseMode === 'MarkdownV2') {
-        options.parse_mode = 'MarkdownV2';
-        processedText = Formatters.escapeMarkdown(text);
-      } else if (parseMode) {
-        options.parse_mode = parseMode;
+  private async handleWatchlist(msg: Message): Promise<void> {
+    const chatId = msg.chat.id.toString();
+    try {
+      const coins = await this.longList.getWatchlist(chatId);
+      if (coins.length === 0) {
+        await this.sendMessage(chatId, '📋 No coins in long list monitoring. Add one with /long_add CONTRACT_ADDRESS');
+        return;
       }
 
-      logger.info(`Sending message with options:`, options);
-      const result = await this.bot.telegram.sendMessage(chatId, processedText, options);
-      logger.info(`Message sent successfully:`, result);
-      
-      if (fingerprint) {
-        await this.prisma.outbox.upsert({
-          where: { fingerprint },
-          update: {
-            sentOk: true,
-            sentTsUtc: Math.floor(Date.now() / 1000)
-          },
-          create: {
-            tsUtc: Math.floor(Date.now() / 1000),
-            chatId,
-            messageText: text,
-            fingerprint,
-            sentOk: true,
-            sentTsUtc: Math.floor(Date.now() / 1000)
-          }
-        });
+      const page = buildWatchlistPage(coins, DEFAULT_WATCHLIST_VIEW);
+      await this.sendMessage(chatId, page.text, 'MarkdownV2', undefined, true, page.keyboard);
+    } catch (error) {
+      await this.sendMessage(
+        chatId,
+        `❌ Failed to show watchlist: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Paging, sorting, filtering and coin cards edit the watchlist message in place.
+   */
+  private async handleWatchlistAction(ctx: Context<Update>): Promise<void> {
+    const query = ctx.callbackQuery;
+    const action = query && 'data' in query ? decodeWatchlistAction(query.data) : null;
+    const chatId = ctx.chat?.id.toString();
+    if (!action || !chatId) {
+      await ctx.answerCbQuery('❌ Unknown action');
+      return;
+    }
+
+    try {
+      const coins = await this.longList.getWatchlist(chatId);
+      let view: { text: string; keyboard: InlineKeyboardMarkup };
+      if (action.type === 'list') {
+        view = buildWatchlistPage(coins, action.view);
+      } else {
+        const listed = coins.find(coin => coin.coinId === action.coinId);
+        const coin = listed ? await this.db.getCoin(action.coinId) : null;
+        if (!listed || !coin) {
+          await ctx.answerCbQuery('Coin is no longer on the long list', { show_alert: true });
+          return;
+        }
+
+        const state = (await this.db.getLongStates()).find(s => s.coinId === coin.coinId);
+        const alerts = await this.db.getCoinAlerts(coin.coinId);
+        view = buildCoinCard(coin, state, listed.enabledTriggers, alerts, action.view, this.timezone);
+      }
+
+      await ctx.answerCbQuery();
+      await ctx.editMessageText(Formatters.escapeMarkdown(view.text), {
+        parse_mode: 'MarkdownV2',
+        reply_markup: view.keyboard
+      });
+    } catch (error) {
+      // Pressing the current page or sort again changes nothing
+      if (error instanceof Error && error.message.includes('message is not modified')) {
+        return;
+      }
+      logger.error(`Watchlist action ${query && 'data' in query ? query.data : ''} failed in chat ${chatId}:`, error);
+      await ctx.answerCbQuery(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`, { show_alert: true }).catch(() => undefined);
+    }
+  }
+
+  private async handleAlertAction(ctx: Context<Update>): Promise<void> {
+    const query = ctx.callbackQuery;
+    const action = query && 'data' in query ? decodeAlertAction(query.data) : null;
+    const chatId = ctx.chat?.id.toString();
+    if (!action || !chatId) {
+      await ctx.answerCbQuery('❌ Unknown action');
+      return;
+    }
+
+    try {
+      const status = action.list === 'long'
+        ? await this.runLongAlertAction(action, chatId)
+        : await this.runHotAlertAction(action, chatId);
+      await ctx.answerCbQuery(status);
+      await this.confirmAlertAction(ctx, status);
+    } catch (error) {
+      logger.error(`Alert action ${query && 'data' in query ? query.data : ''} failed in chat ${chatId}:`, error);
+      await ctx.answerCbQuery(`❌ ${error instanceof Error ? error.message : 'Unknown error'}`, { show_alert: true });
+    }
+  }
+
+  /**
+   * Actions on a long list coin. Each one checks the current state first, so pressing a
+   * button twice reports the same outcome instead of acting twice.
+   */
+  private async runLongAlertAction(action: AlertAction, chatId: string): Promise<string> {
+    const coin = await this.db.getCoin(action.id);
+    if (!coin) {
+      throw new Error('Coin no longer exists');
+    }
+
+    switch (action.action) {
+      case 'snooze':
+        return this.snoozeFromAlert(chatId, { coinId: coin.coinId }, coin.symbol);
+
+      case 'mute': {
+        if (!action.kind) {
+          throw new Error('This alert has no trigger to mute');
+        }
+        // Mutes only this chat's trigger or rule; other chats following the coin still get theirs
+        if (!(await this.db.isSubscribedToCoin(chatId, coin.tokenAddress))) {
+          throw new Error(`${coin.symbol} is not on this chat's long list`);
+        }
+
+        const ruleId = action.kind.startsWith('rule:') ? parseInt(action.kind.slice('rule:'.length), 10) : null;
+        if (ruleId !== null) {
+          const muted = await this.db.setLongRuleEnabled(chatId, ruleId, false);
+          return muted ? `Muted rule #${ruleId} for ${coin.symbol}` : `Rule #${ruleId} for ${coin.symbol} is already muted`;
+        }
+
+        if (!(await this.longList.updateTriggerSettings(chatId, coin.tokenAddress, { enabled: { [action.kind]: false } }))) {
+          throw new Error(`${coin.symbol} is not on this chat's long list`);
+        }
+        return `Muted ${action.kind} alerts for ${coin.symbol} in this chat`;
+      }
+
+      case 'remove': {
+        const removed = await this.longList.removeCoin(coin.tokenAddress, chatId);
+        return removed ? `Removed ${coin.symbol} from the long list` : `${coin.symbol} is not on this chat's long list`;
+      }
+
+      case 'hot': {
+        const existing = (await this.hotList.listEntries(chatId)).find(entry => entry.contractAddress === coin.tokenAddress);
+        if (existing) {
+          return `${coin.symbol} is already on the hot list (#${existing.hotId})`;
+        }
+
+        const pair = await this.dexScreener.getPairInfo(coin.chain, coin.tokenAddress);
+        if (!pair || !this.dexScreener.validatePairData(pair)) {
+          throw new Error(`No price data for ${coin.symbol}`);
+        }
+        await this.hotList.addEntry(coin.tokenAddress, pair, { pctTargets: [20, -20], chatId });
+        return `Added ${coin.symbol} to the hot list at $${this.formatPrice(pair.price)} (±20%)`;
+      }
+
+      case 'chart': {
+        const points = await this.longList.getChartData(coin.coinId, 24);
+        await this.sendMessage(chatId, this.formatChartData(coin.symbol, points), 'MarkdownV2');
+        return `Chart data sent for ${coin.symbol}`;
+      }
+    }
+  }
+
+  private async runHotAlertAction(action: AlertAction, chatId: string): Promise<string> {
+    const entry = await this.hotList.getEntry(action.id);
+    if (!entry || (entry.chatId !== chatId && !this.isAdminChat(chatId))) {
+      throw new Error('Hot entry not found');
+    }
+
+    switch (action.action) {
+      case 'snooze':
+        return this.snoozeFromAlert(chatId, { hotId: entry.hotId }, entry.symbol);
+
+      case 'mute': {
+        if (!action.kind) {
+          throw new Error('This alert has no trigger to mute');
+        }
+        const [kind, value] = action.kind.split(/:(.*)/);
+        const label = kind === 'failsafe' ? 'failsafe' : `${kind} ${value}`;
+        const muted = await this.hotList.muteTrigger(entry.hotId, kind!, value !== undefined ? parseFloat(value) : undefined);
+        return muted ? `Muted ${label} for ${entry.symbol}` : `${label} for ${entry.symbol} is already muted`;
       }
 
+      case 'remove': {
+        const removed = await this.hotList.removeEntryById(entry.hotId);
+        return removed ? `Removed ${entry.symbol} from the hot list` : `${entry.symbol} is no longer on the hot list`;
+      }
+
+      case 'hot':
+        return `${entry.symbol} is already on the hot list (#${entry.hotId})`;
+
+      case 'chart': {
+        const points = entry.coinId ? await this.longList.getChartData(entry.coinId, 24) : [];
+        await this.sendMessage(chatId, this.formatChartData(entry.symbol, points, entry), 'MarkdownV2');
+        return `Chart data sent for ${entry.symbol}`;
+      }
+    }
+  }
+
+  private async snoozeFromAlert(chatId: string, scope: SnoozeScope, symbol: string): Promise<string> {
+    const existing = await globalSnoozes.findCovering(chatId, scope);
+    if (existing) {
+      return `${symbol} is already snoozed until ${Formatters.formatTimestamp(existing.expiresAtUtc)} UTC`;
+    }
+
+    const snooze = await globalSnoozes.snooze(chatId, scope, symbol, SNOOZE_BUTTON_HOURS);
+    return `Snoozed ${symbol} until ${Formatters.formatTimestamp(snooze.expiresAtUtc)} UTC`;
+  }
+
+  /**
+   * Appends the outcome to the alert itself, keeping its formatting and buttons.
+   */
+  private async confirmAlertAction(ctx: Context<Update>, status: string): Promise<void> {
+    const message = ctx.callbackQuery?.message;
+    if (!message || !('text' in message)) {
+      return;
+    }
+
+    const line = `✔️ ${status}`;
+    if (message.text.split('\n').includes(line)) {
+      return;
+    }
+
+    try {
+      await ctx.editMessageText(`${message.text}\n${line}`, {
+        ...(message.entities ? { entities: message.entities } : {}),
+        ...(message.reply_markup ? { reply_markup: message.reply_markup } : {})
+      });
+    } catch (error) {
+      // A double press can race the first edit
+      if (!(error instanceof Error && error.message.includes('message is not modified'))) {
+        logger.warn('Failed to confirm alert action:', error);
+      }
+    }
+  }
+
+  private formatChartData(symbol: string, points: DataPoint[], entry?: HotListEntry): string {
+    if (points.length === 0) {
+      if (entry?.lastPrice === undefined) {
+        return `📈 No price history for ${symbol} yet`;
+      }
+
+      // Hot-only coins have no rolling window, but the entry tracks its own range
+      const anchor = entry.activeTriggers[0]?.anchorPrice;
+      let message = `📈 *${symbol}* since added\n\n`;
+      if (anchor) message += `Anchor: $${this.formatPrice(anchor)}\n`;
+      if (entry.peakPrice) message += `Peak: $${this.formatPrice(entry.peakPrice)}\n`;
+      if (entry.lowPrice) message += `Low: $${this.formatPrice(entry.lowPrice)}\n`;
+      message += `Last: $${this.formatPrice(entry.lastPrice)}`;
+      return message;
+    }
+
+    const prices = points.map(point => point.price);
+    const first = points[0]!;
+    const last = points[points.length - 1]!;
+    // Keep the message short: at most 12 evenly spaced rows, always ending on the latest point
+    const step = Math.max(1, Math.ceil(points.length / 12));
+    const rows = points.filter((_, i) => i % step === 0 || i === points.length - 1);
+
+    let message = `📈 *${symbol}* last 24h (${points.length} points)\n\n`;
+    message += `High: $${this.formatPrice(Math.max(...prices))} | Low: $${this.formatPrice(Math.min(...prices))}\n`;
+    message += `Change: ${Formatters.formatPercentage((last.price - first.price) / first.price * 100)}\n\n`;
+    message += rows
+      .map(point => `\`${new Date(point.timestamp * 1000).toISOString().slice(11, 16)}  $${this.formatPrice(point.price)}\``)
+      .join('\n');
+    return message;
+  }
+
+  /**
+   * Queues a message in the outbox; the worker sends it within Telegram's rate limits and retries
+   * failures. Returns false only if the message couldn't be stored.
+   */
+  async sendMessage(
+    chatId: string,
+    text: string,
+    parseMode?: 'MarkdownV2' | 'HTML',
+    fingerprint?: string,
+    disablePreview: boolean = false,
+    replyMarkup?: InlineKeyboardMarkup
+  ): Promise<boolean> {
+    try {
+      await this.outbox.enqueue({
+        chatId,
+        text,
+        // Messages without a fingerprint are never deduplicated
+        fingerprint: fingerprint || `msg_${chatId}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+        timestamp: Date.now(),
+        parseMode,
+        disablePreview,
+        replyMarkup
+      });
       return true;
     } catch (error) {
-      logger.error('Failed to send message:', error);
+      logger.error('Failed to queue message:', error);
       logger.error('Message details - chatId:', chatId, 'parseMode:', parseMode, 'text preview:', text.substring(0, 100));
-      
-      if (fingerprint) {
-        await this.prisma.outbox.upsert({
-          where: { fingerprint },
-          update: { sentOk: false },
-          create: {
-            tsUtc: Math.floor(Date.now() / 1000),
-            chatId,
-            messageText: text,
-            fingerprint,
-            sentOk: false
-          }
-        });
-      }
-      
+      return false;
+    }
+  }
+
+  /**
+   * Queues a photo with a caption, delivered through the outbox like any message.
+   */
+  async sendPhoto(
+    chatId: string,
+    photo: Buffer,
+    caption: string,
+    parseMode?: 'MarkdownV2' | 'HTML',
+    fingerprint?: string,
+    replyMarkup?: InlineKeyboardMarkup
+  ): Promise<boolean> {
+    try {
+      await this.outbox.enqueue({
+        chatId,
+        text: caption,
+        fingerprint: fingerprint || `photo_${chatId}_${Date.now()}_${Math.random().toString(36).slice(2, 11)}`,
+        timestamp: Date.now(),
+        parseMode,
+        replyMarkup,
+        photo
+      });
+      return true;
+    } catch (error) {
+      logger.error('Failed to queue photo:', error);
       return false;
     }
   }
@@ -1181,16 +2682,21 @@ Track cryptocurrency movements with intelligent alerts:
     let sent = 0;
     
     for (const message of messages) {
-      const success = await this.sendMessage(message.chatId, message.text, undefined, message.fingerprint);
+      const success = await this.sendMessage(
+        message.chatId,
+        message.text,
+        message.parseMode,
+        message.fingerprint,
+        message.disablePreview,
+        message.replyMarkup
+      );
       if (success) sent++;
-      
-      await new Promise(resolve => setTimeout(resolve, 100));
     }
     
     return sent;
   }
 
-  async sendTriggerAlert(trigger: any): Promise<void> {
+  async sendTriggerAlert(trigger: any, priority: AlertEvent['priority'] = 'normal'): Promise<void> {
     const fingerprint = `trigger_${trigger.coinId}_${trigger.triggerType}_${trigger.timestamp || Date.now()}`;
     
     let message = `🚨 *LONG TRIGGER*\n\n`;
@@ -1203,16 +2709,54 @@ Track cryptocurrency movements with intelligent alerts:
       message += `\nMarket Cap: ${Formatters.formatMarketCap(trigger.marketCap)}`;
     }
 
-    // Send to group chat if available, otherwise to admin
-    const targetChatId = this.groupChatId || this.adminChatId;
-    await this.sendMessage(targetChatId, message, 'MarkdownV2', fingerprint);
+    const kind = getLongTriggerKind(trigger);
+    const keyboard = buildAlertKeyboard('long', trigger.coinId, kind);
+
+    // The long list already picked the subscribed chats that haven't snoozed it; coins nobody follows go to the default chat
+    const targetChatIds: string[] = trigger.chatIds
+      ?? await globalSnoozes.filterRecipients([this.getDefaultChatId()], { coinId: trigger.coinId, triggerKind: kind, symbol: trigger.symbol });
+    const summary = `${trigger.message} @ $${this.formatPrice(trigger.price)}`;
+    const chart = targetChatIds.length > 0
+      ? await this.renderCoinChart(trigger.coinId, trigger.chatIds?.[0], { timestamp: Math.floor(Date.now() / 1000), price: trigger.price })
+      : null;
+    for (const targetChatId of targetChatIds) {
+      await this.deliverAlert(targetChatId, message, `${fingerprint}_${targetChatId}`, priority, { symbol: trigger.symbol, summary }, keyboard, chart ?? undefined);
+    }
   }
 
-  async sendHotAlert(alert: any): Promise<void> {
+  /**
+   * 72h chart of the coin's rolling window with the chat's retrace thresholds. Null without enough
+   * data; a rendering failure never holds up the alert it belongs to.
+   */
+  private async renderCoinChart(coinId: number, chatId?: string, fired?: { timestamp: number; price: number }): Promise<Buffer | null> {
+    try {
+      const [points, retraceLevels] = await Promise.all([
+        this.longList.getChartData(coinId, CHART_HOURS),
+        this.longList.getRetraceLevels(coinId, chatId)
+      ]);
+      return renderPriceChart({ points, retraceLevels, fired });
+    } catch (error) {
+      logger.warn(`Failed to render chart for coin ${coinId}:`, error);
+      return null;
+    }
+  }
+
+  async sendHotAlert(alert: any, priority: AlertEvent['priority'] = 'normal'): Promise<void> {
     if (alert.alertType === 'entry_added') {
       return;
     }
-    const fingerprint = `hot_${alert.hotId}_${alert.alertType}_${alert.timestamp}`;
+    // Several targets or failsafe steps can fire in the same check, so the value is part of the key
+    const fingerprint = `hot_${alert.hotId}_${alert.alertType}${alert.targetValue !== undefined ? `_${alert.targetValue}` : ''}_${alert.timestamp}`;
+    // Hot entries belong to one chat
+    const targetChatId = alert.chatId || this.groupChatId || this.adminChatId;
+    const kind = getHotAlertKind(alert.alertType, alert.targetValue);
+    const digest = { symbol: alert.symbol, summary: `${alert.message.split('\n')[0]} @ $${this.formatPrice(alert.currentPrice)}` };
+
+    if (alert.alertType === 'expired') {
+      // The summary already carries anchor, final price and range; expiry isn't held back by snoozes
+      await this.deliverAlert(targetChatId, `⌛ *HOT ENTRY EXPIRED*\n\n${alert.message}`, fingerprint, priority, digest);
+      return;
+    }
     
     let message = `🔥 *HOT ALERT*\n\n`;
     message += `${alert.message}\n`;
@@ -1223,15 +2767,99 @@ Track cryptocurrency movements with intelligent alerts:
       message += `\nMarket Cap: ${Formatters.formatMarketCap(alert.currentMcap)}`;
     }
 
-    // Send to group chat if available, otherwise to admin
-    const targetChatId = this.groupChatId || this.adminChatId;
-    await this.sendMessage(targetChatId, message, 'MarkdownV2', fingerprint);
+    await this.deliverAlert(targetChatId, message, fingerprint, priority, digest, buildAlertKeyboard('hot', alert.hotId, kind));
+  }
+
+  /**
+   * Sends an alert, or during quiet hours queues its one-line summary for the digest.
+   * Critical alerts such as the final failsafe step always go out immediately.
+   */
+  private async deliverAlert(
+    chatId: string,
+    text: string,
+    fingerprint: string,
+    priority: AlertEvent['priority'],
+    digest: { symbol: string; summary: string },
+    keyboard?: InlineKeyboardMarkup,
+    chart?: Buffer
+  ): Promise<void> {
+    if (priority !== 'critical' && await this.isQuietHours()) {
+      await this.prisma.outbox.upsert({
+        where: { fingerprint },
+        update: {},
+        create: {
+          tsUtc: Math.floor(Date.now() / 1000),
+          chatId,
+          messageText: digest.summary,
+          fingerprint,
+          deferred: true,
+          groupKey: digest.symbol
+        }
+      });
+      logger.info(`Queued ${digest.symbol} alert for chat ${chatId} until quiet hours end`);
+      return;
+    }
+
+    // Captions are limited to 1024 characters
+    if (chart && Formatters.escapeMarkdown(text).length <= 1024) {
+      await this.sendPhoto(chatId, chart, text, 'MarkdownV2', fingerprint, keyboard);
+      return;
+    }
+    await this.sendMessage(chatId, text, 'MarkdownV2', fingerprint, false, keyboard);
+  }
+
+  private async isQuietHours(): Promise<boolean> {
+    const { quietHours } = await this.db.getScheduleConfig();
+    return isQuietTime(quietHours, new Date(), this.timezone);
+  }
+
+  /**
+   * Once quiet hours are over, sends each chat one digest of its queued alerts.
+   * Returns the number of alerts delivered.
+   */
+  async flushQuietHoursDigest(): Promise<number> {
+    if (await this.isQuietHours()) {
+      return 0;
+    }
+
+    const queued = await this.prisma.outbox.findMany({
+      where: { deferred: true, sentOk: false },
+      orderBy: { tsUtc: 'asc' }
+    });
+
+    let delivered = 0;
+    for (const chatId of Array.from(new Set(queued.map(row => row.chatId)))) {
+      const rows = queued.filter(row => row.chatId === chatId);
+      const digest = buildDigest(
+        rows.map(row => ({ tsUtc: row.tsUtc, groupKey: row.groupKey, text: row.messageText })),
+        this.timezone
+      );
+
+      if (!(await this.sendPaginatedMessage(chatId, digest, 'MarkdownV2'))) {
+        logger.warn(`Quiet hours digest for chat ${chatId} failed, keeping ${rows.length} alerts queued`);
+        continue;
+      }
+
+      await this.prisma.outbox.updateMany({
+        where: { outboxId: { in: rows.map(row => row.outboxId) } },
+        data: { sentOk: true, sentTsUtc: Math.floor(Date.now() / 1000) }
+      });
+      delivered += rows.length;
+    }
+
+    if (delivered > 0) {
+      logger.info(`Sent quiet hours digest with ${delivered} alerts`);
+    }
+    return delivered;
+  }
+
+  getDefaultChatId(): string {
+    return this.groupChatId || this.adminChatId;
   }
 
   async sendToGroupOrAdmin(text: string, parseMode?: 'MarkdownV2' | 'HTML', fingerprint?: string): Promise<boolean> {
     // Use the same logic as alerts: send to group chat if available, otherwise to admin
-    const targetChatId = this.groupChatId || this.adminChatId;
-    return await this.sendMessage(targetChatId, text, parseMode, fingerprint);
+    return await this.sendMessage(this.getDefaultChatId(), text, parseMode, fingerprint);
   }
 
   private formatVolume(volume: number): string {
@@ -1258,6 +2886,7 @@ Track cryptocurrency movements with intelligent alerts:
   }
 
   async stop(): Promise<void> {
+    this.outbox.stop();
     this.bot.stop();
     logger.info('Telegram bot stopped');
   }
@@ -1297,6 +2926,19 @@ Track cryptocurrency movements with intelligent alerts:
       }
       
       logger.info('Telegram bot started successfully');
+
+      // Picks up anything left unsent before a restart
+      this.outbox.start();
+
+      // The admin user can always manage roles, so access can't be locked out
+      await this.db.setUserRole(this.adminUserId, 'owner');
+
+      // Lists created before chats existed (or by scripts) belong to the default chat
+      const defaultChatId = this.groupChatId || this.adminChatId;
+      const claimed = await this.db.claimUnownedEntries(defaultChatId, this.groupChatId ? 'group' : 'private');
+      if (claimed.longCount > 0 || claimed.hotCount > 0) {
+        logger.info(`Assigned ${claimed.longCount} long list coins and ${claimed.hotCount} hot entries to chat ${defaultChatId}`);
+      }
       
       // Send startup message
       try {
@@ -0,0 +1,249 @@
+import { PairInfo } from '../../types/dexscreener';
+import { LongListState, LongTriggerDefinition } from '../../types/triggers';
+import { Formatters } from '../../utils/formatters';
+
+interface RetraceConfig {
+  pct: number;
+  // Ladder mode when non-empty: each level fires once per swing high
+  levels: number[];
+}
+
+interface RetraceState {
+  // The 72h high the fired rungs belong to; a different high starts a new swing
+  anchorHigh?: number;
+  firedLevels: number[];
+}
+
+interface StallConfig {
+  volPct: number;
+  bandPct: number;
+}
+
+interface BreakoutConfig {
+  pct: number;
+  volX: number;
+}
+
+interface McapConfig {
+  // Fire when market cap rises through these
+  levels: number[];
+  // Fire when market cap falls through these; a level in both lists alerts both ways
+  downLevels: number[];
+}
+
+interface McapState {
+  // Last fire time per `${direction}:${level}`, so up and down crossings don't suppress each other
+  fired: Record<string, number>;
+}
+
+/**
+ * Which ladder rungs have fired for the current swing high.
+ */
+export function getRetraceLadder(
+  config: RetraceConfig,
+  triggerState: RetraceState,
+  h72High: number | undefined
+): Array<{ level: number; fired: boolean }> {
+  const sameSwing = h72High !== undefined && triggerState.anchorHigh === h72High;
+  const fired = sameSwing ? triggerState.firedLevels : [];
+  return [...config.levels]
+    .sort((a, b) => a - b)
+    .map(level => ({ level, fired: fired.includes(level) }));
+}
+
+export const retraceTrigger: LongTriggerDefinition<RetraceConfig, RetraceState> = {
+  kind: 'retrace',
+  label: 'Alert when prices drop from 72h highs',
+  defaultEnabled: true,
+  defaultConfig: { pct: 15, levels: [] },
+  configSchema: {
+    pct: { type: 'number', min: 0.1, max: 99, alias: 'retrace', description: 'Drop from 72h high (%)' },
+    levels: { type: 'numberList', min: 0.1, max: 99, alias: 'retrace_ladder', description: 'Ladder of drops, e.g. 15,25,40 (%)' }
+  },
+  initialState: { firedLevels: [] },
+  evaluate({ symbol, state, config, pair, triggerState }) {
+    if (!state.h72High || pair.price <= 0) {
+      return null;
+    }
+
+    const retracePercent = (state.h72High - pair.price) / state.h72High * 100;
+
+    if (config.levels.length > 0) {
+      // Like mcap levels: walk the sorted rungs, fire the deepest newly crossed one
+      const ladder = getRetraceLadder(config, triggerState, state.h72High);
+      const crossed = ladder.filter(rung => !rung.fired && retracePercent >= rung.level);
+      const deepest = crossed[crossed.length - 1];
+      if (!deepest) {
+        return null;
+      }
+
+      const firedLevels = ladder.filter(rung => rung.fired).map(rung => rung.level);
+      return {
+        message: `${symbol} retraced ${retracePercent.toFixed(1)}% from 72h high (ladder ${deepest.level}% hit)`,
+        retraceFromHigh: retracePercent,
+        targetLevel: deepest.level,
+        nextState: {
+          anchorHigh: state.h72High,
+          firedLevels: [...firedLevels, ...crossed.map(rung => rung.level)]
+        }
+      };
+    }
+
+    // Price drops below threshold from 72h high
+    if (retracePercent < config.pct) {
+      return null;
+    }
+
+    return {
+      message: `${symbol} retraced ${retracePercent.toFixed(1)}% from 72h high`,
+      retraceFromHigh: retracePercent
+    };
+  },
+  managesRepeats({ config }) {
+    return config.levels.length > 0;
+  },
+  isRearmed({ pair, lastFirePrice }, rearmPct) {
+    // Only a recovery above the last alert price counts, not a deeper drop
+    return !lastFirePrice || pair.price >= lastFirePrice * (1 + rearmPct / 100);
+  }
+};
+
+export const stallTrigger: LongTriggerDefinition<StallConfig> = {
+  kind: 'stall',
+  label: 'Alert when volume declines + price consolidates',
+  defaultEnabled: true,
+  defaultConfig: { volPct: 30, bandPct: 5 },
+  configSchema: {
+    volPct: { type: 'number', min: 1, max: 99, alias: 'stall_vol', description: 'Volume drop vs 24h (%)' },
+    bandPct: { type: 'number', min: 0.1, max: 50, alias: 'stall_band', description: 'Price band over 12h (%)' }
+  },
+  initialState: {},
+  evaluate({ symbol, state, config, pair }) {
+    if (!isStalled(state, pair, config)) {
+      return null;
+    }
+
+    return {
+      message: `${symbol} momentum stalled: volume down ${config.volPct}%, price in ${config.bandPct}% band`
+    };
+  },
+  // A stall keeps price inside a band, so a price move is the wrong test: re-arm once it ends
+  isRearmed({ state, pair, config }) {
+    return !isStalled(state, pair, config);
+  }
+};
+
+function isStalled(state: LongListState, pair: PairInfo, config: StallConfig): boolean {
+  if (!state.v24Sum || !state.h12High || !state.h12Low) {
+    return false;
+  }
+
+  // Volume down vs 24h AND price inside the band over 12h
+  const volumeDropped = pair.volume24h <= (state.v24Sum * (1 - config.volPct / 100));
+  const priceInBand = (
+    pair.price >= state.h12Low * (1 - config.bandPct / 100) &&
+    pair.price <= state.h12High * (1 + config.bandPct / 100)
+  );
+  return volumeDropped && priceInBand;
+}
+
+export const breakoutTrigger: LongTriggerDefinition<BreakoutConfig> = {
+  kind: 'breakout',
+  label: 'Alert when price breaks out with volume surge',
+  defaultEnabled: true,
+  defaultConfig: { pct: 12, volX: 1.5 },
+  configSchema: {
+    pct: { type: 'number', min: 0.1, max: 1000, alias: 'breakout', description: 'Rise above 12h high (%)' },
+    volX: { type: 'number', min: 0.1, max: 100, alias: 'breakout_vol', description: 'Volume multiple vs 12h' }
+  },
+  initialState: {},
+  evaluate({ symbol, state, config, pair }) {
+    if (!state.h12High || !state.v12Sum) {
+      return null;
+    }
+
+    // Price above the 12h baseline AND volume expanding vs 12h
+    const priceBreakout = pair.price >= (state.h12High * (1 + config.pct / 100));
+    const volumeIncrease = pair.volume24h >= (state.v12Sum * config.volX);
+
+    if (!priceBreakout || !volumeIncrease) {
+      return null;
+    }
+
+    const breakoutPercent = (pair.price - state.h12High) / state.h12High * 100;
+    return {
+      message: `${symbol} breakout: +${breakoutPercent.toFixed(1)}% with ${config.volX}x volume`
+    };
+  },
+  isRearmed({ pair, lastFirePrice }, rearmPct) {
+    // Needs a pullback below the last breakout price before a new breakout counts
+    return !lastFirePrice || pair.price <= lastFirePrice * (1 - rearmPct / 100);
+  }
+};
+
+export const mcapTrigger: LongTriggerDefinition<McapConfig, McapState> = {
+  kind: 'mcap',
+  label: 'Alert when market cap reaches or loses milestone levels',
+  defaultEnabled: false,
+  defaultConfig: { levels: [], downLevels: [] },
+  configSchema: {
+    levels: { type: 'numberList', min: 1, alias: 'mcap', description: 'Market cap levels to alert on the way up (e.g. 100K,1M)' },
+    downLevels: { type: 'numberList', min: 1, alias: 'mcap_down', description: 'Market cap levels to alert on the way down' }
+  },
+  initialState: { fired: {} },
+  evaluate({ symbol, state, config, pair, triggerState, cooldownHours, now }) {
+    const current = pair.marketCap;
+    if (!current || current <= 0) {
+      return null;
+    }
+
+    const previous = state.lastMcap;
+    const isCooling = (key: string) => {
+      const firedAt = triggerState.fired[key];
+      return firedAt !== undefined && now - firedAt < cooldownHours * 3600;
+    };
+
+    // Up: below the level last check (or no history yet), at or above it now
+    const up = config.levels
+      .filter(level => current >= level && (!previous || previous < level))
+      .filter(level => !isCooling(`up:${level}`))
+      .sort((a, b) => a - b);
+
+    // Down: needs a previous reading at or above the level
+    const down = config.downLevels
+      .filter(level => previous !== undefined && previous >= level && current < level)
+      .filter(level => !isCooling(`down:${level}`))
+      .sort((a, b) => b - a);
+
+    const direction = up.length > 0 ? 'up' : 'down';
+    const crossed = direction === 'up' ? up : down;
+    // Most significant level: highest reached or lowest lost
+    const level = crossed[crossed.length - 1];
+    if (level === undefined) {
+      return null;
+    }
+
+    const fired = { ...triggerState.fired };
+    crossed.forEach(crossedLevel => { fired[`${direction}:${crossedLevel}`] = now; });
+
+    return {
+      message: direction === 'up'
+        ? `${symbol} market cap reached ${Formatters.formatMarketCap(level)}`
+        : `${symbol} market cap lost ${Formatters.formatMarketCap(level)}`,
+      targetLevel: level,
+      direction,
+      nextState: { fired }
+    };
+  },
+  managesRepeats() {
+    // Per level and direction bookkeeping replaces the kind-wide cooldown and re-arm
+    return true;
+  }
+};
+
+export const builtinTriggers: LongTriggerDefinition[] = [
+  retraceTrigger,
+  stallTrigger,
+  breakoutTrigger,
+  mcapTrigger
+];
@@ -0,0 +1,9 @@
+import { LongTriggerRegistry } from './registry';
+import { builtinTriggers } from './builtin';
+
+export { LongTriggerRegistry, parseScaledNumber, parseCooldownHours, parseRearmPct } from './registry';
+export { builtinTriggers, getRetraceLadder } from './builtin';
+
+// Global registry; new trigger kinds register here instead of adding schema columns
+export const globalTriggerRegistry = new LongTriggerRegistry();
+builtinTriggers.forEach(definition => globalTriggerRegistry.register(definition));
@@ -0,0 +1,183 @@
+import { LongTriggerDefinition, TriggerConfigValue, TriggerParamSpec } from '../../types/triggers';
+
+const SUFFIX_MULTIPLIERS: Record<string, number> = {
+  K: 1_000,
+  M: 1_000_000,
+  B: 1_000_000_000
+};
+
+/**
+ * Parses numbers as users type them in commands: `15`, `15%`, `500K`, `1.5M`, `$2B`.
+ */
+export function parseScaledNumber(raw: string): number {
+  const cleaned = raw.trim().replace(/^\$/, '').replace(/%$/, '').toUpperCase();
+  const suffix = cleaned.slice(-1);
+  const multiplier = SUFFIX_MULTIPLIERS[suffix];
+  const value = parseFloat(multiplier ? cleaned.slice(0, -1) : cleaned);
+
+  if (isNaN(value) || !isFinite(value)) {
+    throw new Error(`Invalid number: ${raw}`);
+  }
+
+  return multiplier ? value * multiplier : value;
+}
+
+/**
+ * Parses a per-trigger cooldown: `4`, `4h`, `30m` or `1d`, in hours.
+ * `default` clears the override and returns null.
+ */
+export function parseCooldownHours(raw: string): number | null {
+  const cleaned = raw.trim().toLowerCase();
+  if (cleaned === 'default') return null;
+
+  const match = cleaned.match(/^(\d+(?:\.\d+)?)([mhd]?)$/);
+  if (!match) {
+    throw new Error(`Invalid cooldown: ${raw} (use e.g. 30m, 4h, 1d)`);
+  }
+
+  const value = parseFloat(match[1]!);
+  const hours = match[2] === 'm' ? value / 60 : match[2] === 'd' ? value * 24 : value;
+  if (hours > 168) {
+    throw new Error('Cooldown must be at most 7 days');
+  }
+  return hours;
+}
+
+/**
+ * Parses a re-arm band in percent; `0` disables hysteresis and `default` clears the override.
+ */
+export function parseRearmPct(raw: string): number | null {
+  if (raw.trim().toLowerCase() === 'default') return null;
+
+  const value = parseScaledNumber(raw);
+  if (value < 0 || value > 100) {
+    throw new Error('Re-arm percentage must be between 0 and 100');
+  }
+  return value;
+}
+
+export class LongTriggerRegistry {
+  private readonly definitions = new Map<string, LongTriggerDefinition>();
+
+  register(definition: LongTriggerDefinition): void {
+    if (this.definitions.has(definition.kind)) {
+      throw new Error(`Trigger kind already registered: ${definition.kind}`);
+    }
+    this.definitions.set(definition.kind, definition);
+  }
+
+  has(kind: string): boolean {
+    return this.definitions.has(kind);
+  }
+
+  get(kind: string): LongTriggerDefinition | undefined {
+    return this.definitions.get(kind);
+  }
+
+  list(): LongTriggerDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  kinds(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  /**
+   * Merges stored per-coin config over the definition defaults.
+   * Values that no longer match the schema fall back to the default.
+   */
+  resolveConfig(kind: string, stored: Record<string, unknown> = {}): Record<string, TriggerConfigValue> {
+    const definition = this.require(kind);
+    const config: Record<string, TriggerConfigValue> = { ...definition.defaultConfig };
+    const schema = definition.configSchema as Record<string, TriggerParamSpec>;
+
+    for (const [field, spec] of Object.entries(schema)) {
+      const value = stored[field];
+      if (this.matchesType(spec, value)) {
+        config[field] = value;
+      }
+    }
+
+    return config;
+  }
+
+  /**
+   * Finds the trigger field a /long_set key refers to, either `kind.field` or a legacy alias.
+   */
+  resolveParam(key: string): { kind: string; field: string } | undefined {
+    if (key.includes('.')) {
+      const [kind, field] = key.split('.', 2) as [string, string];
+      const definition = this.definitions.get(kind);
+      if (definition && field in definition.configSchema) {
+        return { kind, field };
+      }
+      return undefined;
+    }
+
+    for (const definition of this.definitions.values()) {
+      for (const [field, spec] of Object.entries(definition.configSchema as Record<string, TriggerParamSpec>)) {
+        if (spec.alias === key) {
+          return { kind: definition.kind, field };
+        }
+      }
+    }
+
+    return undefined;
+  }
+
+  parseParam(kind: string, field: string, raw: string): TriggerConfigValue {
+    const definition = this.require(kind);
+    const spec = (definition.configSchema as Record<string, TriggerParamSpec>)[field];
+    if (!spec) {
+      throw new Error(`Unknown ${kind} parameter: ${field}`);
+    }
+
+    switch (spec.type) {
+      case 'boolean': {
+        const normalized = raw.trim().toLowerCase();
+        if (['on', 'true', 'yes', '1'].includes(normalized)) return true;
+        if (['off', 'false', 'no', '0'].includes(normalized)) return false;
+        throw new Error(`${kind}.${field} must be on or off`);
+      }
+      case 'numberList': {
+        if (raw.trim() === '' || raw.trim().toLowerCase() === 'none') return [];
+        const values = raw.split(',').map(part => parseScaledNumber(part));
+        values.forEach(value => this.checkRange(kind, field, spec, value));
+        return values;
+      }
+      case 'number': {
+        const value = parseScaledNumber(raw);
+        this.checkRange(kind, field, spec, value);
+        return value;
+      }
+    }
+  }
+
+  private checkRange(kind: string, field: string, spec: TriggerParamSpec, value: number): void {
+    if (spec.min !== undefined && value < spec.min) {
+      throw new Error(`${kind}.${field} must be at least ${spec.min}`);
+    }
+    if (spec.max !== undefined && value > spec.max) {
+      throw new Error(`${kind}.${field} must be at most ${spec.max}`);
+    }
+  }
+
+  private matchesType(spec: TriggerParamSpec, value: unknown): value is TriggerConfigValue {
+    switch (spec.type) {
+      case 'number':
+        return typeof value === 'number' && isFinite(value);
+      case 'boolean':
+        return typeof value === 'boolean';
+      case 'numberList':
+        return Array.isArray(value) && value.every(item => typeof item === 'number' && isFinite(item));
+    }
+  }
+
+  private require(kind: string): LongTriggerDefinition {
+    const definition = this.definitions.get(kind);
+    if (!definition) {
+      throw new Error(`Unknown trigger kind: ${kind}`);
+    }
+    return definition;
+  }
+}
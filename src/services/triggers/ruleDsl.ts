@@ -0,0 +1,455 @@
+import { PairInfo } from '../../types/dexscreener';
+import { LongListState } from '../../types/triggers';
+import { DataPoint } from '../rollingWindow';
+
+/**
+ * Small expression language for composite long-list rules, e.g.
+ *
+ *   retrace(72) > 20% AND txns.h1.buys / txns.h1.sells > 1.5 AND liquidity > $200k
+ *
+ * Numbers accept `%`, `$` and K/M/B suffixes. A rule must be a condition: comparisons
+ * joined by AND/OR/NOT. Comparisons against missing data (no liquidity, no txns,
+ * division by zero) are unknown rather than true or false, NOT keeps them unknown,
+ * and a rule that ends up unknown does not fire.
+ */
+
+export type RuleNode =
+  | { type: 'number'; value: number }
+  | { type: 'var'; name: string }
+  | { type: 'call'; name: string; args: RuleNode[] }
+  | { type: 'not'; operand: RuleNode }
+  | { type: 'neg'; operand: RuleNode }
+  | { type: 'binary'; op: BinaryOp; left: RuleNode; right: RuleNode };
+
+type BinaryOp = '+' | '-' | '*' | '/' | '>' | '>=' | '<' | '<=' | '==' | '!=' | 'AND' | 'OR';
+
+export interface RuleEnvironment {
+  pair: PairInfo;
+  state: LongListState;
+  // Rolling window points, oldest first; only loaded when the rule calls window functions
+  points: DataPoint[];
+  now: number;
+}
+
+export class RuleSyntaxError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuleSyntaxError';
+  }
+}
+
+const MAX_RULE_LENGTH = 500;
+const MAX_WINDOW_HOURS = 72;
+
+type Accessor = (env: RuleEnvironment) => number | null | undefined;
+
+// Maps, not object literals, so names like `__proto__` or `toString` are unknown
+const VARIABLES = new Map<string, Accessor>(Object.entries({
+  price: env => env.pair.price,
+  mcap: env => env.pair.marketCap,
+  liquidity: env => env.pair.liquidity,
+  volume24h: env => env.pair.volume24h,
+  priceChange1h: env => env.pair.priceChange1h,
+  priceChange24h: env => env.pair.priceChange24h,
+  h12High: env => env.state.h12High,
+  h24High: env => env.state.h24High,
+  h72High: env => env.state.h72High,
+  h12Low: env => env.state.h12Low,
+  h24Low: env => env.state.h24Low,
+  h72Low: env => env.state.h72Low,
+  v12Sum: env => env.state.v12Sum,
+  v24Sum: env => env.state.v24Sum,
+  lastPrice: env => env.state.lastPrice,
+  lastMcap: env => env.state.lastMcap
+}));
+
+for (const period of ['m5', 'h1', 'h6', 'h24'] as const) {
+  VARIABLES.set(`txns.${period}.buys`, env => env.pair.txns?.[period].buys);
+  VARIABLES.set(`txns.${period}.sells`, env => env.pair.txns?.[period].sells);
+}
+
+interface FunctionSpec {
+  arity: number;
+  // Window functions take a literal hour count and need rolling window points
+  window: boolean;
+  apply: (args: number[], env: RuleEnvironment) => number;
+}
+
+const FUNCTIONS = new Map<string, FunctionSpec>(Object.entries({
+  high: { arity: 1, window: true, apply: ([hours], env) => Math.max(env.pair.price, ...windowPrices(env, hours!)) },
+  low: { arity: 1, window: true, apply: ([hours], env) => Math.min(env.pair.price, ...windowPrices(env, hours!)) },
+  retrace: {
+    arity: 1,
+    window: true,
+    apply: ([hours], env) => {
+      const high = Math.max(env.pair.price, ...windowPrices(env, hours!));
+      return high > 0 ? (high - env.pair.price) / high * 100 : NaN;
+    }
+  },
+  change: {
+    arity: 1,
+    window: true,
+    apply: ([hours], env) => {
+      const first = windowPoints(env, hours!)[0];
+      return first && first.price > 0 ? (env.pair.price - first.price) / first.price * 100 : NaN;
+    }
+  },
+  vol: { arity: 1, window: true, apply: ([hours], env) => windowPoints(env, hours!).reduce((sum, p) => sum + p.volume, 0) },
+  points: { arity: 1, window: true, apply: ([hours], env) => windowPoints(env, hours!).length },
+  abs: { arity: 1, window: false, apply: ([x]) => Math.abs(x!) },
+  min: { arity: 2, window: false, apply: ([a, b]) => Math.min(a!, b!) },
+  max: { arity: 2, window: false, apply: ([a, b]) => Math.max(a!, b!) }
+}));
+
+function windowPoints(env: RuleEnvironment, hours: number): DataPoint[] {
+  const since = env.now - hours * 3600;
+  return env.points.filter(point => point.timestamp >= since);
+}
+
+function windowPrices(env: RuleEnvironment, hours: number): number[] {
+  return windowPoints(env, hours).map(point => point.price);
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+type Token =
+  | { kind: 'number'; value: number; pos: number }
+  | { kind: 'ident'; value: string; pos: number }
+  | { kind: 'op'; value: string; pos: number }
+  | { kind: 'eof'; pos: number };
+
+const COMPARISONS: BinaryOp[] = ['>', '>=', '<', '<=', '==', '!='];
+
+const SUFFIXES: Record<string, number> = { K: 1_000, M: 1_000_000, B: 1_000_000_000 };
+const KEYWORDS: Record<string, string> = { AND: 'AND', OR: 'OR', NOT: 'NOT' };
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i]!;
+
+    if (/\s/.test(ch)) {
+      i++;
+      continue;
+    }
+
+    // Number: optional $, digits, optional K/M/B and %
+    const numberMatch = /^\$?(\d+(?:\.\d+)?|\.\d+)([kKmMbB](?![A-Za-z0-9_]))?(%)?/.exec(source.slice(i));
+    if (numberMatch && (ch === '$' || /[\d.]/.test(ch))) {
+      const base = parseFloat(numberMatch[1]!);
+      const multiplier = numberMatch[2] ? SUFFIXES[numberMatch[2].toUpperCase()]! : 1;
+      tokens.push({ kind: 'number', value: base * multiplier, pos: i });
+      i += numberMatch[0].length;
+      continue;
+    }
+
+    const identMatch = /^[A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*/.exec(source.slice(i));
+    if (identMatch) {
+      const word = identMatch[0];
+      const keyword = KEYWORDS[word.toUpperCase()];
+      tokens.push(keyword ? { kind: 'op', value: keyword, pos: i } : { kind: 'ident', value: word, pos: i });
+      i += word.length;
+      continue;
+    }
+
+    const two = source.slice(i, i + 2);
+    if (['>=', '<=', '==', '!=', '&&', '||'].includes(two)) {
+      const value = two === '&&' ? 'AND' : two === '||' ? 'OR' : two;
+      tokens.push({ kind: 'op', value, pos: i });
+      i += 2;
+      continue;
+    }
+
+    if ('><=+-*/(),!'.includes(ch)) {
+      const value = ch === '=' ? '==' : ch === '!' ? 'NOT' : ch;
+      tokens.push({ kind: 'op', value, pos: i });
+      i++;
+      continue;
+    }
+
+    throw new RuleSyntaxError(`Unexpected character '${ch}' at position ${i + 1}`);
+  }
+
+  tokens.push({ kind: 'eof', pos: source.length });
+  return tokens;
+}
+
+// ---------------------------------------------------------------------------
+// Parser (recursive descent, lowest precedence first)
+
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): RuleNode {
+    const node = this.parseOr();
+    const next = this.peek();
+    if (next.kind !== 'eof') {
+      throw new RuleSyntaxError(`Unexpected ${this.describe(next)} at position ${next.pos + 1}`);
+    }
+    return this.condition(node, 'A rule');
+  }
+
+  private parseOr(): RuleNode {
+    let left = this.parseAnd();
+    while (this.matchOp('OR')) {
+      left = { type: 'binary', op: 'OR', left: this.condition(left, 'OR'), right: this.condition(this.parseAnd(), 'OR') };
+    }
+    return left;
+  }
+
+  private parseAnd(): RuleNode {
+    let left = this.parseNot();
+    while (this.matchOp('AND')) {
+      left = { type: 'binary', op: 'AND', left: this.condition(left, 'AND'), right: this.condition(this.parseNot(), 'AND') };
+    }
+    return left;
+  }
+
+  private parseNot(): RuleNode {
+    if (this.matchOp('NOT')) {
+      return { type: 'not', operand: this.condition(this.parseNot(), 'NOT') };
+    }
+    return this.parseComparison();
+  }
+
+  // A bare number like `price` would be "true" whenever it's non-zero, so it is not a condition
+  private condition(node: RuleNode, context: string): RuleNode {
+    const isCondition = node.type === 'not'
+      || (node.type === 'binary' && (node.op === 'AND' || node.op === 'OR' || COMPARISONS.includes(node.op)));
+    if (!isCondition) {
+      throw new RuleSyntaxError(`${context} needs a comparison such as 'price > 1', not a bare value`);
+    }
+    return node;
+  }
+
+  private parseComparison(): RuleNode {
+    const left = this.parseSum();
+    const token = this.peek();
+    if (token.kind === 'op' && COMPARISONS.includes(token.value as BinaryOp)) {
+      this.index++;
+      return { type: 'binary', op: token.value as BinaryOp, left, right: this.parseSum() };
+    }
+    return left;
+  }
+
+  private parseSum(): RuleNode {
+    let left = this.parseTerm();
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'op' || (token.value !== '+' && token.value !== '-')) return left;
+      this.index++;
+      left = { type: 'binary', op: token.value, left, right: this.parseTerm() };
+    }
+  }
+
+  private parseTerm(): RuleNode {
+    let left = this.parseUnary();
+    for (;;) {
+      const token = this.peek();
+      if (token.kind !== 'op' || (token.value !== '*' && token.value !== '/')) return left;
+      this.index++;
+      left = { type: 'binary', op: token.value, left, right: this.parseUnary() };
+    }
+  }
+
+  private parseUnary(): RuleNode {
+    if (this.matchOp('-')) {
+      return { type: 'neg', operand: this.parseUnary() };
+    }
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): RuleNode {
+    const token = this.next();
+
+    if (token.kind === 'number') {
+      return { type: 'number', value: token.value };
+    }
+
+    if (token.kind === 'op' && token.value === '(') {
+      const inner = this.parseOr();
+      this.expectOp(')');
+      return inner;
+    }
+
+    if (token.kind === 'ident') {
+      if (this.matchOp('(')) {
+        return this.parseCall(token.value, token.pos);
+      }
+      if (!VARIABLES.has(token.value)) {
+        throw new RuleSyntaxError(`Unknown field '${token.value}'. Known fields: ${listRuleFields().join(', ')}`);
+      }
+      return { type: 'var', name: token.value };
+    }
+
+    throw new RuleSyntaxError(`Unexpected ${this.describe(token)} at position ${token.pos + 1}`);
+  }
+
+  private parseCall(name: string, pos: number): RuleNode {
+    const spec = FUNCTIONS.get(name);
+    if (!spec) {
+      throw new RuleSyntaxError(`Unknown function '${name}' at position ${pos + 1}`);
+    }
+
+    const args: RuleNode[] = [];
+    if (!this.matchOp(')')) {
+      do {
+        args.push(this.parseOr());
+      } while (this.matchOp(','));
+      this.expectOp(')');
+    }
+
+    if (args.length !== spec.arity) {
+      throw new RuleSyntaxError(`${name}() takes ${spec.arity} argument${spec.arity === 1 ? '' : 's'}`);
+    }
+
+    if (spec.window) {
+      const hours = args[0]!;
+      if (hours.type !== 'number' || hours.value < 1 || hours.value > MAX_WINDOW_HOURS) {
+        throw new RuleSyntaxError(`${name}() needs a window in hours between 1 and ${MAX_WINDOW_HOURS}`);
+      }
+    }
+
+    return { type: 'call', name, args };
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index]!;
+  }
+
+  private next(): Token {
+    const token = this.tokens[this.index]!;
+    if (token.kind !== 'eof') this.index++;
+    return token;
+  }
+
+  private matchOp(value: string): boolean {
+    const token = this.peek();
+    if (token.kind === 'op' && token.value === value) {
+      this.index++;
+      return true;
+    }
+    return false;
+  }
+
+  private expectOp(value: string): void {
+    if (!this.matchOp(value)) {
+      const token = this.peek();
+      throw new RuleSyntaxError(`Expected '${value}' but found ${this.describe(token)} at position ${token.pos + 1}`);
+    }
+  }
+
+  private describe(token: Token): string {
+    return token.kind === 'eof' ? 'end of rule' : `'${token.value}'`;
+  }
+}
+
+export function parseRule(source: string): RuleNode {
+  const trimmed = source.trim();
+  if (!trimmed) {
+    throw new RuleSyntaxError('Rule is empty');
+  }
+  if (trimmed.length > MAX_RULE_LENGTH) {
+    throw new RuleSyntaxError(`Rule is longer than ${MAX_RULE_LENGTH} characters`);
+  }
+  return new Parser(tokenize(trimmed)).parse();
+}
+
+export function usesWindow(node: RuleNode): boolean {
+  switch (node.type) {
+    case 'call':
+      return FUNCTIONS.get(node.name)!.window || node.args.some(usesWindow);
+    case 'not':
+    case 'neg':
+      return usesWindow(node.operand);
+    case 'binary':
+      return usesWindow(node.left) || usesWindow(node.right);
+    default:
+      return false;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Evaluation
+
+// null is an unknown condition: a comparison that touched missing data
+type RuleValue = number | boolean | null;
+
+function toNumber(value: RuleValue): number {
+  return value === null ? NaN : typeof value === 'boolean' ? (value ? 1 : 0) : value;
+}
+
+// Conditions only; the parser rejects bare numbers wherever one is expected
+function toCondition(value: RuleValue): boolean | null {
+  return typeof value === 'number' ? null : value;
+}
+
+function evaluateNode(node: RuleNode, env: RuleEnvironment): RuleValue {
+  switch (node.type) {
+    case 'number':
+      return node.value;
+    case 'var': {
+      const value = VARIABLES.get(node.name)!(env);
+      return typeof value === 'number' && isFinite(value) ? value : NaN;
+    }
+    case 'call':
+      return FUNCTIONS.get(node.name)!.apply(node.args.map(arg => toNumber(evaluateNode(arg, env))), env);
+    case 'not': {
+      const operand = toCondition(evaluateNode(node.operand, env));
+      return operand === null ? null : !operand;
+    }
+    case 'neg':
+      return -toNumber(evaluateNode(node.operand, env));
+    case 'binary': {
+      // Three-valued: a known false decides AND, a known true decides OR, otherwise unknown wins
+      if (node.op === 'AND') {
+        const left = toCondition(evaluateNode(node.left, env));
+        const right = toCondition(evaluateNode(node.right, env));
+        return left === false || right === false ? false : left === null || right === null ? null : true;
+      }
+      if (node.op === 'OR') {
+        const left = toCondition(evaluateNode(node.left, env));
+        const right = toCondition(evaluateNode(node.right, env));
+        return left === true || right === true ? true : left === null || right === null ? null : false;
+      }
+
+      const left = toNumber(evaluateNode(node.left, env));
+      const right = toNumber(evaluateNode(node.right, env));
+      switch (node.op) {
+        case '+': return left + right;
+        case '-': return left - right;
+        case '*': return left * right;
+        case '/': return right === 0 ? NaN : left / right;
+      }
+      if (isNaN(left) || isNaN(right)) {
+        return null;
+      }
+      switch (node.op) {
+        case '>': return left > right;
+        case '>=': return left >= right;
+        case '<': return left < right;
+        case '<=': return left <= right;
+        case '==': return left === right;
+        case '!=': return left !== right;
+      }
+      return null;
+    }
+  }
+}
+
+export function evaluateRule(node: RuleNode, env: RuleEnvironment): boolean {
+  return toCondition(evaluateNode(node, env)) === true;
+}
+
+export function listRuleFields(): string[] {
+  return Array.from(VARIABLES.keys());
+}
+
+export function listRuleFunctions(): string[] {
+  return Array.from(FUNCTIONS.keys());
+}
@@ -0,0 +1,225 @@
+import { InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
+import { Formatters } from '../utils/formatters';
+import { CoinData, LongStateData } from '../types/database';
+
+export type WatchlistSort = 'change' | 'retrace' | 'volume' | 'mcap';
+
+export interface WatchlistView {
+  page: number;
+  sort: WatchlistSort;
+  // 'all', a trigger kind, or 'rule' for coins with an enabled composite rule
+  filter: string;
+}
+
+export interface WatchlistCoin {
+  coinId: number;
+  symbol: string;
+  price?: number | undefined;
+  marketCap?: number | undefined;
+  volume24h?: number | undefined;
+  priceChange24h?: number | undefined;
+  // Percent below the 72h high, negative or zero
+  retraceFrom72h?: number | undefined;
+  enabledTriggers: string[];
+}
+
+export type WatchlistAction =
+  | { type: 'list'; view: WatchlistView }
+  | { type: 'coin'; coinId: number; view: WatchlistView };
+
+export const WATCHLIST_PAGE_SIZE = 10;
+export const DEFAULT_WATCHLIST_VIEW: WatchlistView = { page: 0, sort: 'change', filter: 'all' };
+export const WATCHLIST_ACTION_PATTERN = /^wl:/;
+
+const SORT_CODES: Record<WatchlistSort, string> = {
+  change: 'chg',
+  retrace: 'rtr',
+  volume: 'vol',
+  mcap: 'mc'
+};
+const SORT_LABELS: Record<WatchlistSort, string> = {
+  change: '24h change',
+  retrace: 'retrace',
+  volume: 'volume',
+  mcap: 'market cap'
+};
+
+function encodeView(view: WatchlistView): string {
+  return `${view.page}:${SORT_CODES[view.sort]}:${view.filter}`;
+}
+
+export function encodeWatchlistAction(action: WatchlistAction): string {
+  return action.type === 'list'
+    ? `wl:l:${encodeView(action.view)}`
+    : `wl:c:${action.coinId}:${encodeView(action.view)}`;
+}
+
+/**
+ * Parses watchlist button data; null for anything malformed.
+ */
+export function decodeWatchlistAction(data: string): WatchlistAction | null {
+  const parts = data.split(':');
+  if (parts[0] !== 'wl') {
+    return null;
+  }
+
+  const [coinId, ...viewParts] = parts[1] === 'c' ? parts.slice(2) : [undefined, ...parts.slice(2)];
+  const [page, sortCode, filter] = viewParts;
+  const sort = (Object.keys(SORT_CODES) as WatchlistSort[]).find(key => SORT_CODES[key] === sortCode);
+  if (!page || !/^\d+$/.test(page) || !sort || !filter || viewParts.length !== 3) {
+    return null;
+  }
+
+  const view = { page: parseInt(page, 10), sort, filter };
+  if (parts[1] === 'l') {
+    return { type: 'list', view };
+  }
+  if (parts[1] === 'c' && coinId && /^\d+$/.test(coinId)) {
+    return { type: 'coin', coinId: parseInt(coinId, 10), view };
+  }
+  return null;
+}
+
+/**
+ * Best first: biggest gainers, deepest retraces, highest volume or market cap.
+ * Coins without data yet go last.
+ */
+export function sortWatchlist(coins: WatchlistCoin[], sort: WatchlistSort): WatchlistCoin[] {
+  const value = (coin: WatchlistCoin): number | undefined => {
+    switch (sort) {
+      case 'change':
+        return coin.priceChange24h;
+      case 'retrace':
+        return coin.retraceFrom72h === undefined ? undefined : -coin.retraceFrom72h;
+      case 'volume':
+        return coin.volume24h;
+      case 'mcap':
+        return coin.marketCap;
+    }
+  };
+
+  return [...coins].sort((a, b) => {
+    const va = value(a);
+    const vb = value(b);
+    if (va === undefined || vb === undefined) {
+      return va === undefined ? (vb === undefined ? a.symbol.localeCompare(b.symbol) : 1) : -1;
+    }
+    return vb - va;
+  });
+}
+
+export function filterWatchlist(coins: WatchlistCoin[], filter: string): WatchlistCoin[] {
+  return filter === 'all' ? coins : coins.filter(coin => coin.enabledTriggers.includes(filter));
+}
+
+/**
+ * Filters offered on the keyboard: 'all', then every trigger enabled on at least one coin.
+ */
+export function getWatchlistFilters(coins: WatchlistCoin[]): string[] {
+  return ['all', ...Array.from(new Set(coins.flatMap(coin => coin.enabledTriggers))).sort()];
+}
+
+export function buildWatchlistPage(coins: WatchlistCoin[], view: WatchlistView): { text: string; keyboard: InlineKeyboardMarkup } {
+  const matching = sortWatchlist(filterWatchlist(coins, view.filter), view.sort);
+  const pageCount = Math.max(1, Math.ceil(matching.length / WATCHLIST_PAGE_SIZE));
+  // Coins may have been removed since the keyboard was sent
+  const page = Math.min(view.page, pageCount - 1);
+  const offset = page * WATCHLIST_PAGE_SIZE;
+  const pageCoins = matching.slice(offset, offset + WATCHLIST_PAGE_SIZE);
+  const current = { ...view, page };
+
+  let text = `📋 *Watchlist* (${matching.length} coin${matching.length === 1 ? '' : 's'}`;
+  text += view.filter === 'all' ? '' : ` with ${view.filter} on`;
+  text += `, by ${SORT_LABELS[view.sort]})\nPage ${page + 1}/${pageCount}\n\n`;
+  if (pageCoins.length === 0) {
+    text += 'No coins match this filter.';
+  }
+  pageCoins.forEach((coin, index) => {
+    text += `${offset + index + 1}. *${coin.symbol}* ${formatCoinSummary(coin)}\n`;
+  });
+
+  const button = (label: string, action: WatchlistAction) => ({ text: label, callback_data: encodeWatchlistAction(action) });
+  const rows = [];
+  for (let i = 0; i < pageCoins.length; i += 2) {
+    rows.push(pageCoins.slice(i, i + 2).map((coin, j) =>
+      button(`${offset + i + j + 1}. ${coin.symbol}`, { type: 'coin', coinId: coin.coinId, view: current })
+    ));
+  }
+
+  const nav = [];
+  if (page > 0) {
+    nav.push(button('◀️ Prev', { type: 'list', view: { ...current, page: page - 1 } }));
+  }
+  if (page < pageCount - 1) {
+    nav.push(button('Next ▶️', { type: 'list', view: { ...current, page: page + 1 } }));
+  }
+  if (nav.length > 0) {
+    rows.push(nav);
+  }
+
+  // Changing the sort or filter starts over at the first page
+  rows.push((Object.keys(SORT_LABELS) as WatchlistSort[]).map(sort =>
+    button(`${sort === view.sort ? '• ' : ''}${SORT_LABELS[sort]}`, { type: 'list', view: { page: 0, sort, filter: view.filter } })
+  ));
+  const filters = getWatchlistFilters(coins);
+  const nextFilter = filters[(filters.indexOf(view.filter) + 1) % filters.length] ?? 'all';
+  rows.push([button(`🔎 Triggers: ${view.filter} ➜ ${nextFilter}`, { type: 'list', view: { page: 0, sort: view.sort, filter: nextFilter } })]);
+
+  return { text: text.trimEnd(), keyboard: { inline_keyboard: rows } };
+}
+
+/**
+ * Detail card for a coin opened from the watchlist, with a button back to the same page.
+ */
+export function buildCoinCard(
+  coin: CoinData,
+  state: LongStateData | undefined,
+  enabledTriggers: string[],
+  alerts: Array<{ kind: string; message: string; timestamp: number }>,
+  view: WatchlistView,
+  timezone: string
+): { text: string; keyboard: InlineKeyboardMarkup } {
+  let text = `🪙 *${coin.symbol}*${coin.name && coin.name !== coin.symbol ? ` (${coin.name})` : ''}\n`;
+  text += `\`${coin.tokenAddress}\`\n\n`;
+
+  if (!state) {
+    text += 'No price data yet.\n';
+  } else {
+    if (state.lastPrice !== undefined) text += `Price: $${Formatters.formatPrice(state.lastPrice)}\n`;
+    if (state.priceChange24h !== undefined) text += `24h Change: ${Formatters.formatPriceChange(state.priceChange24h)}\n`;
+    if (state.lastMcap !== undefined) text += `Market Cap: ${Formatters.formatMarketCap(state.lastMcap)}\n`;
+    if (state.v24Sum !== undefined) text += `24h Volume: ${Formatters.formatVolume(state.v24Sum)}\n`;
+    for (const [label, high, low] of [['12h', state.h12High, state.h12Low], ['24h', state.h24High, state.h24Low], ['72h', state.h72High, state.h72Low]] as const) {
+      if (high !== undefined && low !== undefined) {
+        text += `${label} Range: $${Formatters.formatPrice(low)} - $${Formatters.formatPrice(high)}\n`;
+      }
+    }
+    text += `Updated ${Formatters.formatDuration(Date.now() - state.lastUpdatedUtc * 1000)} ago\n`;
+  }
+  text += `Triggers: ${enabledTriggers.length > 0 ? enabledTriggers.join(', ') : 'none'}\n\n`;
+
+  text += '🔔 *Recent alerts*\n';
+  if (alerts.length === 0) {
+    text += 'None yet';
+  }
+  for (const alert of alerts) {
+    text += `• ${Formatters.formatTimestamp(alert.timestamp, timezone)} ${alert.kind}: ${alert.message}\n`;
+  }
+
+  return {
+    text: text.trimEnd(),
+    keyboard: {
+      inline_keyboard: [[{ text: '◀️ Back to watchlist', callback_data: encodeWatchlistAction({ type: 'list', view }) }]]
+    }
+  };
+}
+
+function formatCoinSummary(coin: WatchlistCoin): string {
+  const parts = [];
+  if (coin.price !== undefined) parts.push(`$${Formatters.formatPrice(coin.price)}`);
+  if (coin.priceChange24h !== undefined) parts.push(Formatters.formatPriceChange(coin.priceChange24h));
+  if (coin.retraceFrom72h !== undefined) parts.push(`72h ${coin.retraceFrom72h.toFixed(1)}%`);
+  if (coin.volume24h !== undefined) parts.push(`Vol ${Formatters.formatVolume(coin.volume24h)}`);
+  if (coin.marketCap !== undefined) parts.push(`MC ${Formatters.formatMarketCap(coin.marketCap)}`);
+  return parts.length > 0 ? parts.join(' · ') : 'no data yet';
+}
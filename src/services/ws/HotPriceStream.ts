@@ -0,0 +1,203 @@
+import { SubscriptionRegistry } from './SubscriptionRegistry';
+import { FetchedTx, TransactionFetcher } from './TransactionFetcher';
+import { WsEvent } from './WebSocketConnection';
+import { logger } from '../../utils/logger';
+
+const WRAPPED_SOL_MINT = 'So11111111111111111111111111111111111111112';
+const LAMPORTS_PER_SOL = 1_000_000_000;
+// A streamed price this far off the last polled one is a misread swap, not a move
+const MAX_PRICE_RATIO = 10;
+
+export type StreamPool = {
+  tokenAddress: string;
+  pairAddress: string;
+  quoteTokenAddress: string;
+  // USD per quote token, from the last DexScreener poll
+  quoteUsd: number;
+  // Last polled USD price of the token
+  referencePrice: number;
+};
+
+export type StreamPriceUpdate = {
+  tokenAddress: string;
+  price: number;
+  signature: string;
+  slot?: number | undefined;
+};
+
+/**
+ * All account keys of a transaction in index order, including v0 lookup table addresses.
+ */
+export function getAccountKeys(tx: FetchedTx): string[] {
+  const keys: any[] = tx.transaction?.message?.accountKeys || [];
+  const loaded = tx.meta?.loadedAddresses || {};
+  return [
+    ...keys.map((key) => (typeof key === 'string' ? key : key?.pubkey)),
+    ...(loaded.writable || []),
+    ...(loaded.readonly || [])
+  ];
+}
+
+/**
+ * Price of the base token in quote tokens from a swap's balance changes. Looks for the
+ * owner whose base and quote balances moved in opposite directions (the pool's vaults, or
+ * the trader) and divides the two. A native SOL quote also counts lamports, since bonding
+ * curves hold SOL directly. Null for failed transactions and anything that isn't a swap.
+ */
+export function getSwapPrice(tx: FetchedTx, baseMint: string, quoteMint: string): number | null {
+  const meta = tx.meta;
+  if (!meta || meta.err) return null;
+
+  const deltas = new Map<string, { base: number; quote: number; hasQuoteAccount: boolean }>();
+  const delta = (owner: string) => {
+    let entry = deltas.get(owner);
+    if (!entry) {
+      entry = { base: 0, quote: 0, hasQuoteAccount: false };
+      deltas.set(owner, entry);
+    }
+    return entry;
+  };
+
+  const addBalances = (balances: any[] | undefined, sign: number) => {
+    for (const balance of balances || []) {
+      if (balance?.mint !== baseMint && balance?.mint !== quoteMint) continue;
+      const amount = Number(balance.uiTokenAmount?.uiAmountString ?? balance.uiTokenAmount?.uiAmount ?? 0);
+      const entry = delta(balance.owner || `#${balance.accountIndex}`);
+      if (balance.mint === baseMint) {
+        entry.base += sign * amount;
+      } else {
+        entry.quote += sign * amount;
+        entry.hasQuoteAccount = true;
+      }
+    }
+  };
+  addBalances(meta.preTokenBalances, -1);
+  addBalances(meta.postTokenBalances, 1);
+
+  if (quoteMint === WRAPPED_SOL_MINT && Array.isArray(meta.preBalances) && Array.isArray(meta.postBalances)) {
+    const keys = getAccountKeys(tx);
+    for (const [owner, entry] of deltas) {
+      // Owners with a wrapped SOL account already show the quote side
+      const index = keys.indexOf(owner);
+      if (entry.hasQuoteAccount || index < 0) continue;
+      entry.quote += (meta.postBalances[index] - meta.preBalances[index]) / LAMPORTS_PER_SOL;
+    }
+  }
+
+  // The trader's base move matches the pool's, but the trader also pays fees and rent, so ties go to the other side
+  const feePayer = getAccountKeys(tx)[0];
+  let best: { owner: string; base: number; quote: number } | null = null;
+  for (const [owner, entry] of deltas) {
+    if (entry.base === 0 || entry.quote === 0 || Math.sign(entry.base) === Math.sign(entry.quote)) continue;
+    const tie = best !== null && Math.abs(entry.base) === Math.abs(best.base);
+    if (!best || Math.abs(entry.base) > Math.abs(best.base) || (tie && best.owner === feePayer)) {
+      best = { owner, base: entry.base, quote: entry.quote };
+    }
+  }
+  return best ? Math.abs(best.quote / best.base) : null;
+}
+
+/**
+ * Streams hot list prices from pool swaps between DexScreener polls. Every pool gets a logs
+ * subscription; after a swap the stream waits `debounceMs` for more, then prices only the
+ * newest one, so a busy pool costs at most one getTransaction per window.
+ */
+export class HotPriceStream {
+  private registry: SubscriptionRegistry;
+  private fetcher: TransactionFetcher;
+  private debounceMs: number;
+  private onPrice: (update: StreamPriceUpdate) => Promise<unknown>;
+  // Pools to price, by pair address
+  private pools = new Map<string, StreamPool>();
+  // Logs subscription id per pool
+  private subscribed = new Map<string, number>();
+  // Newest swap per pool waiting out the debounce
+  private pending = new Map<string, { signature: string; slot?: number | undefined }>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private inFlight = new Set<string>();
+
+  constructor(params: {
+    registry: SubscriptionRegistry;
+    fetcher: TransactionFetcher;
+    debounceMs: number;
+    onPrice: (update: StreamPriceUpdate) => Promise<unknown>;
+  }) {
+    this.registry = params.registry;
+    this.fetcher = params.fetcher;
+    this.debounceMs = Math.max(0, params.debounceMs);
+    this.onPrice = params.onPrice;
+  }
+
+  /**
+   * Replaces the pools to price, subscribing to new ones and unsubscribing from the rest.
+   */
+  public syncPools(pools: StreamPool[]): void {
+    this.pools = new Map(pools.map((pool) => [pool.pairAddress, pool]));
+    for (const pairAddress of this.pools.keys()) {
+      if (this.subscribed.has(pairAddress)) continue;
+      this.subscribed.set(pairAddress, this.registry.subscribeLogs(pairAddress, (e) => this.handleLog(pairAddress, e)));
+      logger.debug('Hot price stream subscribed', { pairAddress });
+    }
+    for (const [pairAddress, id] of Array.from(this.subscribed.entries())) {
+      if (this.pools.has(pairAddress)) continue;
+      this.registry.unsubscribe(id);
+      this.subscribed.delete(pairAddress);
+      this.pending.delete(pairAddress);
+      logger.debug('Hot price stream unsubscribed', { pairAddress });
+    }
+  }
+
+  public stop(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+    this.pending.clear();
+  }
+
+  private handleLog(pairAddress: string, e: WsEvent): void {
+    const value = e.payload?.value;
+    if (!this.pools.has(pairAddress) || !value?.signature || value.err) return;
+
+    this.pending.set(pairAddress, { signature: value.signature, slot: e.payload?.context?.slot });
+    this.schedule(pairAddress);
+  }
+
+  private schedule(pairAddress: string): void {
+    if (this.timers.has(pairAddress)) return;
+    this.timers.set(pairAddress, setTimeout(() => {
+      this.timers.delete(pairAddress);
+      // Keep updates for one pool in order: wait for the previous one to finish
+      if (this.inFlight.has(pairAddress)) {
+        this.schedule(pairAddress);
+        return;
+      }
+      this.flush(pairAddress).catch((error) => {
+        logger.warn('Hot price stream update failed', { pairAddress, error: (error as Error).message });
+      });
+    }, this.debounceMs));
+  }
+
+  private async flush(pairAddress: string): Promise<void> {
+    const swap = this.pending.get(pairAddress);
+    const pool = this.pools.get(pairAddress);
+    this.pending.delete(pairAddress);
+    if (!swap || !pool) return;
+
+    this.inFlight.add(pairAddress);
+    try {
+      const tx = await this.fetcher.fetch(swap.signature);
+      const nativePrice = tx ? getSwapPrice(tx, pool.tokenAddress, pool.quoteTokenAddress) : null;
+      // Liquidity changes and other non-swaps carry no price
+      if (nativePrice === null) return;
+
+      const price = nativePrice * pool.quoteUsd;
+      if (!(price > 0) || price > pool.referencePrice * MAX_PRICE_RATIO || price < pool.referencePrice / MAX_PRICE_RATIO) {
+        logger.warn('Hot price stream ignored an implausible price', { pairAddress, price, referencePrice: pool.referencePrice, signature: swap.signature });
+        return;
+      }
+
+      await this.onPrice({ tokenAddress: pool.tokenAddress, price, signature: swap.signature, slot: swap.slot });
+    } finally {
+      this.inFlight.delete(pairAddress);
+    }
+  }
+}
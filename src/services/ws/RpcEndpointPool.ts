@@ -0,0 +1,127 @@
+import { logger } from '../../utils/logger';
+
+export type RpcEndpoint = {
+  // Host only, for logs and /health: URLs often carry an API key
+  name: string;
+  httpUrl: string;
+  wsUrl: string;
+};
+
+export type RpcEndpointStatus = {
+  name: string;
+  healthy: boolean;
+  failures: number;
+  lastError?: string | undefined;
+};
+
+// Consecutive failures before an endpoint is skipped
+const MAX_FAILURES = 3;
+// How long a skipped endpoint waits before it is tried again
+const COOLDOWN_MS = 60 * 1000;
+
+const HELIUS_MAINNET_URL = 'https://mainnet.helius-rpc.com/?api-key=';
+
+export function toWebSocketUrl(httpUrl: string): string {
+  return httpUrl.replace(/^http(s?):/i, 'ws$1:');
+}
+
+function endpointName(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url.replace(/\?.*$/, '');
+  }
+}
+
+/**
+ * Endpoints to use, in order: `RPC_ENDPOINTS` (comma-separated HTTP URLs of any standard
+ * Solana JSON-RPC node) with WebSocket URLs from `RPC_WS_ENDPOINTS` at the same position,
+ * or the HTTP URL with a ws(s) scheme. Without `RPC_ENDPOINTS`, Helius mainnet when
+ * `HELIUS_API_KEY` is set. Empty when neither is configured.
+ */
+export function loadRpcEndpoints(env: NodeJS.ProcessEnv = process.env): RpcEndpoint[] {
+  const httpUrls = (env.RPC_ENDPOINTS || '').split(',').map((s) => s.trim()).filter(Boolean);
+  // Positional, so an empty entry keeps the derived URL for that endpoint
+  const wsUrls = (env.RPC_WS_ENDPOINTS || '').split(',').map((s) => s.trim());
+  if (httpUrls.length === 0 && env.HELIUS_API_KEY) {
+    httpUrls.push(`${HELIUS_MAINNET_URL}${env.HELIUS_API_KEY}`);
+  }
+  return httpUrls.map((httpUrl, i) => ({
+    name: endpointName(httpUrl),
+    httpUrl,
+    wsUrl: wsUrls[i] || toWebSocketUrl(httpUrl)
+  }));
+}
+
+/**
+ * Picks the endpoint to use from an ordered list. An endpoint that fails `MAX_FAILURES`
+ * times in a row is skipped for `COOLDOWN_MS`, then tried again; one success clears it.
+ * The first endpoint in configured order that isn't skipped wins, so traffic returns to
+ * the primary once it recovers.
+ */
+export class RpcEndpointPool {
+  private health: Map<RpcEndpoint, { failures: number; downUntil: number; lastError?: string | undefined }>;
+  private active: RpcEndpoint | null = null;
+
+  constructor(private readonly endpoints: RpcEndpoint[], private readonly label: string) {
+    if (endpoints.length === 0) {
+      throw new Error('No RPC endpoints configured');
+    }
+    this.health = new Map(endpoints.map((endpoint) => [endpoint, { failures: 0, downUntil: 0 }]));
+  }
+
+  /**
+   * Endpoints to try, in configured order with skipped ones last (soonest retry first).
+   */
+  ordered(): RpcEndpoint[] {
+    const now = Date.now();
+    const up = this.endpoints.filter((endpoint) => this.health.get(endpoint)!.downUntil <= now);
+    const down = this.endpoints
+      .filter((endpoint) => this.health.get(endpoint)!.downUntil > now)
+      .sort((a, b) => this.health.get(a)!.downUntil - this.health.get(b)!.downUntil);
+    return [...up, ...down];
+  }
+
+  current(): RpcEndpoint {
+    return this.ordered()[0]!;
+  }
+
+  reportSuccess(endpoint: RpcEndpoint): void {
+    const health = this.health.get(endpoint);
+    if (!health) return;
+    health.failures = 0;
+    health.downUntil = 0;
+    if (this.active !== endpoint) {
+      if (this.active) {
+        logger.warn('RPC endpoint switched', { pool: this.label, from: this.active.name, to: endpoint.name });
+      }
+      this.active = endpoint;
+    }
+  }
+
+  reportFailure(endpoint: RpcEndpoint, error: string): void {
+    const health = this.health.get(endpoint);
+    if (!health) return;
+    health.failures++;
+    health.lastError = error;
+    if (health.failures >= MAX_FAILURES) {
+      health.downUntil = Date.now() + COOLDOWN_MS;
+      logger.warn('RPC endpoint marked down', { pool: this.label, endpoint: endpoint.name, failures: health.failures, error });
+    }
+  }
+
+  /**
+   * Endpoint that last served a request successfully; null before the first success.
+   */
+  getActive(): RpcEndpoint | null {
+    return this.active;
+  }
+
+  getStatus(): RpcEndpointStatus[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => {
+      const health = this.health.get(endpoint)!;
+      return { name: endpoint.name, healthy: health.downUntil <= now, failures: health.failures, lastError: health.lastError };
+    });
+  }
+}
@@ -1,4 +1,4 @@
-import { HeliusWebSocketConnection } from './WebSocketConnection';
+import { WebSocketConnection, WsEvent } from './WebSocketConnection';
 
 export type DexProgramConfig = {
   programIds: string[];
@@ -9,12 +9,29 @@ export type TokenProgramConfig = {
   token2022: boolean;
 };
 
+export type SubscriptionStats = {
+  connected: boolean;
+  // Host of the RPC endpoint the connection is on
+  endpoint: string | null;
+  // Program-wide subscriptions from registerAll
+  program: number;
+  // Per-account subscriptions (pools, mints) added at runtime
+  account: number;
+  // Subscriptions the server has acknowledged on the current connection
+  active: number;
+};
+
 export class SubscriptionRegistry {
-  private conn: HeliusWebSocketConnection;
+  private conn: WebSocketConnection;
   private dexCfg: DexProgramConfig;
   private tokCfg: TokenProgramConfig;
+  // Handlers of per-account subscriptions, by subscription id
+  private handlers = new Map<number, (e: WsEvent) => void>();
+  private programIds: number[] = [];
+  // Program of each program-wide logs subscription, by subscription id
+  private logsPrograms = new Map<number, string>();
 
-  constructor(params: { conn: HeliusWebSocketConnection; dexCfg: DexProgramConfig; tokCfg: TokenProgramConfig }) {
+  constructor(params: { conn: WebSocketConnection; dexCfg: DexProgramConfig; tokCfg: TokenProgramConfig }) {
     this.conn = params.conn;
     this.dexCfg = params.dexCfg;
     this.tokCfg = params.tokCfg;
@@ -23,7 +40,7 @@ export class SubscriptionRegistry {
   public registerAll(): void {
     // logsSubscribe for DEX programs
     for (const pid of this.dexCfg.programIds) {
-      this.conn.addSubscriptionFrame({
+      const id = this.conn.addSubscriptionFrame({
         jsonrpc: '2.0',
         method: 'logsSubscribe',
         params: [
@@ -31,30 +48,101 @@ export class SubscriptionRegistry {
           { commitment: 'confirmed' }
         ]
       });
+      this.programIds.push(id);
+      this.logsPrograms.set(id, pid);
     }
 
     // programSubscribe for Token programs
     if (this.tokCfg.splToken) {
-      this.conn.addSubscriptionFrame({
+      this.programIds.push(this.conn.addSubscriptionFrame({
         jsonrpc: '2.0',
         method: 'programSubscribe',
         params: [
           'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
           { encoding: 'jsonParsed', commitment: 'confirmed' }
         ]
-      });
+      }));
     }
     if (this.tokCfg.token2022) {
-      this.conn.addSubscriptionFrame({
+      this.programIds.push(this.conn.addSubscriptionFrame({
         jsonrpc: '2.0',
         method: 'programSubscribe',
         params: [
           'TokenzQdBNbLqP5VEh9xnFJz5dG27K7ivozsQJ4xxQh',
           { encoding: 'jsonParsed', commitment: 'confirmed' }
         ]
-      });
+      }));
     }
   }
+
+  /**
+   * Subscribes to logs mentioning one account, such as a pool, with its own handler.
+   * The connection re-sends the frame after reconnecting, so the subscription survives it.
+   */
+  public subscribeLogs(address: string, onEvent: (e: WsEvent) => void): number {
+    const id = this.conn.addSubscriptionFrame({
+      jsonrpc: '2.0',
+      method: 'logsSubscribe',
+      params: [
+        { mentions: [address] },
+        { commitment: 'confirmed' }
+      ]
+    });
+    this.handlers.set(id, onEvent);
+    return id;
+  }
+
+  /**
+   * Subscribes to changes of one account, such as a mint or a pool's state, with its own handler.
+   */
+  public subscribeAccount(address: string, onEvent: (e: WsEvent) => void): number {
+    const id = this.conn.addSubscriptionFrame({
+      jsonrpc: '2.0',
+      method: 'accountSubscribe',
+      params: [
+        address,
+        { encoding: 'jsonParsed', commitment: 'confirmed' }
+      ]
+    });
+    this.handlers.set(id, onEvent);
+    return id;
+  }
+
+  /**
+   * Ends a subscription from subscribeLogs or subscribeAccount.
+   */
+  public unsubscribe(id: number): boolean {
+    if (!this.handlers.delete(id)) return false;
+    return this.conn.removeSubscription(id);
+  }
+
+  public getStats(): SubscriptionStats {
+    return {
+      connected: this.conn.isConnected(),
+      endpoint: this.conn.getEndpointName(),
+      program: this.programIds.length,
+      account: this.handlers.size,
+      active: this.conn.getSubscriptionCounts().active
+    };
+  }
+
+  /**
+   * The DEX program whose logs subscription produced an event, if it came from one.
+   */
+  public getLogsProgram(subscriptionId: number | undefined): string | undefined {
+    return subscriptionId === undefined ? undefined : this.logsPrograms.get(subscriptionId);
+  }
+
+  /**
+   * Hands an event to the handler of its subscription. False when it has none, which
+   * leaves the event to the program-wide ingest.
+   */
+  public dispatch(e: WsEvent): boolean {
+    const handler = e.subscriptionId === undefined ? undefined : this.handlers.get(e.subscriptionId);
+    if (!handler) return false;
+    handler(e);
+    return true;
+  }
 }
 
 
@@ -1,4 +1,5 @@
 import axios from 'axios';
+import { RpcEndpointPool } from './RpcEndpointPool';
 import { logger } from '../../utils/logger';
 
 export type FetchedTx = {
@@ -10,14 +11,21 @@ export type FetchedTx = {
   transaction?: any;
 };
 
+export type SignatureInfo = {
+  signature: string;
+  slot: number;
+  err: unknown;
+  blockTime?: number | null;
+};
+
 export class TransactionFetcher {
-  private rpcUrl: string;
+  private pool: RpcEndpointPool;
   private concurrency: number;
   private inFlight = 0;
   private queue: Array<{ sig: string; resolve: (r: FetchedTx | null) => void; reject: (e: unknown) => void }> = [];
 
-  constructor(params: { apiKey: string; concurrency?: number }) {
-    this.rpcUrl = `https://mainnet.helius-rpc.com/?api-key=${params.apiKey}`;
+  constructor(params: { pool: RpcEndpointPool; concurrency?: number }) {
+    this.pool = params.pool;
     this.concurrency = Math.max(1, params.concurrency || 2);
   }
 
@@ -42,17 +50,29 @@ export class TransactionFetcher {
     }
   }
 
+  /**
+   * Current slot at `confirmed` commitment.
+   */
+  public async getSlot(): Promise<number> {
+    return this.call('getSlot', [{ commitment: 'confirmed' }]);
+  }
+
+  /**
+   * One page of signatures mentioning `address`, newest first, starting below `before` and
+   * stopping above `until`.
+   */
+  public async getSignaturesForAddress(address: string, options: { before?: string | undefined; until?: string | undefined; limit: number }): Promise<SignatureInfo[]> {
+    const config: Record<string, unknown> = { commitment: 'confirmed', limit: options.limit };
+    if (options.before) config.before = options.before;
+    if (options.until) config.until = options.until;
+    return (await this.call('getSignaturesForAddress', [address, config])) || [];
+  }
+
   private async fetchOnce(signature: string): Promise<FetchedTx | null> {
     try {
-      const body = {
-        jsonrpc: '2.0',
-        id: 1,
-        method: 'getTransaction',
-        params: [signature, { commitment: 'confirmed', maxSupportedTransactionVersion: 0 }]
-      };
-      const { data } = await axios.post(this.rpcUrl, body, { timeout: 10000 });
-      if (!data?.result) return null;
-      const r = data.result;
+      // jsonParsed: the mint heuristics read parsed token and system instructions
+      const r = await this.call('getTransaction', [signature, { encoding: 'jsonParsed', commitment: 'confirmed', maxSupportedTransactionVersion: 0 }]);
+      if (!r) return null;
       return {
         signature,
         blockTime: r.blockTime,
@@ -66,6 +86,31 @@ export class TransactionFetcher {
       return null;
     }
   }
-}
-
 
+  /**
+   * Tries the pool's endpoints in order until one answers. Transport failures (network,
+   * timeouts, HTTP errors such as 429) count against the endpoint and move on to the next;
+   * a JSON-RPC error is an answer and is thrown.
+   */
+  private async call(method: string, params: unknown[]): Promise<any> {
+    const body = { jsonrpc: '2.0', id: 1, method, params };
+    let lastError = 'no endpoints';
+    for (const endpoint of this.pool.ordered()) {
+      let data: any;
+      try {
+        ({ data } = await axios.post(endpoint.httpUrl, body, { timeout: 10000 }));
+      } catch (e) {
+        lastError = (e as Error).message;
+        this.pool.reportFailure(endpoint, lastError);
+        logger.warn('RPC request failed', { method, endpoint: endpoint.name, error: lastError });
+        continue;
+      }
+      this.pool.reportSuccess(endpoint);
+      if (data?.error) {
+        throw new Error(`${method}: ${data.error.message || 'RPC error'}`);
+      }
+      return data?.result ?? null;
+    }
+    throw new Error(`${method}: all RPC endpoints failed (${lastError})`);
+  }
+}
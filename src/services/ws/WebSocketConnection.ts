@@ -1,10 +1,13 @@
 import WebSocket from 'ws';
+import { RpcEndpoint, RpcEndpointPool } from './RpcEndpointPool';
 import { logger } from '../../utils/logger';
 
 export type WsEvent = {
   type: 'log' | 'program-account' | 'other';
   payload: any;
   context?: any;
+  // Id returned by addSubscriptionFrame for the subscription that produced this event
+  subscriptionId?: number | undefined;
 };
 
 export type SendFrame = Record<string, unknown>;
@@ -14,24 +17,41 @@ export type Subscription = {
   frame: SendFrame;
 };
 
-export class HeliusWebSocketConnection {
+/**
+ * JSON-RPC WebSocket connection to whichever endpoint of the pool is healthy. Every drop
+ * counts against the endpoint it was on, so repeated drops move the next reconnect to
+ * the next endpoint; subscriptions are re-sent wherever it lands.
+ */
+export class WebSocketConnection {
   private ws: WebSocket | null = null;
-  private url: string;
+  private pool: RpcEndpointPool;
+  private endpoint: RpcEndpoint | null = null;
   private pingIntervalMs: number;
+  // Last frame or pong from the server; a socket silent for two pings is dropped
+  private lastSeenAt = 0;
   private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
   private reconnectBackoffMs = 1000;
   private subscriptions: Subscription[] = [];
   private nextId = 1;
+  // Server subscription id -> our frame id; the server hands out new ids on every connect
+  private serverIds = new Map<number, number>();
+  // Unsubscribe method for frames removed before the server acknowledged them, by frame id
+  private removedBeforeAck = new Map<number, string>();
   private onEvent: (e: WsEvent) => void;
+  // Called when a connection opens after an earlier one dropped
+  private onReconnect: (() => void) | undefined;
+  private hasConnected = false;
 
-  constructor(params: { apiKey: string; pingIntervalMs: number; onEvent: (e: WsEvent) => void }) {
-    this.url = `wss://mainnet.helius-rpc.com/?api-key=${params.apiKey}`;
+  constructor(params: { pool: RpcEndpointPool; pingIntervalMs: number; onEvent: (e: WsEvent) => void; onReconnect?: (() => void) | undefined }) {
+    this.pool = params.pool;
     this.pingIntervalMs = Math.max(30000, params.pingIntervalMs || 55000);
     this.onEvent = params.onEvent;
+    this.onReconnect = params.onReconnect;
   }
 
   public connect(): void {
-    if (this.ws) return;
+    if (this.ws || this.reconnectTimer) return;
     this.open();
   }
 
@@ -44,6 +64,10 @@ export class HeliusWebSocketConnection {
       clearInterval(this.pingTimer);
       this.pingTimer = null;
     }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
   }
 
   public addSubscriptionFrame(frame: SendFrame): number {
@@ -54,30 +78,96 @@ export class HeliusWebSocketConnection {
     return id;
   }
 
+  /**
+   * Drops a subscription so it isn't re-sent on reconnect, and unsubscribes it on the
+   * server when it was acknowledged (`logsSubscribe` -> `logsUnsubscribe` and so on).
+   */
+  public removeSubscription(id: number): boolean {
+    const index = this.subscriptions.findIndex((sub) => sub.id === id);
+    if (index < 0) return false;
+    const [sub] = this.subscriptions.splice(index, 1);
+    const method = String(sub!.frame.method).replace(/Subscribe$/, 'Unsubscribe');
+
+    const serverId = Array.from(this.serverIds.entries()).find(([, localId]) => localId === id)?.[0];
+    if (serverId !== undefined) {
+      this.serverIds.delete(serverId);
+      this.send({ jsonrpc: '2.0', id: this.nextId++, method, params: [serverId] });
+    } else if (this.isConnected()) {
+      this.removedBeforeAck.set(id, method);
+    }
+    return true;
+  }
+
+  public isConnected(): boolean {
+    return this.ws?.readyState === WebSocket.OPEN;
+  }
+
+  /**
+   * Name of the endpoint in use (connected or connecting); null when closed.
+   */
+  public getEndpointName(): string | null {
+    return this.ws ? this.endpoint?.name ?? null : null;
+  }
+
+  /**
+   * Subscriptions we keep, and how many of them the server has acknowledged since connecting.
+   */
+  public getSubscriptionCounts(): { requested: number; active: number } {
+    return { requested: this.subscriptions.length, active: this.serverIds.size };
+  }
+
   private open(): void {
-    const ws = new WebSocket(this.url);
+    const endpoint = this.pool.current();
+    const ws = new WebSocket(endpoint.wsUrl);
     this.ws = ws;
+    this.endpoint = endpoint;
+    let failure = 'connect failed';
 
     ws.on('open', () => {
-      logger.info('Helius WS connected');
-      this.startHeartbeat(ws);
+      logger.info('WS connected', { endpoint: endpoint.name });
+      failure = 'closed';
+      this.pool.reportSuccess(endpoint);
+      this.lastSeenAt = Date.now();
+      this.startHeartbeat(ws, () => { failure = 'no response to pings'; });
       // Re-subscribe
       for (const sub of this.subscriptions) {
         this.safeSend(ws, sub.frame);
       }
       // Reset backoff
       this.reconnectBackoffMs = 1000;
+      if (this.hasConnected) {
+        try { this.onReconnect?.(); } catch (e) {
+          logger.warn('WS reconnect handler failed', { error: (e as Error).message });
+        }
+      }
+      this.hasConnected = true;
+    });
+
+    ws.on('pong', () => {
+      this.lastSeenAt = Date.now();
     });
 
     ws.on('message', (data: Buffer) => {
+      this.lastSeenAt = Date.now();
       try {
         const msg = JSON.parse(data.toString());
+        const subscriptionId = this.serverIds.get(msg?.params?.subscription);
         if (msg?.method === 'logsNotification') {
-          this.onEvent({ type: 'log', payload: msg.params?.result, context: msg.params?.context });
+          this.onEvent({ type: 'log', payload: msg.params?.result, context: msg.params?.context, subscriptionId });
         } else if (msg?.method === 'programNotification' || msg?.method === 'accountNotification') {
-          this.onEvent({ type: 'program-account', payload: msg.params?.result, context: msg.params?.context });
-        } else {
-          // subscription ack or other
+          this.onEvent({ type: 'program-account', payload: msg.params?.result, context: msg.params?.context, subscriptionId });
+        } else if (typeof msg?.id === 'number' && typeof msg.result === 'number') {
+          // Subscription ack: result is the server's id for the frame we sent. A frame removed
+          // before its ack arrived is unsubscribed right away
+          const method = this.removedBeforeAck.get(msg.id);
+          if (method) {
+            this.removedBeforeAck.delete(msg.id);
+            this.send({ jsonrpc: '2.0', id: this.nextId++, method, params: [msg.result] });
+          } else if (this.subscriptions.some((sub) => sub.id === msg.id)) {
+            this.serverIds.set(msg.result, msg.id);
+          }
+        } else if (msg?.error) {
+          logger.warn('WS request failed', { id: msg.id, error: msg.error?.message });
         }
       } catch (e) {
         logger.warn('WS message parse error', { error: (e as Error).message });
@@ -85,24 +175,41 @@ export class HeliusWebSocketConnection {
     });
 
     ws.on('error', (err: Error) => {
-      logger.error('Helius WS error', { error: (err as Error).message });
+      logger.error('WS error', { endpoint: endpoint.name, error: (err as Error).message });
     });
 
     ws.on('close', () => {
-      logger.warn('Helius WS closed, scheduling reconnect');
+      // close() already let go of this socket; don't reconnect after a deliberate close
+      if (this.ws !== ws) return;
       if (this.pingTimer) { clearInterval(this.pingTimer); this.pingTimer = null; }
       this.ws = null;
-      setTimeout(() => this.open(), this.reconnectBackoffMs);
+      this.serverIds.clear();
+      this.removedBeforeAck.clear();
+
+      this.pool.reportFailure(endpoint, failure);
+      const next = this.pool.current();
+      // A different endpoint starts over with a short backoff
+      if (next !== endpoint) this.reconnectBackoffMs = 1000;
+      logger.warn('WS closed, scheduling reconnect', { endpoint: endpoint.name, reason: failure, next: next.name, inMs: this.reconnectBackoffMs });
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        this.open();
+      }, this.reconnectBackoffMs);
       this.reconnectBackoffMs = Math.min(this.reconnectBackoffMs * 2, 30000);
     });
   }
 
-  private startHeartbeat(ws: WebSocket): void {
+  private startHeartbeat(ws: WebSocket, onStale: () => void): void {
     if (this.pingTimer) clearInterval(this.pingTimer);
     this.pingTimer = setInterval(() => {
-      if (ws.readyState === WebSocket.OPEN) {
-        try { ws.ping(); } catch {}
+      if (ws.readyState !== WebSocket.OPEN) return;
+      if (Date.now() - this.lastSeenAt > 2 * this.pingIntervalMs) {
+        logger.warn('WS stale, dropping connection', { endpoint: this.endpoint?.name });
+        onStale();
+        ws.terminate();
+        return;
       }
+      try { ws.ping(); } catch {}
     }, this.pingIntervalMs);
   }
 
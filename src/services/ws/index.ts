@@ -1,37 +1,87 @@
-import { HeliusWebSocketConnection, WsEvent } from './WebSocketConnection';
-import { SubscriptionRegistry } from './SubscriptionRegistry';
+import { WebSocketConnection, WsEvent } from './WebSocketConnection';
+import { SubscriptionRegistry, SubscriptionStats } from './SubscriptionRegistry';
 import { EventDispatcher, CandidateTx } from './EventDispatcher';
-import { TransactionFetcher } from './TransactionFetcher';
+import { SignatureInfo, TransactionFetcher } from './TransactionFetcher';
+import { loadRpcEndpoints, RpcEndpointPool, RpcEndpointStatus } from './RpcEndpointPool';
 import { DatabaseManager } from '../../utils/database';
 import { logger } from '../../utils/logger';
 
+// getSignaturesForAddress page size (the RPC maximum)
+const SIGNATURE_PAGE_SIZE = 1000;
+
+export type GapBackfill = {
+  fromSlot: number;
+  toSlot: number;
+  slots: number;
+  // Signatures of the monitored programs in the gap
+  signatures: number;
+  // Of those, not yet seen live, so fetched and run through the candidate path
+  recovered: number;
+  // MintEvent rows written for recovered signatures
+  stored: number;
+  // The scan hit WS_BACKFILL_MAX_SIGNATURES before reaching fromSlot
+  truncated: boolean;
+  at: number;
+};
+
+export type GapStats = {
+  // Newest slot seen in a program notification; 0 before the first
+  lastSlot: number;
+  gaps: number;
+  recovered: number;
+  stored: number;
+  lastGap: GapBackfill | null;
+};
+
 export class WebSocketIngestService {
-  private conn: HeliusWebSocketConnection | null = null;
+  private conn: WebSocketConnection | null = null;
   private registry: SubscriptionRegistry | null = null;
   private dispatcher: EventDispatcher | null = null;
   private fetcher: TransactionFetcher | null = null;
+  private wsPool: RpcEndpointPool | null = null;
+  private httpPool: RpcEndpointPool | null = null;
   private seen = new Set<string>();
   private cleanupInterval: NodeJS.Timeout | null = null;
   private readonly MAX_SEEN_SIZE = 10000; // Limit seen Set to 10k signatures
+  private programs: string[] = [];
+  private lastSlot = 0;
+  // Newest signature processed live per DEX program; a gap's scan stops there
+  private lastSignatures = new Map<string, { signature: string; slot: number }>();
+  // Waiting on the first live signature per program after a reconnect; a gap's scan starts below it
+  private gapEnds = new Map<string, (signature: string | undefined) => void>();
+  // Backfills run one at a time, in reconnect order
+  private backfill: Promise<void> = Promise.resolve();
+  private maxBackfillSignatures = 2000;
+  private backfillWaitMs = 10000;
+  private backfillConcurrency = 2;
+  private gapStats: GapStats = { lastSlot: 0, gaps: 0, recovered: 0, stored: 0, lastGap: null };
 
   start(): void {
-    const apiKey = process.env.HELIUS_API_KEY;
-    if (!apiKey) {
-      logger.warn('WS ingest disabled: HELIUS_API_KEY not set');
+    const endpoints = loadRpcEndpoints();
+    if (endpoints.length === 0) {
+      logger.warn('WS ingest disabled: set RPC_ENDPOINTS or HELIUS_API_KEY');
       return;
     }
+    // Separate health per transport: a node can serve HTTP fine while its WebSocket drops
+    this.wsPool = new RpcEndpointPool(endpoints, 'ws');
+    this.httpPool = new RpcEndpointPool(endpoints, 'http');
     this.dispatcher = new EventDispatcher((tx) => this.handleCandidate(tx));
-    this.conn = new HeliusWebSocketConnection({
-      apiKey,
+    this.conn = new WebSocketConnection({
+      pool: this.wsPool,
       pingIntervalMs: parseInt(process.env.WS_PING_INTERVAL_MS || '55000'),
-      onEvent: (e) => this.handleEvent(e)
+      onEvent: (e) => this.handleEvent(e),
+      onReconnect: () => this.scheduleGapBackfill()
     });
-    this.fetcher = new TransactionFetcher({ apiKey, concurrency: parseInt(process.env.WS_HTTP_GETTX_CONCURRENCY || '2') });
+    this.backfillConcurrency = Math.max(1, parseInt(process.env.WS_HTTP_GETTX_CONCURRENCY || '2'));
+    this.fetcher = new TransactionFetcher({ pool: this.httpPool, concurrency: this.backfillConcurrency });
 
     const programs = (process.env.WS_LOGS_PROGRAMS || '6EF8rrecthR5Dkzon8Nwu78hRvfCKubJ14M5uBEwF6P')
       .split(',')
       .map((s) => s.trim())
       .filter(Boolean);
+    this.programs = programs;
+    this.maxBackfillSignatures = parseInt(process.env.WS_BACKFILL_MAX_SIGNATURES || '2000');
+    this.backfillWaitMs = parseInt(process.env.WS_BACKFILL_WAIT_MS || '10000');
 
     const monitorSpl = (process.env.WS_MONITOR_SPL_TOKEN || 'true') === 'true';
     const monitor2022 = (process.env.WS_MONITOR_TOKEN_2022 || 'true') === 'true';
@@ -50,7 +100,7 @@ export class WebSocketIngestService {
       this.cleanupSeenSignatures();
     }, 10 * 60 * 1000); // Every 10 minutes
     
-    logger.info('WS ingest started', { programs, monitorSpl, monitor2022 });
+    logger.info('WS ingest started', { endpoints: endpoints.map((endpoint) => endpoint.name), programs, monitorSpl, monitor2022 });
   }
 
   stop(): void {
@@ -61,9 +111,53 @@ export class WebSocketIngestService {
     }
   }
 
+  /**
+   * Null until start() has run with RPC endpoints configured. The hot list price stream adds its
+   * pool subscriptions here, sharing the ingest connection.
+   */
+  getSubscriptionRegistry(): SubscriptionRegistry | null {
+    return this.registry;
+  }
+
+  getSubscriptionStats(): SubscriptionStats | null {
+    return this.registry?.getStats() ?? null;
+  }
+
+  /**
+   * HTTP endpoints of the ingest, for other getTransaction callers to share their health.
+   */
+  getHttpEndpointPool(): RpcEndpointPool | null {
+    return this.httpPool;
+  }
+
+  getRpcStatus(): { ws: RpcEndpointStatus[]; http: RpcEndpointStatus[] } | null {
+    if (!this.wsPool || !this.httpPool) return null;
+    return { ws: this.wsPool.getStatus(), http: this.httpPool.getStatus() };
+  }
+
+  getGapStats(): GapStats {
+    return { ...this.gapStats, lastSlot: this.lastSlot };
+  }
+
+  /**
+   * Resolves once the backfills scheduled so far have finished.
+   */
+  whenBackfilled(): Promise<void> {
+    return this.backfill;
+  }
+
   private handleEvent(e: WsEvent): void {
+    // Per-account subscriptions have their own handlers
+    if (this.registry?.dispatch(e)) return;
     if (!this.dispatcher) return;
-    if (e.type === 'log') this.dispatcher.handleLogEvent({ ...e, ...e.payload });
+    if (e.type === 'log') {
+      const slot = e.payload?.context?.slot;
+      if (typeof slot === 'number' && slot > this.lastSlot) this.lastSlot = slot;
+      const program = this.registry?.getLogsProgram(e.subscriptionId);
+      const signature = e.payload?.value?.signature;
+      if (program && typeof signature === 'string' && typeof slot === 'number') this.recordLiveSignature(program, signature, slot);
+      this.dispatcher.handleLogEvent({ ...e, ...e.payload });
+    }
     else if (e.type === 'program-account') {
       // We do not know which token program sent it; attempt to decide from payload owner if present
       const owner = e?.payload?.value?.account?.owner;
@@ -73,11 +167,14 @@ export class WebSocketIngestService {
     }
   }
 
-  private async handleCandidate(tx: CandidateTx): Promise<void> {
+  /**
+   * Resolves true when a MintEvent row was written.
+   */
+  private async handleCandidate(tx: CandidateTx): Promise<boolean> {
     // Only fetch for logs-based candidates (have real signatures)
-    if (tx.reason !== 'logs:dex') return;
+    if (tx.reason !== 'logs:dex') return false;
     // Deduplicate by signature
-    if (this.seen.has(tx.signature)) return;
+    if (this.seen.has(tx.signature)) return false;
     this.seen.add(tx.signature);
     
     // Prevent unbounded growth - clean up if too large
@@ -88,10 +185,10 @@ export class WebSocketIngestService {
     const prisma = DatabaseManager.getInstance() as any;
 
     // Basic sanity on signature format
-    if (!/^[1-9A-HJ-NP-Za-km-z]{43,88}$/.test(tx.signature)) return;
+    if (!/^[1-9A-HJ-NP-Za-km-z]{43,88}$/.test(tx.signature)) return false;
 
     const info = await this.fetcher!.fetch(tx.signature);
-    if (!info) return;
+    if (!info) return false;
 
     const blockMs = (info.blockTime || 0) * 1000;
 
@@ -118,9 +215,127 @@ export class WebSocketIngestService {
           rawJson: JSON.stringify({ info })
         }
       });
+      return true;
     } catch (e: any) {
       // ignore unique constraint errors
+      return false;
+    }
+  }
+
+  private recordLiveSignature(program: string, signature: string, slot: number): void {
+    const end = this.gapEnds.get(program);
+    if (end) {
+      this.gapEnds.delete(program);
+      end(signature);
+    }
+    const last = this.lastSignatures.get(program);
+    if (!last || slot >= last.slot) this.lastSignatures.set(program, { signature, slot });
+  }
+
+  private scheduleGapBackfill(): void {
+    // Captured now: live notifications on the new connection move lastSlot and lastSignatures on
+    const fromSlot = this.lastSlot;
+    if (fromSlot === 0) return;
+    const until = new Map(Array.from(this.lastSignatures, ([program, last]) => [program, last.signature]));
+
+    // A drop before the previous gap saw live traffic leaves that gap scanning from the newest signature
+    for (const end of this.gapEnds.values()) end(undefined);
+    this.gapEnds.clear();
+    const before = new Map<string, Promise<string | undefined>>();
+    for (const program of this.programs) {
+      before.set(program, new Promise((resolve) => {
+        const timer = setTimeout(() => {
+          this.gapEnds.delete(program);
+          resolve(undefined);
+        }, this.backfillWaitMs);
+        this.gapEnds.set(program, (signature) => {
+          clearTimeout(timer);
+          resolve(signature);
+        });
+      }));
+    }
+
+    this.backfill = this.backfill
+      .then(() => this.backfillGap(fromSlot, before, until))
+      .catch((error) => {
+        logger.error('WS gap backfill failed', { fromSlot, error: (error as Error).message });
+      });
+  }
+
+  /**
+   * Runs signatures of the monitored programs missed while the connection was down through
+   * the candidate path, oldest first. Per program the scan runs from the first signature seen
+   * live after the reconnect (`before`, or the newest if none arrives within WS_BACKFILL_WAIT_MS)
+   * down to the last one processed before the drop (`until`), and never below `fromSlot`.
+   */
+  private async backfillGap(fromSlot: number, before: Map<string, Promise<string | undefined>>, until: Map<string, string>): Promise<void> {
+    const toSlot = await this.fetcher!.getSlot();
+    const missed: SignatureInfo[] = [];
+    let truncated = false;
+    for (const program of this.programs) {
+      const result = await this.collectSignatures(program, fromSlot, await before.get(program), until.get(program));
+      missed.push(...result.signatures);
+      truncated = truncated || result.truncated;
+    }
+    missed.sort((a, b) => a.slot - b.slot);
+
+    const candidates = missed.filter((sig) => !sig.err && !this.seen.has(sig.signature));
+    // A few at a time, so a long gap doesn't queue every getTransaction at once ahead of live traffic
+    let stored = 0;
+    let next = 0;
+    const workers = Array.from({ length: Math.min(this.backfillConcurrency, candidates.length) }, async () => {
+      while (next < candidates.length) {
+        const sig = candidates[next++]!;
+        if (await this.handleCandidate({ signature: sig.signature, slot: sig.slot, reason: 'logs:dex' })) stored++;
+      }
+    });
+    await Promise.all(workers);
+    const gap: GapBackfill = {
+      fromSlot,
+      toSlot,
+      slots: Math.max(0, toSlot - fromSlot),
+      signatures: missed.length,
+      recovered: candidates.length,
+      stored,
+      truncated,
+      at: Date.now()
+    };
+
+    this.gapStats.gaps++;
+    this.gapStats.recovered += gap.recovered;
+    this.gapStats.stored += gap.stored;
+    this.gapStats.lastGap = gap;
+    if (truncated) {
+      logger.warn('WS gap backfill truncated; raise WS_BACKFILL_MAX_SIGNATURES to scan further back', { ...gap });
+    } else {
+      logger.info('WS gap backfill done', { ...gap });
+    }
+  }
+
+  /**
+   * Pages back through `program`'s signatures below `before` until reaching `until`, one
+   * older than `fromSlot`, or `maxBackfillSignatures` scanned.
+   */
+  private async collectSignatures(
+    program: string,
+    fromSlot: number,
+    before: string | undefined,
+    until: string | undefined
+  ): Promise<{ signatures: SignatureInfo[]; truncated: boolean }> {
+    const signatures: SignatureInfo[] = [];
+    let scanned = 0;
+    while (scanned < this.maxBackfillSignatures) {
+      const limit = Math.min(SIGNATURE_PAGE_SIZE, this.maxBackfillSignatures - scanned);
+      const page = await this.fetcher!.getSignaturesForAddress(program, { before, until, limit });
+      scanned += page.length;
+      for (const sig of page) {
+        if (sig.slot < fromSlot) return { signatures, truncated: false };
+        signatures.push(sig);
+      }
+      if (page.length < limit) return { signatures, truncated: false };
+      before = page[page.length - 1]!.signature;
     }
+    return { signatures, truncated: true };
   }
 
   private cleanupSeenSignatures(): void {
@@ -207,7 +422,8 @@ function firstMintHeuristic(instructions: any[], candidateMint: string): { isLau
       }
     }
     const isInit = parsedType === 'initializeMint' || parsedType === 'initializeMint2';
-    if (isInit && Array.isArray(accounts) && accounts[0] === candidateMint) {
+    const initMint = Array.isArray(accounts) ? accounts[0] : ix.parsed?.info?.mint;
+    if (isInit && initMint === candidateMint) {
       const maybeProgram = programIdToInitProgram(pid);
       if (sawCreateForMint && maybeProgram) {
         initProgram = maybeProgram;
@@ -0,0 +1,31 @@
+import { encodeAlertAction, decodeAlertAction, buildAlertKeyboard } from '../services/alertActions';
+import { getHotAlertKind } from '../services/snooze';
+
+describe('Alert actions', () => {
+  it('should round-trip actions, including kinds that contain colons', () => {
+    const actions = [
+      { action: 'snooze' as const, list: 'long' as const, id: 42 },
+      { action: 'mute' as const, list: 'long' as const, id: 42, kind: 'rule:7' },
+      { action: 'mute' as const, list: 'hot' as const, id: 9, kind: 'pct:-20' }
+    ];
+    for (const action of actions) {
+      expect(decodeAlertAction(encodeAlertAction(action))).toEqual(action);
+    }
+  });
+
+  it('should reject malformed callback data', () => {
+    expect(decodeAlertAction('act:nope:l:1')).toBeNull();
+    expect(decodeAlertAction('act:snz:x:1')).toBeNull();
+    expect(decodeAlertAction('act:snz:l:abc')).toBeNull();
+    expect(decodeAlertAction('other:snz:l:1')).toBeNull();
+  });
+
+  it('should keep every button within the callback data limit', () => {
+    const keyboard = buildAlertKeyboard('hot', 123456789, getHotAlertKind('mcap', 1_000_000_000));
+    const buttons = keyboard.inline_keyboard.flat();
+    expect(buttons.every(button => 'callback_data' in button && Buffer.byteLength(button.callback_data) <= 64)).toBe(true);
+    // Promoting to the hot list is only offered on long alerts
+    expect(buttons).toHaveLength(4);
+    expect(buildAlertKeyboard('long', 1, 'retrace').inline_keyboard.flat()).toHaveLength(5);
+  });
+});
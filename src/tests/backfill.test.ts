@@ -0,0 +1,99 @@
+import { BackfillService } from '../services/backfill';
+import { FixtureCandleProvider } from '../services/candles';
+import { DexScreenerService } from '../services/dexscreener';
+import { RollingWindowManager } from '../services/rollingWindow';
+import { Candle } from '../types/candles';
+import { PairInfo } from '../types/dexscreener';
+
+jest.mock('../services/dexscreener');
+jest.mock('../services/rollingWindow');
+jest.mock('../services/jobQueue', () => ({
+  globalJobQueue: { addJob: jest.fn() }
+}));
+
+const mockDexScreener = jest.mocked(new DexScreenerService(200));
+const mockRollingWindow = jest.mocked(new RollingWindowManager());
+
+describe('BackfillService', () => {
+  const chain = 'solana';
+  const tokenAddress = 'So11111111111111111111111111111111111111112';
+  const now = Math.floor(Date.now() / 1000);
+
+  const candles: Candle[] = [
+    { timestamp: now - 3 * 3600, open: 1.0, high: 1.2, low: 0.9, close: 1.1, volume: 5000 },
+    { timestamp: now - 2 * 3600, open: 1.1, high: 1.5, low: 1.0, close: 1.4, volume: 8000 },
+    { timestamp: now - 3600, open: 1.4, high: 1.4, low: 0.8, close: 0.9, volume: 12000 }
+  ];
+
+  const currentPair: PairInfo = {
+    chainId: chain,
+    tokenAddress,
+    symbol: 'TEST',
+    name: 'Test Token',
+    price: 1.0,
+    marketCap: 1000000,
+    volume24h: 25000,
+    priceChange24h: 0,
+    priceChange1h: 0,
+    liquidity: 100000,
+    lastUpdated: Date.now()
+  };
+
+  let provider: FixtureCandleProvider;
+
+  beforeEach(() => {
+    provider = new FixtureCandleProvider();
+    mockRollingWindow.isWarmupComplete.mockResolvedValue(false);
+    mockRollingWindow.addDataPoint.mockResolvedValue();
+    mockDexScreener.getPairInfo.mockResolvedValue(currentPair);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should backfill real candle closes and volumes in order', async () => {
+    provider.setCandles(chain, tokenAddress, [...candles].reverse());
+    const service = new BackfillService(mockDexScreener, mockRollingWindow, provider, { delayBetweenBatches: 0 });
+
+    await service.backfillCoin(1, chain, tokenAddress);
+
+    expect(mockRollingWindow.addDataPoint).toHaveBeenCalledTimes(3);
+    const points = mockRollingWindow.addDataPoint.mock.calls.map(call => call[1]);
+    expect(points.map(p => p.price)).toEqual([1.1, 1.4, 0.9]);
+    // Wicks are kept for the rolling highs and lows
+    expect(points.map(p => [p.high, p.low])).toEqual([[1.2, 0.9], [1.5, 1.0], [1.4, 0.8]]);
+    expect(points.map(p => p.volume)).toEqual([5000, 8000, 12000]);
+    expect(points[1]?.marketCap).toBeCloseTo(1400000);
+  });
+
+  it('should not invent history when the provider has no candles', async () => {
+    const service = new BackfillService(mockDexScreener, mockRollingWindow, provider, { delayBetweenBatches: 0 });
+
+    await service.backfillCoin(1, chain, tokenAddress);
+
+    expect(mockRollingWindow.addDataPoint).not.toHaveBeenCalled();
+  });
+
+  it('should use synthetic history only when explicitly allowed', async () => {
+    const service = new BackfillService(mockDexScreener, mockRollingWindow, provider, {
+      delayBetweenBatches: 0,
+      maxHistoryHours: 4,
+      allowSyntheticFallback: true
+    });
+
+    await service.backfillCoin(1, chain, tokenAddress);
+
+    expect(mockRollingWindow.addDataPoint).toHaveBeenCalledTimes(5);
+  });
+
+  it('should skip coins that are already warm', async () => {
+    provider.setCandles(chain, tokenAddress, candles);
+    mockRollingWindow.isWarmupComplete.mockResolvedValue(true);
+    const service = new BackfillService(mockDexScreener, mockRollingWindow, provider, { delayBetweenBatches: 0 });
+
+    await service.backfillCoin(1, chain, tokenAddress);
+
+    expect(mockRollingWindow.addDataPoint).not.toHaveBeenCalled();
+  });
+});
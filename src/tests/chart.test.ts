@@ -0,0 +1,79 @@
+import { inflateSync } from 'zlib';
+import { getPriceRange, renderPriceChart } from '../services/chart';
+import { encodePng } from '../utils/png';
+
+// Pixel rows of an unfiltered RGB PNG, without the per-row filter byte
+function decodeRows(png: Buffer): { width: number; height: number; pixels: Buffer } {
+  const width = png.readUInt32BE(16);
+  const height = png.readUInt32BE(20);
+  const idatLength = png.readUInt32BE(33);
+  const raw = inflateSync(png.subarray(41, 41 + idatLength));
+  const pixels = Buffer.concat(Array.from({ length: height }, (_, y) => raw.subarray(y * (width * 3 + 1) + 1, (y + 1) * (width * 3 + 1))));
+  return { width, height, pixels };
+}
+
+function hasColor(pixels: Buffer, [r, g, b]: [number, number, number]): boolean {
+  for (let i = 0; i < pixels.length; i += 3) {
+    if (pixels[i] === r && pixels[i + 1] === g && pixels[i + 2] === b) return true;
+  }
+  return false;
+}
+
+describe('Price chart', () => {
+  const points = Array.from({ length: 72 }, (_, i) => ({
+    timestamp: 1_700_000_000 + i * 3600,
+    price: 1 + Math.sin(i / 8) * 0.2,
+    volume: 1000
+  }));
+
+  it('should encode a valid PNG', () => {
+    const png = encodePng(2, 1, new Uint8Array([255, 0, 0, 0, 0, 255]));
+    expect(png.subarray(0, 8)).toEqual(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]));
+    expect(decodeRows(png).pixels).toEqual(Buffer.from([255, 0, 0, 0, 0, 255]));
+    expect(() => encodePng(2, 2, new Uint8Array(3))).toThrow();
+  });
+
+  it('should draw the high, retrace threshold and fire point', () => {
+    const png = renderPriceChart({ points, retraceLevels: [15], fired: { timestamp: 1_700_000_000 + 71 * 3600, price: 0.85 } });
+    const { width, height, pixels } = decodeRows(png!);
+    expect([width, height]).toEqual([640, 320]);
+    expect(hasColor(pixels, [67, 160, 71])).toBe(true);
+    expect(hasColor(pixels, [251, 140, 0])).toBe(true);
+    expect(hasColor(pixels, [229, 57, 53])).toBe(true);
+  });
+
+  it('should take the high and low from candle wicks', () => {
+    const wicks = [
+      { timestamp: 0, price: 1, high: 1.4, low: 0.9, volume: 0 },
+      { timestamp: 3600, price: 1.2, high: 1.25, low: 0.7, volume: 0 },
+      { timestamp: 7200, price: 1.1, volume: 0 }
+    ];
+    expect(getPriceRange(wicks)).toEqual({ high: 1.4, low: 0.7 });
+    expect(getPriceRange(points)).toEqual({ high: Math.max(...points.map(p => p.price)), low: Math.min(...points.map(p => p.price)) });
+  });
+
+  it('should draw the high line at the wick, above every close', () => {
+    const closes = [{ timestamp: 0, price: 1, volume: 0 }, { timestamp: 3600, price: 1.2, volume: 0 }];
+    // Pixels from the top of the high marker down to the top of the price line
+    const gap = (png: Buffer) => {
+      const { width, pixels } = decodeRows(png);
+      const firstRow = ([r, g, b]: number[]) => {
+        for (let i = 0; i < pixels.length; i += 3) {
+          if (pixels[i] === r && pixels[i + 1] === g && pixels[i + 2] === b) return Math.floor(i / 3 / width);
+        }
+        return -1;
+      };
+      return firstRow([30, 136, 229]) - firstRow([67, 160, 71]);
+    };
+    const withWick = renderPriceChart({ points: [{ ...closes[0]!, high: 1.5 }, closes[1]!], retraceLevels: [] });
+    const withoutWick = renderPriceChart({ points: closes, retraceLevels: [] });
+    expect(gap(withWick!)).toBeGreaterThan(100);
+    expect(gap(withoutWick!)).toBeLessThan(10);
+  });
+
+  it('should need at least two points', () => {
+    expect(renderPriceChart({ points: points.slice(0, 1), retraceLevels: [] })).toBeNull();
+    const flat = renderPriceChart({ points: points.slice(0, 2).map(point => ({ ...point, price: 1 })), retraceLevels: [] });
+    expect(flat).not.toBeNull();
+  });
+});
@@ -0,0 +1,30 @@
+import { formatCoinDetails } from '../services/coinDetails';
+
+describe('Coin details', () => {
+  const now = Math.floor(Date.now() / 1000);
+  const details = {
+    coin: { coinId: 1, chain: 'solana', tokenAddress: 'Bonk111', symbol: 'BONK', name: 'Bonk' },
+    pair: null,
+    state: { coinId: 1, h72High: 0.00003, h72Low: 0.00001, v24Sum: 1_500_000, lastUpdatedUtc: now - 120 },
+    triggerStates: [
+      { chatId: '1', coinId: 1, kind: 'retrace', lastFireUtc: now - 3600, lastFirePrice: 0.00002, armed: false, state: {} },
+      { chatId: '1', coinId: 1, kind: 'stall', armed: true, state: {} }
+    ],
+    rules: [],
+    dataPoints: 42,
+    warmupComplete: false,
+    alerts: [],
+    onLongList: true
+  };
+
+  it('should show rolling window stats and trigger fires', () => {
+    const text = formatCoinDetails(details, 'UTC');
+    expect(text).toContain('Live data unavailable');
+    expect(text).toContain('Data points: 42 · Warmup: in progress (72h)');
+    expect(text).toContain('72h: high $0.000030 · low $0.000010');
+    expect(text).toContain('12h: high - · low -');
+    expect(text).toContain('retrace: fired 1h 0m ago at $0.000020 (waiting to re-arm)');
+    expect(text).toContain('stall: never fired\n');
+    expect(text).toContain('Last 0 alerts*\nNone yet');
+  });
+});
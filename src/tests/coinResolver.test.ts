@@ -0,0 +1,49 @@
+import {
+  buildCoinChoiceKeyboard,
+  decodeCoinChoice,
+  encodeCoinChoice,
+  formatCoinChoice,
+  isContractAddress,
+  MAX_COIN_CHOICES
+} from '../services/coinResolver';
+import { parseAlias } from '../utils/validation';
+
+describe('Coin resolver', () => {
+  const bonk = {
+    coinId: 1,
+    chain: 'solana',
+    tokenAddress: 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263',
+    symbol: 'BONK',
+    name: 'Bonk'
+  };
+
+  it('should tell addresses from tickers', () => {
+    expect(isContractAddress(bonk.tokenAddress)).toBe(true);
+    expect(isContractAddress('BONK')).toBe(false);
+    expect(isContractAddress('$WIF')).toBe(false);
+  });
+
+  it('should round-trip button data within the callback limit', () => {
+    const data = encodeCoinChoice('lq3x9k2abcd', 7);
+    expect(Buffer.byteLength(data)).toBeLessThanOrEqual(64);
+    expect(decodeCoinChoice(data)).toEqual({ choiceId: 'lq3x9k2abcd', index: 7 });
+    expect(decodeCoinChoice('pick:abc')).toBeNull();
+    expect(decodeCoinChoice('wl:l:0:chg:all')).toBeNull();
+  });
+
+  it('should label each choice with its name and shortened address', () => {
+    expect(formatCoinChoice(bonk)).toBe('BONK (Bonk) · DezX…B263');
+
+    const coins = Array.from({ length: 12 }, (_, i) => ({ ...bonk, coinId: i, name: 'BONK' }));
+    const keyboard = buildCoinChoiceKeyboard('abc', coins);
+    expect(keyboard.inline_keyboard).toHaveLength(MAX_COIN_CHOICES);
+    expect(keyboard.inline_keyboard[1]?.[0]).toEqual({ text: 'BONK · DezX…B263', callback_data: 'pick:abc:1' });
+  });
+
+  it('should normalise aliases', () => {
+    expect(parseAlias('$wif')).toEqual({ valid: true, alias: 'WIF' });
+    expect(parseAlias('bonk_2')).toEqual({ valid: true, alias: 'BONK_2' });
+    expect(parseAlias('two words').valid).toBe(false);
+    expect(parseAlias(bonk.tokenAddress).valid).toBe(false);
+  });
+});
@@ -0,0 +1,91 @@
+import { DatabaseService } from '../services/database';
+import { createFakePrisma } from './fakePrisma';
+
+const mockPrisma = createFakePrisma({
+  chat: undefined,
+  coin: 'coinId',
+  longWatch: undefined,
+  longSubscription: undefined,
+  longTriggerConfig: undefined,
+  longTriggerState: undefined,
+  longRule: 'ruleId',
+  hotEntry: 'hotId'
+});
+
+jest.mock('../utils/database', () => ({
+  DatabaseManager: { getInstance: () => mockPrisma }
+}));
+
+describe('Long list ownership', () => {
+  const db = new DatabaseService();
+  const retrace = (chatId: string, coinId: number) =>
+    ({ chatId, coinId, kind: 'retrace', enabled: false, configJson: '{}', updatedAtUtc: 0 });
+
+  beforeEach(() => {
+    mockPrisma.reset();
+    // Relation filters the fake doesn't understand
+    mockPrisma.longWatch.findMany = async () => mockPrisma.longWatch.rows
+      .filter(watch => !mockPrisma.longSubscription.rows.some(sub => sub.coinId === watch.coinId));
+    mockPrisma.coin.findFirst = async ({ where }: any) => {
+      const coin = mockPrisma.coin.rows.find(row => row.tokenAddress === where.tokenAddress);
+      const watch = coin && mockPrisma.longWatch.rows.find(row => row.coinId === coin.coinId);
+      return coin ? {
+        ...coin,
+        longWatch: watch ? { ...watch, subscriptions: mockPrisma.longSubscription.rows.filter(sub => sub.coinId === coin.coinId) } : null
+      } : null;
+    };
+  });
+
+  it('should hand unsubscribed coins and ownerless hot entries to the claiming chat', async () => {
+    mockPrisma.longWatch.seed({ coinId: 1 }, { coinId: 2 });
+    mockPrisma.longSubscription.seed({ chatId: 'b', coinId: 2 });
+    mockPrisma.longTriggerConfig.seed(retrace('', 1), retrace('b', 2));
+    mockPrisma.longRule.seed({ chatId: '', coinId: 1, expression: 'retrace(72) > 20%' });
+    mockPrisma.hotEntry.seed({ chatId: null, contractAddress: 'OLD' }, { chatId: 'b', contractAddress: 'NEW' });
+
+    expect(await db.claimUnownedEntries('a', 'private')).toEqual({ longCount: 1, hotCount: 1 });
+
+    expect(mockPrisma.longSubscription.rows).toEqual([
+      { chatId: 'b', coinId: 2 },
+      expect.objectContaining({ chatId: 'a', coinId: 1 })
+    ]);
+    expect(mockPrisma.longTriggerConfig.rows.map(row => [row.chatId, row.coinId])).toEqual([['a', 1], ['b', 2]]);
+    expect(mockPrisma.longRule.rows[0]?.chatId).toBe('a');
+    expect(mockPrisma.hotEntry.rows.map(row => row.chatId)).toEqual(['a', 'b']);
+
+    // Nothing left to claim for a second chat
+    expect(await db.claimUnownedEntries('c', 'group')).toEqual({ longCount: 0, hotCount: 0 });
+  });
+
+  it('should only drop the calling chat\'s subscription and settings', async () => {
+    mockPrisma.coin.seed({ coinId: 1, chain: 'solana', tokenAddress: 'MINT', symbol: 'TEST' });
+    mockPrisma.longWatch.seed({ coinId: 1 });
+    mockPrisma.longSubscription.seed({ chatId: 'a', coinId: 1 }, { chatId: 'b', coinId: 1 });
+    mockPrisma.longTriggerConfig.seed(retrace('a', 1), retrace('b', 1));
+    mockPrisma.longRule.seed({ chatId: 'a', coinId: 1, expression: 'retrace(72) > 20%' });
+
+    expect(await db.removeCoinFromLongList('MINT', 'c')).toBe(false);
+    expect(await db.removeCoinFromLongList('MINT', 'a')).toBe(true);
+
+    expect(mockPrisma.longSubscription.rows).toEqual([{ chatId: 'b', coinId: 1 }]);
+    expect(mockPrisma.longTriggerConfig.rows.map(row => row.chatId)).toEqual(['b']);
+    expect(mockPrisma.longRule.rows).toEqual([]);
+    expect(mockPrisma.longWatch.rows).toHaveLength(1);
+
+    // The last subscriber takes the watch with it
+    expect(await db.removeCoinFromLongList('MINT', 'b')).toBe(true);
+    expect(mockPrisma.longWatch.rows).toEqual([]);
+  });
+
+  it('should keep trigger settings to the chat that changed them', async () => {
+    mockPrisma.longSubscription.findFirst = async ({ where }: any) =>
+      mockPrisma.longSubscription.rows.find(sub => sub.chatId === where.chatId && where.longWatch.coin.tokenAddress === 'MINT') ?? null;
+    mockPrisma.longSubscription.seed({ chatId: 'a', coinId: 1 }, { chatId: 'b', coinId: 1 });
+
+    expect(await db.updateLongTriggerConfig('a', 'MINT', 'retrace', { enabled: false })).toBe(true);
+    expect(await db.updateLongTriggerConfig('c', 'MINT', 'retrace', { enabled: false })).toBe(false);
+
+    expect(await db.getLongTriggerConfigs('b')).toEqual([]);
+    expect((await db.getLongTriggerConfigs('a')).map(config => config.enabled)).toEqual([false]);
+  });
+});
@@ -0,0 +1,134 @@
+type Row = Record<string, any>;
+
+const FILTER_KEYS = ['in', 'not', 'lt', 'lte', 'gt', 'gte'];
+
+// Compound unique keys (`chatId_coinId: { chatId, coinId }`) match like their fields would
+function flattenWhere(where: Row = {}): Row {
+  const flat: Row = {};
+  for (const [key, value] of Object.entries(where)) {
+    if (key.includes('_') && value && typeof value === 'object') {
+      Object.assign(flat, value);
+    } else {
+      flat[key] = value;
+    }
+  }
+  return flat;
+}
+
+// Plain values replace, `{ increment }` adds
+function applyData(row: Row, data: Row): Row {
+  for (const [key, value] of Object.entries(data)) {
+    row[key] = value && typeof value === 'object' && 'increment' in value ? (row[key] ?? 0) + value.increment : value;
+  }
+  return row;
+}
+
+function matchesValue(actual: any, expected: any): boolean {
+  if (expected === null) {
+    return actual === null || actual === undefined;
+  }
+  if (typeof expected === 'object' && Object.keys(expected).every(key => FILTER_KEYS.includes(key))) {
+    // Comparisons never match NULL, as in SQL
+    const compares = ['lt', 'lte', 'gt', 'gte'].some(key => key in expected);
+    if (compares && (actual === null || actual === undefined)) return false;
+    return (expected.in === undefined || expected.in.includes(actual))
+      && (expected.not === undefined || !matchesValue(actual, expected.not))
+      && (expected.lt === undefined || actual < expected.lt)
+      && (expected.lte === undefined || actual <= expected.lte)
+      && (expected.gt === undefined || actual > expected.gt)
+      && (expected.gte === undefined || actual >= expected.gte);
+  }
+  return actual === expected;
+}
+
+/**
+ * One table with the Prisma delegate methods the services call. Relation filters and
+ * `include`s aren't understood; tests override the method that needs them.
+ */
+export class FakeTable {
+  rows: Row[] = [];
+  private nextId = 1;
+
+  // `defaults` stands in for the column defaults the schema would fill on insert
+  constructor(private idField?: string, private defaults: Row = {}) {}
+
+  private matching(where?: Row): Row[] {
+    const flat = flattenWhere(where);
+    return this.rows.filter(row => Object.entries(flat).every(([key, value]) => matchesValue(row[key], value)));
+  }
+
+  seed(...rows: Row[]): void {
+    for (const row of rows) {
+      this.insert(row);
+    }
+  }
+
+  private insert(data: Row): Row {
+    const row = { ...this.defaults, ...data };
+    if (this.idField) {
+      row[this.idField] = row[this.idField] ?? this.nextId;
+      this.nextId = Math.max(this.nextId, row[this.idField]) + 1;
+    }
+    this.rows.push(row);
+    return row;
+  }
+
+  findFirst = async ({ where }: Row = {}) => this.matching(where)[0] ?? null;
+  findUnique = async ({ where }: Row) => this.matching(where)[0] ?? null;
+  findMany = async ({ where }: Row = {}) => this.matching(where);
+  count = async ({ where }: Row = {}) => this.matching(where).length;
+  create = async ({ data }: Row) => this.insert(data);
+
+  update = async ({ where, data }: Row) => {
+    const row = this.matching(where)[0];
+    if (!row) throw new Error('Record to update not found');
+    return applyData(row, data);
+  };
+
+  updateMany = async ({ where, data }: Row) => {
+    const rows = this.matching(where);
+    rows.forEach(row => applyData(row, data));
+    return { count: rows.length };
+  };
+
+  upsert = async ({ where, update, create }: Row) => {
+    const row = this.matching(where)[0];
+    return row ? applyData(row, update) : this.insert(create);
+  };
+
+  delete = async ({ where }: Row) => {
+    const row = this.matching(where)[0];
+    if (!row) throw new Error('Record to delete does not exist');
+    this.rows.splice(this.rows.indexOf(row), 1);
+    return row;
+  };
+
+  deleteMany = async ({ where }: Row = {}) => {
+    const rows = this.matching(where);
+    this.rows = this.rows.filter(row => !rows.includes(row));
+    return { count: rows.length };
+  };
+}
+
+export type FakeTableSpec = string | undefined | { id?: string; defaults?: Row };
+
+/**
+ * An in-memory stand-in for the Prisma client. Tables are keyed by delegate name with
+ * their autoincrement id field, if any, and column defaults; transactions run against the
+ * same tables.
+ */
+export function createFakePrisma<T extends string>(tables: Record<T, FakeTableSpec>): Record<T, FakeTable> & {
+  $transaction: <R>(fn: (tx: any) => Promise<R>) => Promise<R>;
+  reset: () => void;
+} {
+  const client: any = {
+    $transaction: async (fn: (tx: any) => Promise<unknown>) => fn(client),
+    reset: () => {
+      for (const [name, spec] of Object.entries(tables) as [string, FakeTableSpec][]) {
+        client[name] = typeof spec === 'object' ? new FakeTable(spec.id, spec.defaults) : new FakeTable(spec);
+      }
+    }
+  };
+  client.reset();
+  return client;
+}
@@ -0,0 +1,185 @@
+import fs from 'fs';
+import http from 'http';
+import path from 'path';
+import { AddressInfo } from 'net';
+import WebSocket, { WebSocketServer } from 'ws';
+
+export const INGEST_FIXTURE_DIR = path.join(__dirname, 'fixtures', 'ingest');
+
+export type RpcFixture = {
+  // Recorded notification frames; `params.subscription` is filled in on replay
+  notifications: any[];
+  // getTransaction results by signature, recorded with jsonParsed encoding
+  transactions: Record<string, any>;
+};
+
+type FakeSubscription = {
+  socket: WebSocket;
+  method: string;
+  params: any[];
+};
+
+export function loadRpcFixture(name: string): RpcFixture {
+  return JSON.parse(fs.readFileSync(path.join(INGEST_FIXTURE_DIR, `${name}.json`), 'utf8')) as RpcFixture;
+}
+
+/**
+ * Polls until `predicate` holds; rejects after `timeoutMs`.
+ */
+export async function waitFor(predicate: () => boolean, timeoutMs = 5000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!predicate()) {
+    if (Date.now() > deadline) throw new Error('waitFor timed out');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+/**
+ * Local stand-in for a Solana RPC node: JSON-RPC over HTTP for getTransaction, getSlot and
+ * getSignaturesForAddress (all over the loaded transactions), and a WebSocket endpoint
+ * that acks logs/program subscriptions and replays recorded notifications to the
+ * subscriptions they would have reached.
+ */
+export class FakeSolanaRpc {
+  // Signatures asked for over HTTP, in order
+  readonly getTransactionCalls: string[] = [];
+  private transactions = new Map<string, any>();
+  private subscriptions = new Map<number, FakeSubscription>();
+  private nextSubscriptionId = 1;
+
+  private constructor(private readonly server: http.Server, private readonly wss: WebSocketServer) {
+    server.on('request', (req, res) => this.handleHttp(req, res));
+    wss.on('connection', (socket) => {
+      socket.on('message', (data) => this.handleFrame(socket, data.toString()));
+      socket.on('close', () => {
+        for (const [id, sub] of this.subscriptions) {
+          if (sub.socket === socket) this.subscriptions.delete(id);
+        }
+      });
+    });
+  }
+
+  static async start(): Promise<FakeSolanaRpc> {
+    const server = http.createServer();
+    const wss = new WebSocketServer({ server });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return new FakeSolanaRpc(server, wss);
+  }
+
+  get rpcUrl(): string {
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  get wsUrl(): string {
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  get subscriptionCount(): number {
+    return this.subscriptions.size;
+  }
+
+  addTransactions(transactions: Record<string, any>): void {
+    for (const [signature, result] of Object.entries(transactions)) {
+      this.transactions.set(signature, result);
+    }
+  }
+
+  /**
+   * Sends each frame to every subscription it matches: logs notifications to logs
+   * subscriptions whose mentioned address appears in the logs, program notifications to
+   * the subscription for the account's owner. Returns the number of frames delivered.
+   */
+  replay(frames: any[]): number {
+    let delivered = 0;
+    for (const frame of frames) {
+      for (const [id, sub] of this.subscriptions) {
+        if (!this.matches(sub, frame)) continue;
+        sub.socket.send(JSON.stringify({ ...frame, params: { ...frame.params, subscription: id } }));
+        delivered++;
+      }
+    }
+    return delivered;
+  }
+
+  /**
+   * Drops every WebSocket client, as a provider restart or network blip would.
+   */
+  dropConnections(): void {
+    for (const socket of this.wss.clients) socket.terminate();
+  }
+
+  async close(): Promise<void> {
+    this.dropConnections();
+    await new Promise<void>((resolve) => this.wss.close(() => resolve()));
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  private matches(sub: FakeSubscription, frame: any): boolean {
+    const value = frame?.params?.result?.value;
+    if (frame?.method === 'logsNotification' && sub.method === 'logsSubscribe') {
+      const filter = sub.params[0];
+      if (filter === 'all' || filter === 'allWithVotes') return true;
+      const mentions: string[] = filter?.mentions || [];
+      const logs: string[] = value?.logs || [];
+      return mentions.some((address) => logs.some((line) => line.includes(address)));
+    }
+    if (frame?.method === 'programNotification' && sub.method === 'programSubscribe') {
+      return value?.account?.owner === sub.params[0];
+    }
+    return false;
+  }
+
+  private handleFrame(socket: WebSocket, raw: string): void {
+    const msg = JSON.parse(raw);
+    const reply = (body: Record<string, unknown>) => socket.send(JSON.stringify({ jsonrpc: '2.0', id: msg.id, ...body }));
+
+    if (/Subscribe$/.test(msg.method)) {
+      const id = this.nextSubscriptionId++;
+      this.subscriptions.set(id, { socket, method: msg.method, params: msg.params || [] });
+      reply({ result: id });
+    } else if (/Unsubscribe$/.test(msg.method)) {
+      reply({ result: this.subscriptions.delete(msg.params?.[0]) });
+    } else {
+      reply({ error: { code: -32601, message: `Method not found: ${msg.method}` } });
+    }
+  }
+
+  private handleHttp(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', () => {
+      const msg = JSON.parse(body);
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id: msg.id, ...this.call(msg.method, msg.params || []) }));
+    });
+  }
+
+  private call(method: string, params: any[]): Record<string, unknown> {
+    if (method === 'getSlot') {
+      return { result: Math.max(0, ...Array.from(this.transactions.values()).map((tx) => tx.slot || 0)) };
+    }
+    if (method === 'getSignaturesForAddress') {
+      return { result: this.getSignaturesForAddress(params[0], params[1] || {}) };
+    }
+    if (method !== 'getTransaction') {
+      return { error: { code: -32601, message: `Method not found: ${method}` } };
+    }
+    const [signature, config] = params;
+    if (config?.encoding !== 'jsonParsed') {
+      return { error: { code: -32602, message: 'Fixtures are recorded with jsonParsed encoding' } };
+    }
+    this.getTransactionCalls.push(signature);
+    return { result: this.transactions.get(signature) ?? null };
+  }
+
+  // Transactions that mention the address anywhere, newest first
+  private getSignaturesForAddress(address: string, config: { before?: string; until?: string; limit?: number }): any[] {
+    const all = Array.from(this.transactions.entries())
+      .filter(([, tx]) => JSON.stringify(tx).includes(address))
+      .map(([signature, tx]) => ({ signature, slot: tx.slot, err: tx.meta?.err ?? null, blockTime: tx.blockTime ?? null, memo: null, confirmationStatus: 'confirmed' }))
+      .sort((a, b) => b.slot - a.slot);
+    const start = config.before ? all.findIndex((sig) => sig.signature === config.before) + 1 : 0;
+    const until = config.until ? all.findIndex((sig) => sig.signature === config.until) : -1;
+    return all.slice(start, until < 0 ? all.length : until).slice(0, config.limit || 1000);
+  }
+}
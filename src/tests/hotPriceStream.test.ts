@@ -0,0 +1,127 @@
+import { HotPriceStream, getSwapPrice } from '../services/ws/HotPriceStream';
+import { SubscriptionRegistry } from '../services/ws/SubscriptionRegistry';
+import { FetchedTx, TransactionFetcher } from '../services/ws/TransactionFetcher';
+import { WsEvent } from '../services/ws/WebSocketConnection';
+
+const TOKEN = 'TokenMint1111111111111111111111111111111111';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const WSOL = 'So11111111111111111111111111111111111111112';
+
+function balance(accountIndex: number, mint: string, owner: string, amount: number) {
+  return { accountIndex, mint, owner, uiTokenAmount: { uiAmountString: String(amount) } };
+}
+
+describe('Hot price stream', () => {
+  it('should price a pool swap from vault balance changes', () => {
+    // Trader sells 1000 tokens for 50 USDC; the pool pays a fee-adjusted 50
+    const tx: FetchedTx = {
+      signature: 'sig',
+      meta: {
+        err: null,
+        preTokenBalances: [
+          balance(1, TOKEN, 'pool', 100_000), balance(2, USDC, 'pool', 5_000),
+          balance(3, TOKEN, 'trader', 1_000), balance(4, USDC, 'trader', 0)
+        ],
+        postTokenBalances: [
+          balance(1, TOKEN, 'pool', 101_000), balance(2, USDC, 'pool', 4_950),
+          balance(3, TOKEN, 'trader', 0), balance(4, USDC, 'trader', 50)
+        ]
+      }
+    };
+    expect(getSwapPrice(tx, TOKEN, USDC)).toBeCloseTo(0.05);
+  });
+
+  it('should count lamports for bonding curves holding SOL directly', () => {
+    const tx: FetchedTx = {
+      signature: 'sig',
+      transaction: { message: { accountKeys: ['trader', 'curve', 'curveVault', 'traderAta'] } },
+      meta: {
+        err: null,
+        preBalances: [10_000_000_000, 30_000_000_000, 2_039_280, 2_039_280],
+        postBalances: [8_000_000_000, 32_000_000_000, 2_039_280, 2_039_280],
+        preTokenBalances: [balance(2, TOKEN, 'curve', 500_000), balance(3, TOKEN, 'trader', 0)],
+        postTokenBalances: [balance(2, TOKEN, 'curve', 460_000), balance(3, TOKEN, 'trader', 40_000)]
+      }
+    };
+    // 2 SOL for 40,000 tokens
+    expect(getSwapPrice(tx, TOKEN, WSOL)).toBeCloseTo(0.00005);
+  });
+
+  it('should price from the pool when the trader also pays fees and rent', () => {
+    // The trader's token account comes first, so its balance change is seen before the curve's
+    const tx: FetchedTx = {
+      signature: 'sig',
+      transaction: { message: { accountKeys: ['trader', 'traderAta', 'curve', 'curveVault', 'volumeAccumulator'] } },
+      meta: {
+        err: null,
+        // 2 SOL to the curve plus a 5000 lamport fee and rent for the new accumulator account
+        preBalances: [10_000_000_000, 2_039_280, 30_000_000_000, 2_039_280, 0],
+        postBalances: [7_997_955_720, 2_039_280, 32_000_000_000, 2_039_280, 2_039_280],
+        preTokenBalances: [balance(1, TOKEN, 'trader', 1_000), balance(3, TOKEN, 'curve', 500_000)],
+        postTokenBalances: [balance(1, TOKEN, 'trader', 41_000), balance(3, TOKEN, 'curve', 460_000)]
+      }
+    };
+    expect(getSwapPrice(tx, TOKEN, WSOL)).toBeCloseTo(0.00005, 9);
+  });
+
+  it('should ignore failed transactions and non-swaps', () => {
+    const deposit: FetchedTx = {
+      signature: 'sig',
+      meta: {
+        err: null,
+        preTokenBalances: [balance(1, TOKEN, 'pool', 100), balance(2, USDC, 'pool', 5)],
+        postTokenBalances: [balance(1, TOKEN, 'pool', 200), balance(2, USDC, 'pool', 10)]
+      }
+    };
+    expect(getSwapPrice(deposit, TOKEN, USDC)).toBeNull();
+    expect(getSwapPrice({ signature: 'sig', meta: { err: { InstructionError: [0, 'Custom'] } } }, TOKEN, USDC)).toBeNull();
+  });
+
+  it('should price only the newest swap per debounce window', async () => {
+    jest.useFakeTimers();
+    const handlers = new Map<string, (e: WsEvent) => void>();
+    const registry = {
+      subscribeLogs: jest.fn((address: string, onEvent: (e: WsEvent) => void) => {
+        handlers.set(address, onEvent);
+        return handlers.size;
+      }),
+      unsubscribe: jest.fn(() => true)
+    } as unknown as SubscriptionRegistry;
+    const fetcher = {
+      fetch: jest.fn(async (signature: string): Promise<FetchedTx> => ({
+        signature,
+        meta: {
+          err: null,
+          preTokenBalances: [balance(1, TOKEN, 'pool', 1_000), balance(2, USDC, 'pool', 100)],
+          postTokenBalances: [balance(1, TOKEN, 'pool', 900), balance(2, USDC, 'pool', 112)]
+        }
+      }))
+    } as unknown as TransactionFetcher;
+    const onPrice = jest.fn(async () => undefined);
+
+    const stream = new HotPriceStream({ registry, fetcher, debounceMs: 1000, onPrice });
+    const pool = { tokenAddress: TOKEN, pairAddress: 'pool1', quoteTokenAddress: USDC, quoteUsd: 1, referencePrice: 0.1 };
+    stream.syncPools([pool]);
+    stream.syncPools([pool]);
+    expect(registry.subscribeLogs).toHaveBeenCalledTimes(1);
+
+    const log = (signature: string) => handlers.get('pool1')!({ type: 'log', payload: { context: { slot: 1 }, value: { signature, err: null } } });
+    log('first');
+    log('second');
+    await jest.advanceTimersByTimeAsync(1000);
+
+    expect(fetcher.fetch).toHaveBeenCalledTimes(1);
+    expect(fetcher.fetch).toHaveBeenCalledWith('second');
+    expect(onPrice).toHaveBeenCalledWith(expect.objectContaining({ tokenAddress: TOKEN, signature: 'second', slot: 1 }));
+
+    // Pools that left the hot list are unsubscribed and ignored
+    stream.syncPools([]);
+    expect(registry.unsubscribe).toHaveBeenCalledWith(1);
+    log('third');
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(fetcher.fetch).toHaveBeenCalledTimes(1);
+
+    stream.stop();
+    jest.useRealTimers();
+  });
+});
@@ -0,0 +1,285 @@
+import { HotListService, HotListTriggerEvaluator } from '../services/hotlist';
+import { globalAlertBus } from '../events/alertBus';
+import { globalSnoozes } from '../services/snooze';
+import { PairInfo } from '../types/dexscreener';
+import { HotListEntry, HotTrigger } from '../types/hotlist';
+import { createFakePrisma } from './fakePrisma';
+
+const mockPrisma = createFakePrisma({
+  coin: 'coinId',
+  hotEntry: { id: 'hotId', defaults: { isActive: true, failsafeFired: false, failsafeFiredSteps: '' } },
+  hotTriggerState: { defaults: { fireCount: 0, lastFiredUtc: null } }
+});
+
+jest.mock('../utils/database', () => ({
+  DatabaseManager: { getInstance: () => mockPrisma }
+}));
+
+const pair = (price: number, marketCap: number | null = null): PairInfo => ({
+  chainId: 'solana',
+  tokenAddress: 'MINT',
+  symbol: 'TEST',
+  name: 'Test Token',
+  price,
+  marketCap,
+  volume24h: 10000,
+  priceChange24h: 0,
+  priceChange1h: 0,
+  liquidity: null,
+  lastUpdated: Date.now()
+});
+
+const trigger = (kind: HotTrigger['kind'], value: number, overrides: Partial<HotTrigger> = {}): HotTrigger =>
+  ({ kind, value, fired: false, anchorPrice: 1, fireCount: 0, ...overrides });
+
+const entry = (activeTriggers: HotTrigger[], overrides: Partial<HotListEntry> = {}): HotListEntry => ({
+  hotId: 1,
+  contractAddress: 'MINT',
+  chainId: 'solana',
+  symbol: 'TEST',
+  name: 'Test Token',
+  websites: [],
+  socials: [],
+  addedAtUtc: 0,
+  failsafeFired: false,
+  failsafeFiredSteps: [],
+  activeTriggers,
+  ...overrides
+});
+
+describe('Hot list evaluator', () => {
+  const evaluator = new HotListTriggerEvaluator();
+
+  it('should warn on failsafe steps before the last and go critical on the last', () => {
+    const alerts = evaluator.evaluateEntry(entry([trigger('pct', 50)], { failsafeSteps: [30, 60] }), 0.5);
+    expect(alerts.map(alert => [alert.targetValue, alert.severity])).toEqual([[30, 'warn']]);
+
+    // A crash through both steps sends both, the deepest as critical
+    const crash = evaluator.evaluateEntry(entry([trigger('pct', 50)], { failsafeSteps: [60, 30] }), 0.3);
+    expect(crash.map(alert => [alert.targetValue, alert.severity])).toEqual([[30, 'warn'], [60, 'critical']]);
+  });
+
+  it('should not fire failsafe steps that already fired or when the failsafe is off', () => {
+    const fired = entry([trigger('pct', 50)], { failsafeSteps: [30, 60], failsafeFiredSteps: [30] });
+    expect(evaluator.evaluateEntry(fired, 0.5)).toEqual([]);
+    expect(evaluator.evaluateEntry(entry([trigger('pct', 50)], { failsafeSteps: [] }), 0.1)).toEqual([]);
+  });
+
+  it('should measure the failsafe drawdown on the worse of price and market cap', () => {
+    const anchored = entry([trigger('pct', 50, { anchorMcap: 1_000_000 })], { failsafeSteps: [30] });
+    expect(evaluator.evaluateEntry(anchored, 0.9, 600_000).map(alert => alert.targetValue)).toEqual([30]);
+  });
+
+  it('should re-arm a fired trigger once it moves back past its target by the band', () => {
+    // +20% from 1.00 targets 1.20; a 5% band re-arms at 1.14 or lower
+    const up = trigger('pct', 20, { fired: true, rearmBandPct: 5 });
+    expect(evaluator.findRearmedTriggers(entry([up]), 1.15)).toEqual([]);
+    expect(evaluator.findRearmedTriggers(entry([up]), 1.13)).toEqual([up]);
+
+    // -20% targets 0.80 and re-arms at 0.84 or higher
+    const down = trigger('pct', -20, { fired: true, rearmBandPct: 5 });
+    expect(evaluator.findRearmedTriggers(entry([down]), 0.83)).toEqual([]);
+    expect(evaluator.findRearmedTriggers(entry([down]), 0.85)).toEqual([down]);
+
+    // Market cap targets re-arm below the target, and only with a market cap to compare
+    const mcap = trigger('mcap', 1_000_000, { fired: true, rearmBandPct: 10 });
+    expect(evaluator.findRearmedTriggers(entry([mcap]), 1, 950_000)).toEqual([]);
+    expect(evaluator.findRearmedTriggers(entry([mcap]), 1, 900_000)).toEqual([mcap]);
+    expect(evaluator.findRearmedTriggers(entry([mcap]), 1)).toEqual([]);
+  });
+
+  it('should only re-arm fired triggers that have a band', () => {
+    const once = trigger('pct', 20, { fired: true });
+    const armed = trigger('pct', 20, { rearmBandPct: 5 });
+    expect(evaluator.findRearmedTriggers(entry([once, armed]), 1)).toEqual([]);
+  });
+
+  it('should keep entries with re-arming triggers after every trigger fired', () => {
+    expect(evaluator.shouldRemoveEntry(entry([trigger('pct', 20, { fired: true })]))).toBe(true);
+    expect(evaluator.shouldRemoveEntry(entry([trigger('pct', 20, { fired: true }), trigger('mcap', 1_000_000)]))).toBe(false);
+    expect(evaluator.shouldRemoveEntry(entry([trigger('pct', 20, { fired: true, rearmBandPct: 5 })]))).toBe(false);
+  });
+
+  it('should fire a trailing stop on the drop from the peak', () => {
+    const trail = entry([trigger('trail', 20)], { failsafeSteps: [], peakPrice: 2 });
+    expect(evaluator.evaluateEntry(trail, 1.7)).toEqual([]);
+    const [alert] = evaluator.evaluateEntry(trail, 1.5);
+    expect(alert).toMatchObject({ alertType: 'trail', targetValue: 20, message: 'TEST trailing stop: -25.0% from peak $2.0000' });
+
+    // Without a tracked peak the anchor is the peak, and a new high is one
+    expect(evaluator.evaluateEntry(entry([trigger('trail', 20)], { failsafeSteps: [] }), 0.75)).toHaveLength(1);
+    expect(evaluator.evaluateEntry(entry([trigger('trail', 20)], { failsafeSteps: [], peakPrice: 1 }), 3)).toEqual([]);
+  });
+
+  it('should count repeat fires in the alert', () => {
+    const repeat = trigger('pct', 20, { fireCount: 2, rearmBandPct: 5 });
+    expect(evaluator.evaluateEntry(entry([repeat], { failsafeSteps: [] }), 1.25)[0]?.message).toBe('TEST hit +20% target (fire #3)');
+  });
+});
+
+describe('Hot list entries', () => {
+  const db = {
+    getScheduleConfig: jest.fn(),
+    recordHotTriggerAlert: jest.fn()
+  };
+  let price = 1;
+  const dexScreener = {
+    batchGetTokens: jest.fn(async () => new Map([['solana:MINT', pair(price)]])),
+    validatePairData: () => true
+  };
+  let service: HotListService;
+
+  const poll = async (next: number) => {
+    price = next;
+    return service.checkAlerts();
+  };
+
+  beforeEach(() => {
+    mockPrisma.reset();
+    // The service reads entries with their trigger states included
+    const withTriggers = (row: any) => row && { ...row, triggerStates: mockPrisma.hotTriggerState.rows.filter(state => state.hotId === row.hotId) };
+    const { findMany, findUnique } = mockPrisma.hotEntry;
+    mockPrisma.hotEntry.findMany = async (args: any) => (await findMany(args)).map(withTriggers);
+    mockPrisma.hotEntry.findUnique = async (args: any) => withTriggers(await findUnique(args));
+
+    db.getScheduleConfig.mockResolvedValue({ hotFailsafeSteps: [30, 60] });
+    price = 1;
+    service = new HotListService(db as any, dexScreener as any);
+    jest.spyOn(globalAlertBus, 'emitHotAlert').mockResolvedValue();
+    jest.spyOn(globalSnoozes, 'filterRecipients').mockImplementation(async chatIds => chatIds);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should keep one entry per chat for the same token', async () => {
+    await service.addEntry('MINT', pair(1), { pctTargets: [20], chatId: 'a' });
+    await service.addEntry('MINT', pair(1), { pctTargets: [20], chatId: 'b' });
+    await service.addEntry('MINT', pair(1.1), { pctTargets: [-10], chatId: 'a' });
+
+    expect(mockPrisma.hotEntry.rows.map(row => [row.chatId, row.lastPrice])).toEqual([['a', 1.1], ['b', 1]]);
+    expect(mockPrisma.coin.rows).toHaveLength(1);
+    // Chat a's second target joins its own entry
+    expect(mockPrisma.hotTriggerState.rows.map(state => [state.hotId, state.trigValue])).toEqual([[1, 20], [2, 20], [1, -10]]);
+  });
+
+  it('should use per-entry failsafe steps over the global ones, and none when off', async () => {
+    await service.addEntry('MINT', pair(1), { pctTargets: [50] });
+    await service.addEntry('MINT', pair(1), { pctTargets: [50], failsafeSteps: [20], chatId: 'a' });
+    // failsafe=off is stored as '' and parses to no steps
+    await service.addEntry('MINT', pair(1), { pctTargets: [50], failsafeSteps: [], chatId: 'b' });
+    expect(mockPrisma.hotEntry.rows.map(row => row.failsafeSteps)).toEqual([null, '20', '']);
+
+    const alerts = (await poll(0.75)).filter(alert => alert.alertType === 'failsafe');
+    expect(alerts.map(alert => [alert.hotId, alert.targetValue, alert.severity])).toEqual([[2, 20, 'critical']]);
+
+    const deeper = (await poll(0.65)).filter(alert => alert.alertType === 'failsafe');
+    expect(deeper.map(alert => [alert.hotId, alert.targetValue, alert.severity])).toEqual([[1, 30, 'warn']]);
+  });
+
+  it('should fire each failsafe step once', async () => {
+    await service.addEntry('MINT', pair(1), { pctTargets: [50] });
+
+    expect((await poll(0.65)).map(alert => alert.targetValue)).toEqual([30]);
+    expect(await poll(0.6)).toEqual([]);
+    expect((await poll(0.35)).map(alert => [alert.targetValue, alert.severity])).toEqual([[60, 'critical']]);
+    expect(await poll(0.3)).toEqual([]);
+
+    expect(mockPrisma.hotEntry.rows[0]).toMatchObject({ failsafeFiredSteps: '30,60', failsafeFired: true });
+  });
+
+  it('should re-fire a trigger with a band after it re-arms, counting each fire', async () => {
+    await service.addEntry('MINT', pair(1), { pctTargets: [20], rearmBands: { 'pct:20': 5 }, failsafeSteps: [] });
+    const before = Math.floor(Date.now() / 1000);
+
+    expect((await poll(1.25)).map(alert => alert.message)).toEqual(['TEST hit +20% target']);
+    const state = mockPrisma.hotTriggerState.rows[0]!;
+    expect(state).toMatchObject({ fired: true, fireCount: 1 });
+    expect(state.lastFiredUtc).toBeGreaterThanOrEqual(before);
+    // Fired but re-arming, so the entry stays
+    expect(mockPrisma.hotEntry.rows[0]?.isActive).toBe(true);
+
+    expect(await poll(1.16)).toEqual([]);
+    expect(await poll(1.1)).toEqual([]);
+    expect(state.fired).toBe(false);
+
+    expect((await poll(1.3)).map(alert => alert.message)).toEqual(['TEST hit +20% target (fire #2)']);
+    expect(state).toMatchObject({ fired: true, fireCount: 2 });
+  });
+
+  it('should carry the peak across checks for trailing stops', async () => {
+    await service.addEntry('MINT', pair(1), { trailTargets: [20], failsafeSteps: [] });
+
+    expect(await poll(1.5)).toEqual([]);
+    expect(await poll(1.25)).toEqual([]);
+    expect(mockPrisma.hotEntry.rows[0]).toMatchObject({ peakPrice: 1.5, lowPrice: 1, lastPrice: 1.25 });
+
+    // More than 20% below the 1.50 peak, though still above the anchor
+    expect((await poll(1.15)).map(alert => [alert.alertType, alert.targetValue])).toEqual([['trail', 20]]);
+  });
+
+  it('should keep an active entry\'s peak on re-add and start a new one after it ended', async () => {
+    await service.addEntry('MINT', pair(1), { trailTargets: [20], failsafeSteps: [] });
+    await poll(1.5);
+
+    await service.addEntry('MINT', pair(1.3), { trailTargets: [20], failsafeSteps: [] });
+    expect(mockPrisma.hotEntry.rows[0]).toMatchObject({ peakPrice: 1.5, lowPrice: 1 });
+
+    // The stop fires and ends the entry; adding it again starts over from the current price
+    expect(await poll(1.1)).toHaveLength(1);
+    expect(mockPrisma.hotEntry.rows[0]?.isActive).toBe(false);
+    await service.addEntry('MINT', pair(1.1), { trailTargets: [20], failsafeSteps: [] });
+    expect(mockPrisma.hotEntry.rows[0]).toMatchObject({ isActive: true, peakPrice: 1.1, lowPrice: 1.1 });
+    expect(await poll(1)).toEqual([]);
+  });
+
+  it('should expire an entry with a summary of its run', async () => {
+    await service.addEntry('MINT', pair(1), { pctTargets: [20], rearmBands: { 'pct:20': 5 }, failsafeSteps: [30], ttlHours: 2, chatId: 'a' });
+    await poll(1.25);
+    await poll(1.1);
+    await poll(1.5);
+    await poll(0.65);
+    await poll(0.9);
+    expect(await poll(0.9)).toEqual([]);
+
+    const row = mockPrisma.hotEntry.rows[0]!;
+    row.expiresAtUtc = Math.floor(Date.now() / 1000) - 1;
+    row.addedAtUtc = row.expiresAtUtc - 2 * 3600;
+    const [summary, ...rest] = await poll(0.95);
+
+    expect(rest).toEqual([]);
+    expect(summary).toMatchObject({ hotId: 1, chatId: 'a', alertType: 'expired', currentPrice: 0.9 });
+    expect(summary?.deltaFromAnchor).toBeCloseTo(-10);
+    expect(summary?.message.split('\n')).toEqual([
+      'TEST hot entry expired after 2h 0m',
+      'Anchor: $1.0000 → Final: $0.900000 (-10.0%)',
+      'Max gain: +50.0% | Max drawdown: -35.0%',
+      'Fired: +20% (2x), failsafe -30%'
+    ]);
+    expect(row.isActive).toBe(false);
+    expect(db.recordHotTriggerAlert).toHaveBeenCalledWith(1, summary);
+    // Expired entries aren't priced any more
+    expect(await poll(1)).toEqual([]);
+  });
+
+  it('should not report a positive drawdown when the price stayed above the anchor', async () => {
+    await service.addEntry('MINT', pair(1), { pctTargets: [50], failsafeSteps: [] });
+    await service.removeEntry('MINT');
+    // Adding it back starts a new range at 1.20 but keeps the target's anchor at 1.00
+    await service.addEntry('MINT', pair(1.2), { pctTargets: [50], failsafeSteps: [], ttlHours: 1 });
+    await poll(1.3);
+
+    mockPrisma.hotEntry.rows[0]!.expiresAtUtc = 0;
+    const [summary] = await poll(1.3);
+    expect(summary?.message).toContain('Max gain: +30.0% | Max drawdown: +0.0%');
+    expect(summary?.message).toContain('Fired: none');
+  });
+
+  it('should deactivate an entry once its one-shot triggers have fired', async () => {
+    await service.addEntry('MINT', pair(1), { pctTargets: [20], failsafeSteps: [] });
+
+    expect(await poll(1.25)).toHaveLength(1);
+    expect(mockPrisma.hotEntry.rows[0]?.isActive).toBe(false);
+  });
+});
@@ -0,0 +1,165 @@
+import axios from 'axios';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { registerHeliusWebhookRoutes } from '../services/heliusWebhook';
+import { WebSocketIngestService } from '../services/ws';
+import { FakeSolanaRpc, loadRpcFixture, waitFor } from './fakeSolanaRpc';
+import webhookEvents from './fixtures/ingest/webhooks.json';
+
+const mockRows: any[] = [];
+const mockCreate = jest.fn(async ({ data }: { data: any }) => {
+  // Mirrors the unique indexes on tx_signature and first_mint_key
+  const clash = mockRows.some((row) => row.txSignature === data.txSignature || (data.firstMintKey !== null && row.firstMintKey === data.firstMintKey));
+  if (clash) throw Object.assign(new Error('Unique constraint failed'), { code: 'P2002' });
+  mockRows.push(data);
+  return data;
+});
+
+jest.mock('../utils/database', () => ({
+  DatabaseManager: { getInstance: () => ({ mintEvent: { create: mockCreate } }) }
+}));
+
+const MINT_SPL = 'rKzv62eLURaP9oDJV1FgWz276nYT2ZhoUPr4Es3epump';
+const MINT_2022 = 'gEpQdqxQdKjMd6uXCnXesVkiBCtCbMkuaDe867U3pump';
+const SIG_LAUNCH_SPL = 'UMqgFbewUjQbiFpcpLWyjh9PRrLv3YSPoEqibBEMTU43MpUXuBeTQGM3jKVuCSuQdY2bzghUufCVDjrU5Wv1ShRH';
+const SIG_LAUNCH_2022 = '4p3TRPpjnjxJoBAf5qetZWbq85UXkAitL8g2qafEbiDwPsLJnKUYbsbKNp2FsjdszcA5mr9j8mLH8ue6v6s3oXh3';
+const SIG_BUY = 'ZHJbdThi1yDpjok5ju9CvEY4pjzAH1ftRq3dqdTt3h29As1PieZczT1wY6WMKjng3vBELtvs8AB9uej8gvUqZDtB';
+const SIG_REMINT = 'akbiefztEv5Jjf7uentvq98ZUP5EkZRNrt7nGAQhyUWEBccsGN3de7r9pxA5cQh3q3Vu4ByHPpEWnrkNL6tUXss7';
+const MINT_WEBHOOK = 'zFe6zZBFDUm8b6Vdj4XJ5Ru7atxzF3NtCboR4npaHBEN';
+const MINT_WEBHOOK_2022 = 'Ax9rbBuzQpnXBroS23DzbUFdEPAW2excfoXDFtuqbuVq';
+
+describe('Mint ingest end to end', () => {
+  const env = { ...process.env };
+
+  beforeEach(() => {
+    mockRows.length = 0;
+    mockCreate.mockClear();
+  });
+
+  afterEach(() => {
+    process.env = { ...env };
+  });
+
+  it('should store mint events from replayed WebSocket notifications', async () => {
+    const rpc = await FakeSolanaRpc.start();
+    const fixture = loadRpcFixture('pumpfun');
+    rpc.addTransactions(fixture.transactions);
+    // Any standard JSON-RPC node will do; no Helius key needed
+    delete process.env.HELIUS_API_KEY;
+    process.env.RPC_ENDPOINTS = rpc.rpcUrl;
+
+    const ingest = new WebSocketIngestService();
+    try {
+      ingest.start();
+      // Pump.fun logs plus the SPL Token and Token-2022 program subscriptions
+      await waitFor(() => rpc.subscriptionCount === 3 && ingest.getSubscriptionStats()?.active === 3);
+
+      // The duplicate launch notification and the vote noise never reach getTransaction
+      expect(rpc.replay(fixture.notifications)).toBe(6);
+      await waitFor(() => mockCreate.mock.calls.length === 4);
+    } finally {
+      ingest.stop();
+      await rpc.close();
+    }
+
+    expect(rpc.getTransactionCalls).toEqual([SIG_LAUNCH_SPL, SIG_LAUNCH_2022, SIG_BUY, SIG_REMINT]);
+    expect(mockRows).toHaveLength(3);
+    expect(mockRows[0]).toMatchObject({
+      txSignature: SIG_LAUNCH_SPL,
+      mint: MINT_SPL,
+      isFirst: true,
+      firstMintKey: MINT_SPL,
+      isLaunchInitialization: true,
+      initProgram: 'spl-token',
+      validatedBy: 'initHeuristic',
+      source: 'ws',
+      eventType: 'logs:dex'
+    });
+    expect(mockRows[1]).toMatchObject({ mint: MINT_2022, isFirst: true, firstMintKey: MINT_2022, initProgram: 'token-2022' });
+    expect(mockRows[0].timestamp).toBe(BigInt(1760900000 * 1000));
+
+    // No MintTo: stored under its own signature
+    expect(mockRows[2]).toMatchObject({ txSignature: SIG_BUY, mint: SIG_BUY, firstMintKey: SIG_BUY, isLaunchInitialization: false, initProgram: 'unknown' });
+    // A later MintTo of a recorded mint loses to the first one on first_mint_key
+    expect(mockRows.some((row) => row.txSignature === SIG_REMINT)).toBe(false);
+  });
+
+  it('should backfill mints missed while the connection was down', async () => {
+    const rpc = await FakeSolanaRpc.start();
+    const fixture = loadRpcFixture('pumpfun');
+    rpc.addTransactions(fixture.transactions);
+    delete process.env.HELIUS_API_KEY;
+    process.env.RPC_ENDPOINTS = rpc.rpcUrl;
+
+    const ingest = new WebSocketIngestService();
+    try {
+      ingest.start();
+      await waitFor(() => ingest.getSubscriptionStats()?.active === 3);
+      rpc.replay(fixture.notifications.slice(0, 1));
+      await waitFor(() => mockRows.length === 1);
+      expect(ingest.getGapStats()).toMatchObject({ lastSlot: 371204511, gaps: 0 });
+
+      // The next two transactions happen while the socket is down; the remint arrives live after the reconnect
+      rpc.dropConnections();
+      await waitFor(() => ingest.getSubscriptionStats()?.active === 0);
+      await waitFor(() => ingest.getSubscriptionStats()?.active === 3);
+      rpc.replay(fixture.notifications.slice(5, 6));
+      await waitFor(() => ingest.getGapStats().gaps === 1);
+      await ingest.whenBackfilled();
+    } finally {
+      ingest.stop();
+      await rpc.close();
+    }
+
+    expect(mockRows.map((row) => row.txSignature)).toEqual([SIG_LAUNCH_SPL, SIG_LAUNCH_2022, SIG_BUY]);
+    expect(mockRows[1]).toMatchObject({ mint: MINT_2022, isFirst: true, initProgram: 'token-2022', source: 'ws' });
+    // Only the signatures between the last one before the drop and the first one after it are scanned
+    expect(ingest.getGapStats()).toMatchObject({
+      gaps: 1,
+      recovered: 2,
+      stored: 2,
+      lastGap: { fromSlot: 371204511, toSlot: 371204515, slots: 4, signatures: 2, recovered: 2, stored: 2, truncated: false }
+    });
+  });
+
+  it('should store webhook events with first-seen flags', async () => {
+    const app = express();
+    registerHeliusWebhookRoutes(app);
+    const server = await new Promise<http.Server>((resolve) => {
+      const s = app.listen(0, '127.0.0.1', () => resolve(s));
+    });
+    const url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/webhooks/helius`;
+
+    try {
+      process.env.HELIUS_WEBHOOK_SECRET = 'secret';
+      const denied = await axios.post(url, webhookEvents, { validateStatus: () => true });
+      expect(denied.status).toBe(401);
+
+      const { data } = await axios.post(url, webhookEvents, { headers: { authorization: 'secret' } });
+      expect(data).toEqual({ ok: true });
+    } finally {
+      await new Promise((resolve) => server.close(resolve));
+    }
+
+    // The NFT mint is skipped
+    expect(mockRows).toHaveLength(3);
+    expect(mockRows[0]).toMatchObject({
+      mint: MINT_WEBHOOK,
+      isFirst: true,
+      firstMintKey: MINT_WEBHOOK,
+      initProgram: 'unknown',
+      source: 'webhook',
+      eventType: 'TOKEN_MINT:PUMP_FUN'
+    });
+    expect(mockRows[1]).toMatchObject({ mint: MINT_WEBHOOK, isFirst: false, firstMintKey: null, eventType: 'SWAP:PUMP_FUN' });
+    expect(mockRows[2]).toMatchObject({
+      mint: MINT_WEBHOOK_2022,
+      isFirst: true,
+      firstMintKey: MINT_WEBHOOK_2022,
+      isLaunchInitialization: true,
+      initProgram: 'token-2022',
+      validatedBy: 'initHeuristic'
+    });
+  });
+});
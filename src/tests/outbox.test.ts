@@ -0,0 +1,118 @@
+import { classifySendError, getRetryDelaySeconds, OutboxWorker } from '../services/outbox';
+
+const mockRows: any[] = [];
+const mockPending = (row: any) => !row.sentOk && !row.deferred && row.failedTsUtc === null;
+
+// Just enough of the outbox table for the worker
+jest.mock('../utils/database', () => ({
+  DatabaseManager: {
+    getInstance: () => ({
+      outbox: {
+        findUnique: async ({ where }: any) => mockRows.find(row => row.fingerprint === where.fingerprint) ?? null,
+        upsert: async ({ create }: any) => {
+          const row = { outboxId: mockRows.length + 1, sentOk: false, deferred: false, attempts: 0, nextAttemptUtc: 0, failedTsUtc: null, ...create };
+          mockRows.push(row);
+          return row;
+        },
+        groupBy: async () => {
+          const heads = new Map<string, number>();
+          for (const row of mockRows.filter(mockPending)) {
+            heads.set(row.chatId, Math.min(heads.get(row.chatId) ?? Infinity, row.outboxId));
+          }
+          return Array.from(heads, ([chatId, outboxId]) => ({ chatId, _min: { outboxId } }));
+        },
+        findMany: async ({ where, take }: any) => mockRows
+          .filter(row => where.outboxId.in.includes(row.outboxId) && row.nextAttemptUtc <= where.nextAttemptUtc.lte)
+          .sort((a, b) => a.outboxId - b.outboxId)
+          .slice(0, take),
+        update: async ({ where, data }: any) => Object.assign(mockRows.find(row => row.outboxId === where.outboxId), data)
+      }
+    })
+  }
+}));
+
+describe('Outbox', () => {
+  it('should back off exponentially up to an hour', () => {
+    expect(getRetryDelaySeconds(1)).toBe(5);
+    expect(getRetryDelaySeconds(2)).toBe(10);
+    expect(getRetryDelaySeconds(4)).toBe(40);
+    expect(getRetryDelaySeconds(20)).toBe(3600);
+  });
+
+  it('should honor retry_after on 429s', () => {
+    const error = { response: { error_code: 429, parameters: { retry_after: 17 } } };
+    expect(classifySendError(error)).toEqual({ retryAfter: 17, permanent: false });
+  });
+
+  it('should give up on client errors but retry network errors', () => {
+    expect(classifySendError({ response: { error_code: 400, description: "Bad Request: can't parse entities" } }).permanent).toBe(true);
+    expect(classifySendError({ response: { error_code: 403 } }).permanent).toBe(true);
+    expect(classifySendError({ response: { error_code: 502 } }).permanent).toBe(false);
+    expect(classifySendError(new Error('ETIMEDOUT')).permanent).toBe(false);
+  });
+});
+
+describe('Outbox worker', () => {
+  const transport = { sendMessage: jest.fn(), sendPhoto: jest.fn() };
+  let worker: OutboxWorker;
+
+  const enqueue = (chatId: string, text: string) =>
+    worker.enqueue({ chatId, text, fingerprint: `${chatId}:${text}`, timestamp: Date.now() });
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    mockRows.length = 0;
+    transport.sendMessage.mockReset().mockResolvedValue({});
+    worker = new OutboxWorker(transport);
+    // Passes run when the test says so
+    jest.spyOn(worker, 'kick').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should wait out a 429 and then send the message', async () => {
+    transport.sendMessage.mockRejectedValueOnce({ response: { error_code: 429, parameters: { retry_after: 5 } } });
+    await enqueue('1', 'alert');
+
+    expect(await worker.processPending()).toBe(0);
+    expect(mockRows[0]).toMatchObject({ sentOk: false, attempts: 0 });
+
+    jest.advanceTimersByTime(4000);
+    expect(await worker.processPending()).toBe(0);
+    expect(transport.sendMessage).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1000);
+    expect(await worker.processPending()).toBe(1);
+    expect(transport.sendMessage).toHaveBeenCalledTimes(2);
+    expect(mockRows[0]).toMatchObject({ sentOk: true, lastError: null });
+  });
+
+  it('should drop a sent photo from its row', async () => {
+    transport.sendPhoto.mockReset().mockResolvedValue({});
+    await worker.enqueue({ chatId: '1', text: 'chart', fingerprint: 'chart', timestamp: Date.now(), photo: Buffer.from([1, 2, 3]) });
+
+    expect(await worker.processPending()).toBe(1);
+    expect(transport.sendPhoto).toHaveBeenCalledWith('1', Buffer.from([1, 2, 3]), 'chart', {});
+    expect(mockRows[0]).toMatchObject({ sentOk: true, photo: null });
+  });
+
+  it('should not let one chat\'s backlog hold up other chats', async () => {
+    for (let i = 0; i < 150; i++) {
+      await enqueue('-100', `update ${i}`);
+    }
+    await enqueue('2', 'failsafe');
+
+    expect(await worker.processPending()).toBe(2);
+    expect(transport.sendMessage.mock.calls.map(([chatId, text]) => [chatId, text])).toEqual([['-100', 'update 0'], ['2', 'failsafe']]);
+
+    // The group is paused by Telegram; the private chat still gets through
+    transport.sendMessage.mockRejectedValueOnce({ response: { error_code: 429, parameters: { retry_after: 60 } } });
+    jest.advanceTimersByTime(3000);
+    await enqueue('2', 'failsafe again');
+    expect(await worker.processPending()).toBe(1);
+    expect(transport.sendMessage).toHaveBeenLastCalledWith('2', 'failsafe again', expect.anything());
+    expect(mockRows.filter(row => row.chatId === '-100' && row.sentOk)).toHaveLength(1);
+  });
+});
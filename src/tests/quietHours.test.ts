@@ -0,0 +1,42 @@
+import { isQuietTime, buildDigest } from '../services/quietHours';
+import { parseQuietHours } from '../utils/validation';
+
+describe('Quiet hours', () => {
+  const at = (time: string) => new Date(`2026-10-19T${time}:00Z`);
+
+  it('should handle windows that wrap past midnight', () => {
+    const window = parseQuietHours('23:00-07:00').window!;
+    expect(isQuietTime(window, at('23:30'), 'UTC')).toBe(true);
+    expect(isQuietTime(window, at('06:59'), 'UTC')).toBe(true);
+    expect(isQuietTime(window, at('07:00'), 'UTC')).toBe(false);
+    expect(isQuietTime(window, at('12:00'), 'UTC')).toBe(false);
+    expect(isQuietTime(null, at('23:30'), 'UTC')).toBe(false);
+  });
+
+  it('should use local time in the configured timezone', () => {
+    const window = parseQuietHours('13:00-14:00').window!;
+    // 11:30 UTC is 13:30 in Berlin summer time
+    expect(isQuietTime(window, at('11:30'), 'Europe/Berlin')).toBe(true);
+    expect(isQuietTime(window, at('11:30'), 'UTC')).toBe(false);
+  });
+
+  it('should reject malformed windows', () => {
+    expect(parseQuietHours('off')).toEqual({ valid: true, window: null });
+    expect(parseQuietHours('24:00-07:00').valid).toBe(false);
+    expect(parseQuietHours('07:00-07:00').valid).toBe(false);
+    expect(parseQuietHours('late').valid).toBe(false);
+  });
+
+  it('should group the digest by coin, busiest first', () => {
+    const base = at('23:00').getTime() / 1000;
+    const items = [
+      { tsUtc: base, groupKey: 'BONK', text: 'BONK retrace' },
+      ...Array.from({ length: 7 }, (_, i) => ({ tsUtc: base + (i + 1) * 60, groupKey: 'WIF', text: `WIF pct ${i}` }))
+    ];
+    const digest = buildDigest(items, 'UTC');
+    expect(digest.split('\n')[0]).toBe('🌙 *Quiet hours digest* (8 alerts)');
+    expect(digest.indexOf('*WIF* (7)')).toBeLessThan(digest.indexOf('*BONK* (1)'));
+    expect(digest).toContain('• 2 earlier\n• 23:03 WIF pct 2');
+    expect(digest).not.toContain('WIF pct 1');
+  });
+});
@@ -0,0 +1,59 @@
+import { loadRpcEndpoints, RpcEndpointPool } from '../services/ws/RpcEndpointPool';
+import { TransactionFetcher } from '../services/ws/TransactionFetcher';
+import { FakeSolanaRpc } from './fakeSolanaRpc';
+
+describe('RPC endpoint pool', () => {
+  it('should read endpoints in order and fall back to Helius', () => {
+    expect(loadRpcEndpoints({
+      RPC_ENDPOINTS: 'https://rpc.triton.example/abc, http://10.0.0.5:8899',
+      RPC_WS_ENDPOINTS: ',ws://10.0.0.5:8900',
+      HELIUS_API_KEY: 'ignored'
+    })).toEqual([
+      { name: 'rpc.triton.example', httpUrl: 'https://rpc.triton.example/abc', wsUrl: 'wss://rpc.triton.example/abc' },
+      { name: '10.0.0.5:8899', httpUrl: 'http://10.0.0.5:8899', wsUrl: 'ws://10.0.0.5:8900' }
+    ]);
+    expect(loadRpcEndpoints({ HELIUS_API_KEY: 'key' })).toEqual([
+      { name: 'mainnet.helius-rpc.com', httpUrl: 'https://mainnet.helius-rpc.com/?api-key=key', wsUrl: 'wss://mainnet.helius-rpc.com/?api-key=key' }
+    ]);
+    expect(loadRpcEndpoints({})).toEqual([]);
+  });
+
+  it('should skip a failing endpoint and return to it after the cooldown', () => {
+    jest.useFakeTimers();
+    const [primary, backup] = loadRpcEndpoints({ RPC_ENDPOINTS: 'https://a.example,https://b.example' });
+    const pool = new RpcEndpointPool([primary!, backup!], 'test');
+
+    pool.reportFailure(primary!, 'timeout');
+    pool.reportFailure(primary!, 'timeout');
+    expect(pool.current()).toBe(primary);
+    pool.reportFailure(primary!, 'timeout');
+    expect(pool.current()).toBe(backup);
+    expect(pool.getStatus()[0]).toEqual({ name: 'a.example', healthy: false, failures: 3, lastError: 'timeout' });
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(pool.current()).toBe(primary);
+    // Still failing: skipped again on the first failure
+    pool.reportFailure(primary!, 'timeout');
+    expect(pool.current()).toBe(backup);
+    jest.useRealTimers();
+  });
+
+  it('should fetch transactions from the next endpoint when one is down', async () => {
+    const rpc = await FakeSolanaRpc.start();
+    rpc.addTransactions({ sig: { slot: 7, blockTime: 1760900000, meta: { err: null }, transaction: { message: { instructions: [] } } } });
+    // Nothing listens on port 1
+    const pool = new RpcEndpointPool(loadRpcEndpoints({ RPC_ENDPOINTS: `http://127.0.0.1:1,${rpc.rpcUrl}` }), 'http');
+    const fetcher = new TransactionFetcher({ pool, concurrency: 1 });
+    const rpcUrl = rpc.rpcUrl;
+
+    try {
+      expect(await fetcher.fetch('sig')).toMatchObject({ signature: 'sig', slot: 7 });
+      expect(await fetcher.fetch('missing')).toBeNull();
+    } finally {
+      await rpc.close();
+    }
+    expect(rpc.getTransactionCalls).toEqual(['sig', 'missing']);
+    expect(pool.getActive()?.httpUrl).toBe(rpcUrl);
+    expect(pool.getStatus()[0]).toMatchObject({ healthy: true, failures: 2 });
+  });
+});
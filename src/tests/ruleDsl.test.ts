@@ -0,0 +1,98 @@
+import { parseRule, evaluateRule, usesWindow, RuleEnvironment, RuleSyntaxError } from '../services/triggers/ruleDsl';
+import { PairInfo } from '../types/dexscreener';
+
+describe('Rule DSL', () => {
+  const now = 1_700_000_000;
+
+  const pair: PairInfo = {
+    chainId: 'solana',
+    tokenAddress: 'TEST',
+    symbol: 'TEST',
+    name: 'Test Token',
+    price: 0.75,
+    marketCap: 750000,
+    volume24h: 120000,
+    priceChange24h: -12,
+    priceChange1h: 3,
+    liquidity: 250000,
+    txns: {
+      m5: { buys: 10, sells: 5 },
+      h1: { buys: 90, sells: 40 },
+      h6: { buys: 300, sells: 280 },
+      h24: { buys: 900, sells: 1000 }
+    },
+    lastUpdated: now * 1000
+  };
+
+  const env: RuleEnvironment = {
+    pair,
+    state: { coinId: 1, h72High: 1.0, h12High: 0.8, v24Sum: 150000, lastUpdatedUtc: now },
+    points: [
+      { timestamp: now - 48 * 3600, price: 1.0, volume: 5000 },
+      { timestamp: now - 6 * 3600, price: 0.9, volume: 4000 },
+      { timestamp: now - 3600, price: 0.8, volume: 3000 }
+    ],
+    now
+  };
+
+  const run = (rule: string, overrides: Partial<RuleEnvironment> = {}) =>
+    evaluateRule(parseRule(rule), { ...env, ...overrides });
+
+  it('should evaluate composite conditions', () => {
+    expect(run('retrace(72) > 20% AND txns.h1.buys / txns.h1.sells > 1.5 AND liquidity > $200k')).toBe(true);
+    expect(run('retrace(72) > 30% AND liquidity > $200k')).toBe(false);
+  });
+
+  it('should support suffixes, arithmetic and precedence', () => {
+    expect(run('mcap >= 750K')).toBe(true);
+    expect(run('1 + 2 * 3 == 7')).toBe(true);
+    expect(run('(1 + 2) * 3 == 9')).toBe(true);
+    expect(run('-priceChange24h > 10')).toBe(true);
+    expect(run('NOT (price > 1) && priceChange1h > 0')).toBe(true);
+  });
+
+  it('should compute rolling window aggregates', () => {
+    expect(run('high(6) == 0.9')).toBe(true);
+    expect(run('vol(6) == 7000')).toBe(true);
+    expect(run('points(72) == 3')).toBe(true);
+    expect(run('change(6) < -15')).toBe(true);
+  });
+
+  it('should treat missing data as not matching', () => {
+    const noTxns = { ...pair, txns: undefined, liquidity: null };
+    expect(run('txns.h1.buys / txns.h1.sells > 1.5', { pair: noTxns })).toBe(false);
+    expect(run('liquidity < 1M', { pair: noTxns })).toBe(false);
+    expect(run('price / 0 > 1')).toBe(false);
+    // Unknown stays unknown under NOT and only a known result decides AND/OR
+    expect(run('NOT liquidity > 200k', { pair: noTxns })).toBe(false);
+    expect(run('NOT (liquidity > 200k AND price > 1)', { pair: noTxns })).toBe(true);
+    expect(run('liquidity > 200k OR price < 1', { pair: noTxns })).toBe(true);
+    expect(run('NOT (liquidity > 200k OR price > 1)', { pair: noTxns })).toBe(false);
+  });
+
+  it('should report which rules need window data', () => {
+    expect(usesWindow(parseRule('retrace(24) > 10'))).toBe(true);
+    expect(usesWindow(parseRule('h72High > price * 1.2'))).toBe(false);
+  });
+
+  it('should reject invalid rules', () => {
+    expect(() => parseRule('')).toThrow(RuleSyntaxError);
+    expect(() => parseRule('foo > 1')).toThrow(/Unknown field 'foo'/);
+    expect(() => parseRule('price >')).toThrow(/end of rule/);
+    expect(() => parseRule('retrace(price) > 10')).toThrow(/window in hours/);
+    expect(() => parseRule('retrace(100) > 10')).toThrow(/between 1 and 72/);
+    expect(() => parseRule('retrace(0.5) > 10')).toThrow(/between 1 and 72/);
+    expect(() => parseRule('max(1) > 0')).toThrow(/takes 2 arguments/);
+    expect(() => parseRule('price > 1 ; drop')).toThrow(/Unexpected character/);
+    expect(() => parseRule('__proto__ > 0')).toThrow(/Unknown field '__proto__'/);
+    expect(() => parseRule('constructor(1) > 0')).toThrow(/Unknown function 'constructor'/);
+  });
+
+  it('should reject rules that are not conditions', () => {
+    expect(() => parseRule('price')).toThrow(/A rule needs a comparison/);
+    expect(() => parseRule('price * 2 + 1')).toThrow(/A rule needs a comparison/);
+    expect(() => parseRule('price AND liquidity > 1')).toThrow(/AND needs a comparison/);
+    expect(() => parseRule('NOT price')).toThrow(/NOT needs a comparison/);
+    expect(parseRule('(price > 1)')).toMatchObject({ type: 'binary', op: '>' });
+  });
+});
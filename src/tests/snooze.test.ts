@@ -0,0 +1,33 @@
+import { snoozeCovers, formatSnoozeSummary, getLongTriggerKind } from '../services/snooze';
+
+describe('Snoozes', () => {
+  it('should cover alerts matching every field the snooze sets', () => {
+    expect(snoozeCovers({}, { coinId: 1, triggerKind: 'retrace' })).toBe(true);
+    expect(snoozeCovers({}, { triggerKind: 'mints' })).toBe(true);
+    expect(snoozeCovers({ coinId: 1 }, { coinId: 1, hotId: 7, triggerKind: 'pct:20' })).toBe(true);
+    expect(snoozeCovers({ coinId: 1 }, { coinId: 2, triggerKind: 'retrace' })).toBe(false);
+    expect(snoozeCovers({ coinId: 1 }, { triggerKind: 'mints' })).toBe(false);
+    expect(snoozeCovers({ hotId: 7 }, { coinId: 1, triggerKind: 'retrace' })).toBe(false);
+  });
+
+  it('should match trigger kinds with their variants', () => {
+    expect(snoozeCovers({ triggerKind: 'rule' }, { coinId: 1, triggerKind: 'rule:12' })).toBe(true);
+    expect(snoozeCovers({ triggerKind: 'pct' }, { hotId: 7, triggerKind: 'pct:-20' })).toBe(true);
+    expect(snoozeCovers({ triggerKind: 'rule:12' }, { coinId: 1, triggerKind: 'rule:13' })).toBe(false);
+    expect(snoozeCovers({ triggerKind: 'retrace' }, { coinId: 1 })).toBe(false);
+    expect(getLongTriggerKind({ triggerType: 'rule', ruleId: 12 })).toBe('rule:12');
+  });
+
+  it('should summarize suppressed alerts when a snooze ends', () => {
+    const snooze = {
+      snoozeId: 1,
+      chatId: '1',
+      label: 'all',
+      createdAtUtc: 0,
+      expiresAtUtc: 3600,
+      suppressed: { 'BONK retrace': 1, 'WIF pct': 2 }
+    };
+    expect(formatSnoozeSummary(snooze)).toBe('🔔 Snooze on all ended after 1h 0m\n3 alerts suppressed:\n• WIF pct ×2\n• BONK retrace ×1');
+    expect(formatSnoozeSummary({ ...snooze, suppressed: {}, endedAtUtc: 600 })).toContain('ended after 10m 0s\nNo alerts were suppressed.');
+  });
+});
@@ -0,0 +1,145 @@
+import WebSocket from 'ws';
+import { WebSocketConnection, WsEvent } from '../services/ws/WebSocketConnection';
+import { SubscriptionRegistry } from '../services/ws/SubscriptionRegistry';
+import { loadRpcEndpoints, RpcEndpointPool } from '../services/ws/RpcEndpointPool';
+
+jest.mock('ws', () => {
+  const { EventEmitter } = jest.requireActual('events');
+
+  class FakeSocket extends EventEmitter {
+    static OPEN = 1;
+    static instances: FakeSocket[] = [];
+    readyState = 0;
+    sent: any[] = [];
+
+    constructor(public url: string) {
+      super();
+      FakeSocket.instances.push(this);
+    }
+
+    send(data: string): void {
+      this.sent.push(JSON.parse(data));
+    }
+
+    ping(): void {}
+
+    close(): void {}
+
+    open(): void {
+      this.readyState = FakeSocket.OPEN;
+      this.emit('open');
+    }
+
+    receive(message: unknown): void {
+      this.emit('message', Buffer.from(JSON.stringify(message)));
+    }
+  }
+
+  return { __esModule: true, default: FakeSocket };
+});
+
+type FakeSocket = {
+  url: string;
+  sent: any[];
+  open(): void;
+  receive(message: unknown): void;
+  emit(event: string): void;
+};
+const FakeSocket = WebSocket as unknown as { instances: FakeSocket[] };
+
+describe('Subscription registry', () => {
+  let conn: WebSocketConnection;
+  let registry: SubscriptionRegistry;
+  let programEvents: WsEvent[];
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    FakeSocket.instances = [];
+    programEvents = [];
+    const pool = new RpcEndpointPool(loadRpcEndpoints({ RPC_ENDPOINTS: 'https://primary.example,https://backup.example' }), 'ws');
+    conn = new WebSocketConnection({ pool, pingIntervalMs: 60000, onEvent: (e) => registry.dispatch(e) || programEvents.push(e) });
+    registry = new SubscriptionRegistry({ conn, dexCfg: { programIds: ['Program1'] }, tokCfg: { splToken: false, token2022: false } });
+    conn.connect();
+    registry.registerAll();
+  });
+
+  afterEach(() => {
+    conn.close();
+    jest.useRealTimers();
+  });
+
+  const socket = () => FakeSocket.instances[FakeSocket.instances.length - 1]!;
+  const ack = (frameId: number, serverId: number) => socket().receive({ jsonrpc: '2.0', id: frameId, result: serverId });
+  const notify = (serverId: number, signature: string) => socket().receive({
+    jsonrpc: '2.0',
+    method: 'logsNotification',
+    params: { subscription: serverId, result: { context: { slot: 1 }, value: { signature, err: null } } }
+  });
+
+  it('should route notifications to the handler of their subscription', () => {
+    const poolEvents: WsEvent[] = [];
+    socket().open();
+    const id = registry.subscribeLogs('Pool1', (e) => poolEvents.push(e));
+    ack(1, 100);
+    ack(id, 200);
+
+    notify(200, 'pool-swap');
+    notify(100, 'program-log');
+
+    expect(poolEvents.map((e) => e.payload.value.signature)).toEqual(['pool-swap']);
+    expect(programEvents.map((e) => e.payload.value.signature)).toEqual(['program-log']);
+    expect(registry.getStats()).toEqual({ connected: true, endpoint: 'primary.example', program: 1, account: 1, active: 2 });
+  });
+
+  it('should unsubscribe with the server id and stop routing', () => {
+    const poolEvents: WsEvent[] = [];
+    socket().open();
+    const id = registry.subscribeAccount('Mint1', (e) => poolEvents.push(e));
+    ack(id, 300);
+
+    expect(registry.unsubscribe(id)).toBe(true);
+    expect(socket().sent[socket().sent.length - 1]).toMatchObject({ method: 'accountUnsubscribe', params: [300] });
+    expect(registry.getStats()).toMatchObject({ account: 0, active: 0 });
+    expect(registry.unsubscribe(id)).toBe(false);
+
+    // Removed before its ack arrived: unsubscribed once the server id is known
+    const late = registry.subscribeLogs('Pool2', (e) => poolEvents.push(e));
+    registry.unsubscribe(late);
+    ack(late, 400);
+    expect(socket().sent[socket().sent.length - 1]).toMatchObject({ method: 'logsUnsubscribe', params: [400] });
+    expect(poolEvents).toHaveLength(0);
+  });
+
+  it('should re-subscribe kept subscriptions after a reconnect', () => {
+    socket().open();
+    const kept = registry.subscribeLogs('Pool1', () => undefined);
+    const removed = registry.subscribeLogs('Pool2', () => undefined);
+    registry.unsubscribe(removed);
+
+    socket().emit('close');
+    expect(registry.getStats()).toMatchObject({ connected: false, active: 0 });
+    jest.advanceTimersByTime(1000);
+    socket().open();
+
+    const resent = socket().sent.map((frame) => frame.id);
+    expect(resent).toEqual([1, kept]);
+    ack(kept, 500);
+    expect(registry.getStats()).toMatchObject({ connected: true, active: 1 });
+  });
+
+  it('should fail over to the next endpoint after repeated drops', () => {
+    const kept = registry.subscribeLogs('Pool1', () => undefined);
+    expect(socket().url).toBe('wss://primary.example');
+
+    // Three connects that never open mark the primary down
+    for (let backoffMs = 1000; backoffMs <= 4000; backoffMs *= 2) {
+      socket().emit('close');
+      jest.advanceTimersByTime(backoffMs);
+    }
+    expect(socket().url).toBe('wss://backup.example');
+
+    socket().open();
+    expect(socket().sent.map((frame) => frame.id)).toEqual([1, kept]);
+    expect(registry.getStats()).toMatchObject({ connected: true, endpoint: 'backup.example' });
+  });
+});
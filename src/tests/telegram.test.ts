@@ -28,6 +28,7 @@ describe('TelegramService', () => {
       'mock-token',
       'mock-chat-id',
       undefined, // groupChatId
+      'mock-user-id',
       mockDb,
       mockLongList,
       mockHotList,
@@ -182,7 +183,7 @@ describe('TelegramService', () => {
 
       await service['handleLongSet'](mockMsg, mockMatch);
 
-      expect(mockLongList.updateTriggerSettings).toHaveBeenCalledWith('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU', { retracePct: 15 });
+      expect(mockLongList.updateTriggerSettings).toHaveBeenCalledWith('7xKXtg2CW87d97TXJSDpbD5jBkheTqA83TZRuJosgAsU', { params: { retrace: { pct: 15 } } });
       expect(service.sendMessage).toHaveBeenCalledWith('123', expect.stringContaining('✅ *Settings Updated*'), 'MarkdownV2');
     });
 
@@ -203,7 +204,7 @@ describe('TelegramService', () => {
         { symbol: 'BTC', price: 60000, change24h: 5, retraceFrom72hHigh: -2, volume24h: 1000000 }
       ]);
 
-      await service['handleReportNow'](mockMsg);
+      await service['handleReportNow'](mockMsg, null);
 
       expect(service.sendMessage).toHaveBeenCalledWith('123', expect.stringContaining('📊 *Long List Snapshot*'), 'MarkdownV2');
     });
@@ -212,7 +213,7 @@ describe('TelegramService', () => {
       const mockMsg = { chat: { id: 123 } } as Message;
       mockLongList.generateAnchorReport.mockResolvedValue([]);
 
-      await service['handleReportNow'](mockMsg);
+      await service['handleReportNow'](mockMsg, null);
 
       expect(service.sendMessage).toHaveBeenCalledWith('123', 'No coins in long list');
     });
@@ -313,10 +314,11 @@ describe('TelegramService', () => {
         websites: [{ label: 'Website', url: 'https://example.com' }],
         socials: [{ label: 'Twitter', url: 'https://twitter.com/test' }],
         activeTriggers: [],
-        failsafeFired: false
+        failsafeFired: false,
+        failsafeFiredSteps: []
       }]);
 
-      await service['handleHotList'](mockMsg);
+      await service['handleHotList'](mockMsg, null);
 
       expect(service.sendMessage).toHaveBeenCalledWith('123', expect.stringContaining('🔥 Hot List Entries'), 'MarkdownV2', undefined, true);
     });
@@ -325,7 +327,7 @@ describe('TelegramService', () => {
       const mockMsg = { chat: { id: 123 } } as Message;
       mockHotList.listEntries.mockResolvedValue([]);
 
-      await service['handleHotList'](mockMsg);
+      await service['handleHotList'](mockMsg, null);
 
       expect(service.sendMessage).toHaveBeenCalledWith('123', expect.stringContaining('🔥 *Hot list is empty*'), 'MarkdownV2');
     });
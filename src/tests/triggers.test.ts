@@ -0,0 +1,209 @@
+import { retraceTrigger, mcapTrigger, breakoutTrigger, stallTrigger, getRetraceLadder } from '../services/triggers/builtin';
+import { LongTriggerRegistry } from '../services/triggers';
+import { LongListService } from '../services/longlist';
+import { globalAlertBus } from '../events/alertBus';
+import { globalSnoozes } from '../services/snooze';
+import { PairInfo } from '../types/dexscreener';
+import { LongTriggerConfigData, LongTriggerStateData } from '../types/database';
+
+const pair = (price: number, marketCap: number | null = null): PairInfo => ({
+  chainId: 'solana',
+  tokenAddress: 'TEST',
+  symbol: 'TEST',
+  name: 'Test Token',
+  price,
+  marketCap,
+  volume24h: 10000,
+  priceChange24h: 0,
+  priceChange1h: 0,
+  liquidity: null,
+  lastUpdated: Date.now()
+});
+
+describe('Retrace trigger', () => {
+  const evaluate = (price: number, levels: number[], firedLevels: number[] = [], anchorHigh?: number) =>
+    retraceTrigger.evaluate({
+      coinId: 1,
+      symbol: 'TEST',
+      pair: pair(price),
+      state: { coinId: 1, h72High: 1.0, lastUpdatedUtc: 0 },
+      config: { pct: 15, levels },
+      triggerState: anchorHigh === undefined ? { firedLevels } : { anchorHigh, firedLevels },
+      cooldownHours: 2,
+      now: 0
+    });
+
+  it('should fire the single threshold without a ladder', () => {
+    expect(evaluate(0.9, [])).toBeNull();
+    expect(evaluate(0.8, [])?.retraceFromHigh).toBeCloseTo(20);
+  });
+
+  it('should fire the deepest newly crossed rung and remember all crossed rungs', () => {
+    const fire = evaluate(0.7, [40, 15, 25]);
+    expect(fire?.targetLevel).toBe(25);
+    expect(fire?.nextState).toEqual({ anchorHigh: 1.0, firedLevels: [15, 25] });
+  });
+
+  it('should not re-fire rungs already hit in the same swing', () => {
+    expect(evaluate(0.7, [15, 25, 40], [15, 25], 1.0)).toBeNull();
+    expect(evaluate(0.55, [15, 25, 40], [15, 25], 1.0)?.targetLevel).toBe(40);
+  });
+
+  it('should reset the ladder after a new high', () => {
+    const fire = evaluate(0.8, [15, 25], [15, 25], 0.9);
+    expect(fire?.targetLevel).toBe(15);
+    expect(fire?.nextState).toEqual({ anchorHigh: 1.0, firedLevels: [15] });
+  });
+
+  it('should report rung status for the anchor report', () => {
+    expect(getRetraceLadder({ pct: 15, levels: [25, 15] }, { anchorHigh: 1.0, firedLevels: [15] }, 1.0)).toEqual([
+      { level: 15, fired: true },
+      { level: 25, fired: false }
+    ]);
+    expect(getRetraceLadder({ pct: 15, levels: [15] }, { anchorHigh: 0.9, firedLevels: [15] }, 1.0)).toEqual([
+      { level: 15, fired: false }
+    ]);
+  });
+});
+
+describe('Market cap trigger', () => {
+  const now = 1_700_000_000;
+
+  const evaluate = (
+    lastMcap: number | undefined,
+    marketCap: number,
+    config: { levels: number[]; downLevels: number[] },
+    fired: Record<string, number> = {}
+  ) =>
+    mcapTrigger.evaluate({
+      coinId: 1,
+      symbol: 'TEST',
+      pair: pair(1, marketCap),
+      state: lastMcap === undefined ? { coinId: 1, lastUpdatedUtc: 0 } : { coinId: 1, lastMcap, lastUpdatedUtc: 0 },
+      config,
+      triggerState: { fired },
+      cooldownHours: 2,
+      now
+    });
+
+  it('should fire on upward crossings only for up levels', () => {
+    const fire = evaluate(900_000, 1_100_000, { levels: [1_000_000], downLevels: [] });
+    expect(fire?.direction).toBe('up');
+    expect(fire?.message).toContain('reached');
+    expect(evaluate(1_100_000, 900_000, { levels: [1_000_000], downLevels: [] })).toBeNull();
+  });
+
+  it('should fire on downward crossings of down levels', () => {
+    const fire = evaluate(1_100_000, 400_000, { levels: [], downLevels: [1_000_000, 500_000] });
+    expect(fire?.direction).toBe('down');
+    expect(fire?.targetLevel).toBe(500_000);
+    expect(fire?.nextState?.fired).toEqual({ 'down:1000000': now, 'down:500000': now });
+  });
+
+  it('should not need history to report a level already reached, but does for a level lost', () => {
+    expect(evaluate(undefined, 1_100_000, { levels: [1_000_000], downLevels: [] })?.direction).toBe('up');
+    expect(evaluate(undefined, 900_000, { levels: [], downLevels: [1_000_000] })).toBeNull();
+  });
+
+  it('should keep up and down bookkeeping separate for the same level', () => {
+    const both = { levels: [1_000_000], downLevels: [1_000_000] };
+    const recentlyUp = { 'up:1000000': now - 600 };
+    expect(evaluate(1_100_000, 900_000, both, recentlyUp)?.direction).toBe('down');
+    expect(evaluate(900_000, 1_100_000, both, recentlyUp)).toBeNull();
+    expect(evaluate(900_000, 1_100_000, both, { 'up:1000000': now - 3 * 3600 })?.direction).toBe('up');
+  });
+});
+
+describe('Long list repeat limits', () => {
+  const now = Math.floor(Date.now() / 1000);
+  // Breaking out of the 12h high with volume; also inside a 5% band of the 12h range with volume down vs 24h
+  const state = { coinId: 1, h12High: 1.0, h12Low: 0.95, v12Sum: 1000, v24Sum: 20000, lastUpdatedUtc: now };
+
+  const check = async (
+    triggerStates: LongTriggerStateData[],
+    triggerConfigs: LongTriggerConfigData[] = [],
+    price = 1.2,
+    subscribers: string[] = [],
+    hysteresisPct = 0
+  ) => {
+    const db = {
+      getLongListCoins: jest.fn().mockResolvedValue([{ coinId: 1, symbol: 'TEST', chain: 'solana', tokenAddress: 'TEST' }]),
+      getLongStates: jest.fn().mockResolvedValue([state]),
+      getScheduleConfig: jest.fn().mockResolvedValue({ cooldownHours: 2, hysteresisPct, globalBreakoutOn: true, globalStallOn: true }),
+      getLongTriggerConfigs: jest.fn().mockResolvedValue(triggerConfigs),
+      getLongTriggerStates: jest.fn().mockResolvedValue(triggerStates),
+      getLongRules: jest.fn().mockResolvedValue([]),
+      updateLongState: jest.fn(),
+      rearmTrigger: jest.fn(),
+      recordTriggerFire: jest.fn(),
+      recordLongTriggerAlert: jest.fn(),
+      getCoinSubscriberChatIds: jest.fn().mockResolvedValue(subscribers)
+    };
+    const dexScreener = {
+      batchGetTokens: jest.fn().mockResolvedValue(new Map([['solana:TEST', { ...pair(price), volume24h: 10000 }]])),
+      validatePairData: () => true
+    };
+    const rollingWindow = { isWarmupComplete: async () => true, getDataPointsCount: async () => 0 };
+    const registry = new LongTriggerRegistry();
+    registry.register(breakoutTrigger);
+    registry.register(stallTrigger);
+
+    const service = new LongListService(db as any, dexScreener as any, rollingWindow as any, registry);
+    const triggers = await service.checkTriggers();
+    const fired = triggers.map(trigger => trigger.triggerType);
+    return {
+      fired,
+      rearmed: db.rearmTrigger.mock.calls.map(([, , kind]) => kind),
+      recipients: triggers.map(trigger => trigger.chatIds),
+      recorded: db.recordTriggerFire.mock.calls.map(([chatId, , kind]) => `${chatId}:${kind}`)
+    };
+  };
+
+  const firedAt = (kind: string, hoursAgo: number, lastFirePrice: number): LongTriggerStateData =>
+    ({ chatId: '', coinId: 1, kind, armed: false, lastFireUtc: now - hoursAgo * 3600, lastFirePrice, state: {} });
+
+  beforeEach(() => {
+    jest.spyOn(globalAlertBus, 'emitLongTrigger').mockResolvedValue();
+    jest.spyOn(globalSnoozes, 'filterRecipients').mockImplementation(async chatIds => chatIds);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('should only apply the cooldown to coins without per-trigger settings', async () => {
+    expect((await check([firedAt('breakout', 1, 1.15)])).fired).toEqual([]);
+    // Past the cooldown it fires again on a 4% move, with the default hysteresis_pct of 0
+    expect(await check([firedAt('breakout', 3, 1.15)])).toMatchObject({ fired: ['breakout'], rearmed: [] });
+  });
+
+  it('should fall back to the global hysteresis_pct unless the coin sets its own band', async () => {
+    expect((await check([firedAt('breakout', 3, 1.15)], [], 1.2, [], 10)).fired).toEqual([]);
+    expect(await check([firedAt('breakout', 3, 1.4)], [], 1.2, [], 10)).toMatchObject({ fired: ['breakout'], rearmed: ['breakout'] });
+
+    // rearm=0 on the coin turns the global band off
+    const off: LongTriggerConfigData = { chatId: '', coinId: 1, kind: 'breakout', enabled: null, config: {}, cooldownHours: null, rearmPct: 0 };
+    expect((await check([firedAt('breakout', 3, 1.15)], [off], 1.2, [], 10)).fired).toEqual(['breakout']);
+  });
+
+  it('should evaluate each subscribed chat with its own settings and state', async () => {
+    const off: LongTriggerConfigData = { chatId: 'b', coinId: 1, kind: 'breakout', enabled: false, config: {}, cooldownHours: null, rearmPct: null };
+    const result = await check([], [off], 1.2, ['a', 'b']);
+    expect(result.recipients).toEqual([['a']]);
+    expect(result.recorded).toEqual(['a:breakout']);
+
+    // Chat a's cooldown doesn't hold back chat b
+    const cooling = { ...firedAt('breakout', 1, 1.15), chatId: 'a' };
+    expect((await check([cooling], [], 1.2, ['a', 'b'])).recipients).toEqual([['b']]);
+  });
+
+  it('should hold a fired trigger until price clears its re-arm band', async () => {
+    const band = (kind: string): LongTriggerConfigData => ({ chatId: '', coinId: 1, kind, enabled: null, config: {}, cooldownHours: null, rearmPct: 10 });
+    expect((await check([firedAt('breakout', 3, 1.15)], [band('breakout')])).fired).toEqual([]);
+    expect(await check([firedAt('breakout', 3, 1.4)], [band('breakout')])).toMatchObject({ fired: ['breakout'], rearmed: ['breakout'] });
+
+    // A stall re-arms once the coin leaves the stall, however little price moved
+    expect(await check([firedAt('stall', 3, 0.97)], [band('stall')], 0.97)).toMatchObject({ fired: [], rearmed: [] });
+    expect(await check([firedAt('stall', 3, 0.97)], [band('stall')], 0.9)).toMatchObject({ fired: [], rearmed: ['stall'] });
+  });
+});
@@ -0,0 +1,52 @@
+import {
+  buildWatchlistPage,
+  decodeWatchlistAction,
+  encodeWatchlistAction,
+  sortWatchlist,
+  DEFAULT_WATCHLIST_VIEW
+} from '../services/watchlist';
+
+describe('Watchlist', () => {
+  const coins = Array.from({ length: 23 }, (_, i) => ({
+    coinId: i + 1,
+    symbol: `C${i + 1}`,
+    priceChange24h: i - 10,
+    retraceFrom72h: -i,
+    volume24h: 1000 * (23 - i),
+    enabledTriggers: i % 2 === 0 ? ['retrace'] : ['retrace', 'breakout']
+  }));
+
+  it('should round-trip button data within the callback limit', () => {
+    const actions = [
+      { type: 'list' as const, view: { page: 2, sort: 'volume' as const, filter: 'breakout' } },
+      { type: 'coin' as const, coinId: 123456, view: { page: 0, sort: 'retrace' as const, filter: 'all' } }
+    ];
+    for (const action of actions) {
+      expect(Buffer.byteLength(encodeWatchlistAction(action))).toBeLessThanOrEqual(64);
+      expect(decodeWatchlistAction(encodeWatchlistAction(action))).toEqual(action);
+    }
+    expect(decodeWatchlistAction('wl:l:x:chg:all')).toBeNull();
+    expect(decodeWatchlistAction('wl:c:1:0:nope:all')).toBeNull();
+  });
+
+  it('should sort best first with missing data last', () => {
+    const sorted = sortWatchlist([...coins, { coinId: 99, symbol: 'NEW', enabledTriggers: [] }], 'change');
+    expect(sorted[0]?.symbol).toBe('C23');
+    expect(sorted[sorted.length - 1]?.symbol).toBe('NEW');
+    expect(sortWatchlist(coins, 'retrace')[0]?.symbol).toBe('C23');
+    expect(sortWatchlist(coins, 'volume')[0]?.symbol).toBe('C1');
+  });
+
+  it('should page, filter and clamp past the last page', () => {
+    const first = buildWatchlistPage(coins, DEFAULT_WATCHLIST_VIEW);
+    expect(first.text).toContain('(23 coins, by 24h change)\nPage 1/3');
+    const buttons = first.keyboard.inline_keyboard.flat().map(button => button.text);
+    expect(buttons).toContain('Next ▶️');
+    expect(buttons).not.toContain('◀️ Prev');
+    expect(buttons).toContain('🔎 Triggers: all ➜ breakout');
+
+    const filtered = buildWatchlistPage(coins, { page: 9, sort: 'change', filter: 'breakout' });
+    expect(filtered.text).toContain('(11 coins with breakout on, by 24h change)\nPage 2/2');
+    expect(filtered.text).toContain('11. *C2*');
+  });
+});
@@ -0,0 +1,21 @@
+export interface Candle {
+  // Candle open time, unix seconds
+  timestamp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  // Volume traded during the candle, in USD
+  volume: number;
+}
+
+export interface CandleQuery {
+  fromTs: number;
+  toTs: number;
+  intervalMinutes: number;
+}
+
+export interface HistoricalCandleProvider {
+  readonly name: string;
+  getCandles(chain: string, tokenAddress: string, query: CandleQuery): Promise<Candle[]>;
+}
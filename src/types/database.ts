@@ -8,18 +8,14 @@ export interface CoinData {
   tokenAddress: string;
   symbol: string;
   name?: string;
-  config: {
-    retraceOn: boolean;
-    stallOn: boolean;
-    breakoutOn: boolean;
-    mcapOn: boolean;
-    retracePct: number;
-    stallVolPct: number;
-    stallBandPct: number;
-    breakoutPct: number;
-    breakoutVolX: number;
-    mcapLevels?: string;
-  };
+}
+
+export interface ChatData {
+  chatId: string;
+  type: string;
+  title?: string;
+  longCount: number;
+  hotCount: number;
 }
 
 export interface LongStateData {
@@ -34,14 +30,46 @@ export interface LongStateData {
   v24Sum?: number;
   lastPrice?: number;
   lastMcap?: number;
+  priceChange24h?: number;
   lastUpdatedUtc: number;
-  lastRetraceFireUtc?: number;
-  lastStallFireUtc?: number;
-  lastBreakoutFireUtc?: number;
-  lastMcapFireUtc?: number;
-  lastRetracePrice?: number;
-  lastBreakoutPrice?: number;
-  lastStallPrice?: number;
+}
+
+// Owner of long trigger settings, state and rules migrated from before they were per chat,
+// until a chat claims the coin
+export const UNCLAIMED_CHAT_ID = '';
+
+export interface LongTriggerConfigData {
+  // The subscribed chat these settings belong to
+  chatId: string;
+  coinId: number;
+  kind: string;
+  // null means "use the trigger definition's default"
+  enabled: boolean | null;
+  config: Record<string, unknown>;
+  // null means "use the global ScheduleCfg value"
+  cooldownHours: number | null;
+  rearmPct: number | null;
+}
+
+export interface LongRuleData {
+  ruleId: number;
+  chatId: string;
+  coinId: number;
+  expression: string;
+  enabled: boolean;
+  createdAtUtc: number;
+  lastFireUtc?: number;
+}
+
+export interface LongTriggerStateData {
+  chatId: string;
+  coinId: number;
+  kind: string;
+  lastFireUtc?: number;
+  lastFirePrice?: number;
+  // False after a fire until price moves far enough to re-arm
+  armed: boolean;
+  state: Record<string, unknown>;
 }
 
 export interface ScheduleConfigData {
@@ -50,10 +78,23 @@ export interface ScheduleConfigData {
   longCheckpointHours: number;
   hotIntervalMinutes: number;
   cooldownHours: number;
+  hysteresisPct: number;
   globalRetraceOn: boolean;
   globalStallOn: boolean;
   globalBreakoutOn: boolean;
   globalMcapOn: boolean;
+  // Default retrace ladder for coins without their own levels; empty = single threshold
+  retraceLadder: number[];
+  // Drawdown percentages for hot list failsafe alerts; the last step is critical
+  hotFailsafeSteps: number[];
+  // Non-critical alerts are held for a digest inside this window; null = off
+  quietHours: QuietHoursWindow | null;
+}
+
+// Minutes after local midnight in TIMEZONE; a start after the end wraps past midnight
+export interface QuietHoursWindow {
+  startMinute: number;
+  endMinute: number;
 }
 
 export interface UpdateLongStateData {
@@ -68,4 +109,5 @@ export interface UpdateLongStateData {
   h72Low?: number;
   v12Sum?: number;
   v24Sum?: number;
+  priceChange24h?: number;
 }
\ No newline at end of file
@@ -1,7 +1,20 @@
+export interface TxnCounts {
+  buys: number;
+  sells: number;
+}
+
+export interface PairTxns {
+  m5: TxnCounts;
+  h1: TxnCounts;
+  h6: TxnCounts;
+  h24: TxnCounts;
+}
+
 export interface DexScreenerPair {
   chainId: string;
   dexId: string;
   url: string;
+  pairAddress: string;
   tokenAddress: string;
   labels?: string[];
   baseToken: {
@@ -16,24 +29,7 @@ export interface DexScreenerPair {
   };
   priceNative: string;
   priceUsd?: string;
-  txns: {
-    m5: {
-      buys: number;
-      sells: number;
-    };
-    h1: {
-      buys: number;
-      sells: number;
-    };
-    h6: {
-      buys: number;
-      sells: number;
-    };
-    h24: {
-      buys: number;
-      sells: number;
-    };
-  };
+  txns: PairTxns;
   volume: {
     h24: number;
     h6: number;
@@ -78,6 +74,12 @@ export interface PairInfo {
   priceChange24h: number;
   priceChange1h: number;
   liquidity: number | null;
+  // Pool the price comes from, its quote token and the price in that token; only DexScreener provides these
+  pairAddress?: string | undefined;
+  quoteTokenAddress?: string | undefined;
+  priceNative?: number | undefined;
+  // Buy/sell counts; only DexScreener provides these
+  txns?: PairTxns | undefined;
   info?: {
     imageUrl?: string;
     websites?: { url: string }[];
@@ -9,6 +9,9 @@ export interface Social {
 
 export interface HotListEntry {
   hotId: number;
+  // Chat the entry belongs to and alerts go to
+  chatId?: string | undefined;
+  coinId?: number | undefined;
   contractAddress: string;
   chainId: string;
   symbol: string;
@@ -18,26 +21,44 @@ export interface HotListEntry {
   socials: Array<{ label: string, url: string }>;
   addedAtUtc: number;
   failsafeFired: boolean;
+  // Per-entry drawdown steps; undefined uses ScheduleCfg.hotFailsafeSteps, [] disables the failsafe
+  failsafeSteps?: number[] | undefined;
+  failsafeFiredSteps: number[];
+  // Highest price seen since the entry was added, drives trail triggers
+  peakPrice?: number | undefined;
+  lowPrice?: number | undefined;
+  lastPrice?: number | undefined;
+  // Entry is deactivated with a summary alert once this passes
+  expiresAtUtc?: number | undefined;
   activeTriggers: HotTrigger[];
 }
 
 export interface HotTrigger {
-  kind: 'pct' | 'mcap';
+  // For 'trail', value is the allowed drop from the peak in percent
+  kind: 'pct' | 'mcap' | 'trail';
   value: number;
   fired: boolean;
   anchorPrice: number;
   anchorMcap?: number;
+  // Set for re-arming pct/mcap triggers: a fired trigger resets after moving back this far past its target
+  rearmBandPct?: number | undefined;
+  fireCount: number;
+  lastFiredUtc?: number | undefined;
 }
 
 export interface HotAlert {
   hotId: number;
+  // Owning chat of the entry; unset falls back to the default chat
+  chatId?: string | undefined;
   symbol: string;
-  alertType: 'pct' | 'mcap' | 'failsafe' | 'entry_added';
+  alertType: 'pct' | 'mcap' | 'trail' | 'failsafe' | 'entry_added' | 'expired';
   message: string;
   currentPrice: number;
   currentMcap?: number | undefined;
   deltaFromAnchor: number;
   targetValue?: number | undefined;
+  // Failsafe steps below the last one only warn
+  severity?: 'warn' | 'critical' | undefined;
   timestamp: number;
 }
 
@@ -48,5 +69,7 @@ export interface HotListConfig {
 
 export interface HotListEvaluator {
   evaluateEntry(entry: HotListEntry, currentPrice: number, currentMcap?: number): HotAlert[];
+  // Fired triggers whose reset band has been crossed and can fire again
+  findRearmedTriggers(entry: HotListEntry, currentPrice: number, currentMcap?: number): HotTrigger[];
   shouldRemoveEntry(entry: HotListEntry): boolean;
 }
\ No newline at end of file
@@ -0,0 +1,22 @@
+export interface SnoozeScope {
+  coinId?: number;
+  hotId?: number;
+  // A kind also covers its variants: 'rule' covers 'rule:12', 'pct' covers 'pct:-20'
+  triggerKind?: string;
+}
+
+// An alert about to be delivered, matched against a chat's snoozes
+export interface SnoozeTarget extends SnoozeScope {
+  symbol?: string;
+}
+
+export interface SnoozeData extends SnoozeScope {
+  snoozeId: number;
+  chatId: string;
+  label: string;
+  expiresAtUtc: number;
+  createdAtUtc: number;
+  // Suppressed alerts keyed "SYMBOL kind"
+  suppressed: Record<string, number>;
+  endedAtUtc?: number;
+}
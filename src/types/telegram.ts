@@ -1,5 +1,5 @@
 import { Context, Telegraf } from 'telegraf';
-import { Update, Message } from 'telegraf/typings/core/types/typegram';
+import { Update, Message, InlineKeyboardMarkup } from 'telegraf/typings/core/types/typegram';
 
 export interface BotCommand {
   command: string;
@@ -20,6 +20,10 @@ export interface TelegramMessage {
   };
 }
 
+// Ordered from least to most privileged; each role can run everything the ones before it can
+export const USER_ROLES = ['viewer', 'editor', 'owner'] as const;
+export type UserRole = typeof USER_ROLES[number];
+
 export type TelegramBot = Telegraf<Context<Update>>;
 export type TelegramContext = Context<Update>;
 
@@ -28,6 +32,19 @@ export interface OutboxMessage {
   text: string;
   fingerprint: string;
   timestamp: number;
+  parseMode?: 'MarkdownV2' | 'HTML' | undefined;
+  disablePreview?: boolean | undefined;
+  replyMarkup?: InlineKeyboardMarkup | undefined;
+  // Sent as a photo with the text as its caption
+  photo?: Buffer | undefined;
+}
+
+export interface OutboxBacklog {
+  pending: number;
+  // Enqueue time of the oldest unsent message, null when the backlog is empty
+  oldestTsUtc: number | null;
+  // Messages given up on in the last 24 hours
+  failedLastDay: number;
 }
 
 export interface MessageSender {
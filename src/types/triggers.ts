@@ -1,15 +1,4 @@
-export interface TriggerConfig {
-  retraceOn: boolean;
-  stallOn: boolean;
-  breakoutOn: boolean;
-  mcapOn: boolean;
-  retracePct: number;
-  stallVolPct: number;
-  stallBandPct: number;
-  breakoutPct: number;
-  breakoutVolX: number;
-  mcapLevels?: number[] | undefined;
-}
+import { PairInfo } from './dexscreener';
 
 export interface LongListState {
   coinId: number;
@@ -24,19 +13,13 @@ export interface LongListState {
   lastPrice?: number;
   lastMcap?: number;
   lastUpdatedUtc: number;
-  lastRetraceFireUtc?: number;
-  lastStallFireUtc?: number;
-  lastBreakoutFireUtc?: number;
-  lastMcapFireUtc?: number;
-  lastRetracePrice?: number;
-  lastBreakoutPrice?: number;
-  lastStallPrice?: number;
 }
 
 export interface TriggerResult {
   coinId: number;
   symbol: string;
-  triggerType: 'retrace' | 'stall' | 'breakout' | 'mcap';
+  // Kind of the trigger definition that fired (retrace, stall, breakout, mcap, ...)
+  triggerType: string;
   message: string;
   price: number;
   marketCap?: number | undefined;
@@ -44,6 +27,12 @@ export interface TriggerResult {
   priceChange24h: number;
   retraceFromHigh?: number | undefined;
   targetLevel?: number | undefined;
+  // Which way a level was crossed, for level-based triggers
+  direction?: 'up' | 'down' | undefined;
+  // Set when triggerType is 'rule'
+  ruleId?: number | undefined;
+  // Subscribed chats that haven't snoozed it; unset for coins nobody follows (default chat)
+  chatIds?: string[] | undefined;
 }
 
 export interface AnchorReportData {
@@ -54,11 +43,66 @@ export interface AnchorReportData {
   retraceFrom72hHigh: number;
   volume24h: number;
   solPerformanceDiff?: number;
+  retraceLadder?: Array<{ level: number; fired: boolean }> | undefined;
+}
+
+export type TriggerConfigValue = number | boolean | number[];
+
+export interface TriggerParamSpec {
+  type: 'number' | 'boolean' | 'numberList';
+  description: string;
+  min?: number;
+  max?: number;
+  // Short /long_set key kept from the fixed-column days, e.g. `stall_vol`
+  alias?: string;
+}
+
+export interface LongTriggerContext<C, S> {
+  coinId: number;
+  symbol: string;
+  pair: PairInfo;
+  // Rolling window stats as they were before this check
+  state: LongListState;
+  config: C;
+  triggerState: S;
+  lastFireUtc?: number | undefined;
+  lastFirePrice?: number | undefined;
+  // Resolved cooldown for this coin and kind, for triggers that manage their own repeats
+  cooldownHours: number;
+  now: number;
+}
+
+export interface LongTriggerFire<S> {
+  message: string;
+  retraceFromHigh?: number;
+  targetLevel?: number;
+  direction?: 'up' | 'down';
+  nextState?: S;
 }
 
-export interface TriggerEvaluator {
-  evaluateRetrace(state: LongListState, config: TriggerConfig, currentPrice: number, cooldownHours: number): boolean;
-  evaluateStall(state: LongListState, config: TriggerConfig, currentVolume: number, currentPrice: number, cooldownHours: number): boolean;
-  evaluateBreakout(state: LongListState, config: TriggerConfig, currentPrice: number, currentVolume: number, cooldownHours: number): boolean;
-  evaluateMcap(state: LongListState, config: TriggerConfig, currentMcap: number, cooldownHours: number): { triggered: boolean; level?: number };
-}
\ No newline at end of file
+export interface LongTriggerDefinition<C extends object = any, S extends object = any> {
+  kind: string;
+  // One-line description shown in command help
+  label: string;
+  defaultEnabled: boolean;
+  defaultConfig: C;
+  configSchema: { [K in keyof C & string]: TriggerParamSpec };
+  initialState: S;
+  // Overrides ScheduleCfg.cooldownHours for this trigger kind
+  cooldownHours?: number;
+  evaluate(ctx: LongTriggerContext<C, S>): LongTriggerFire<S> | null;
+  // True when the trigger already fires each condition once (e.g. ladder rungs),
+  // so cooldown and re-arm are skipped
+  managesRepeats?(ctx: LongTriggerContext<C, S>): boolean;
+  // Whether the move since the last fire is enough to fire again; defaults to
+  // price moving rearmPct away from lastFirePrice in either direction
+  isRearmed?(ctx: LongTriggerContext<C, S>, rearmPct: number): boolean;
+}
+
+export interface TriggerSettingsUpdate {
+  enabled?: Record<string, boolean>;
+  params?: Record<string, Record<string, TriggerConfigValue>>;
+  // null clears the per-coin override
+  cooldownHours?: Record<string, number | null>;
+  rearmPct?: Record<string, number | null>;
+}
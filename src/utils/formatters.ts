@@ -81,6 +81,16 @@ export class Formatters {
     return `\`${symbol.padEnd(8)} ${priceStr.padStart(8)} ${change24hStr.padStart(7)} ${retraceStr.padStart(6)}% ${volumeStr.padStart(10)}\``;
   }
 
+  static formatRetraceLadder(rungs: Array<{ level: number; fired: boolean }>): string {
+    return rungs.map(rung => `-${rung.level}%${rung.fired ? '●' : '○'}`).join(' ');
+  }
+
+  static formatQuietHours(window: { startMinute: number; endMinute: number }): string {
+    const clock = (minutes: number) =>
+      `${Math.floor(minutes / 60).toString().padStart(2, '0')}:${(minutes % 60).toString().padStart(2, '0')}`;
+    return `${clock(window.startMinute)}-${clock(window.endMinute)}`;
+  }
+
   static escapeMarkdown(text: string): string {
     if (!text) return '';
 
@@ -1,4 +1,5 @@
 import { PairInfo } from '../types/dexscreener';
+import { QuietHoursWindow } from '../types/database';
 import { logger } from './logger';
 
 export interface ValidationRule {
@@ -251,4 +252,83 @@ export function validateNumericRange(value: number, min: number, max: number, na
   }
   
   return { valid: true };
-}
\ No newline at end of file
+}
+/**
+ * Parses hot list failsafe steps such as `40` or `30,60` (drawdown percentages).
+ * `off` (or an empty string) means no failsafe.
+ */
+export function parseFailsafeSteps(raw: string): { valid: boolean; steps?: number[]; error?: string } {
+  const cleaned = raw.trim().toLowerCase();
+  if (cleaned === '' || cleaned === 'off') {
+    return { valid: true, steps: [] };
+  }
+
+  const steps: number[] = [];
+  for (const part of cleaned.split(',')) {
+    const value = parseFloat(part.replace(/^-/, '').replace(/%$/, ''));
+    const range = validateNumericRange(value, 1, 99, 'Failsafe step');
+    if (!range.valid) {
+      return { valid: false, error: range.error! };
+    }
+    steps.push(value);
+  }
+
+  return { valid: true, steps: Array.from(new Set(steps)).sort((a, b) => a - b) };
+}
+
+/**
+ * Parses a hot list entry lifetime such as `30m`, `48h` or `2d` into hours (max 30 days).
+ */
+export function parseTtlHours(raw: string): { valid: boolean; hours?: number; error?: string } {
+  const match = raw.trim().toLowerCase().match(/^(\d+(?:\.\d+)?)([mhd]?)$/);
+  if (!match) {
+    return { valid: false, error: 'Use a duration like 30m, 48h or 2d' };
+  }
+
+  const value = parseFloat(match[1]!);
+  const hours = match[2] === 'm' ? value / 60 : match[2] === 'd' ? value * 24 : value;
+  if (hours <= 0 || hours > 720) {
+    return { valid: false, error: 'TTL must be between 1 minute and 30 days' };
+  }
+
+  return { valid: true, hours };
+}
+
+/**
+ * Parses a quiet hours window such as `23:00-07:00`; `off` or empty disables it.
+ */
+export function parseQuietHours(raw: string): { valid: boolean; window?: QuietHoursWindow | null; error?: string } {
+  const cleaned = raw.trim().toLowerCase();
+  if (cleaned === '' || cleaned === 'off') {
+    return { valid: true, window: null };
+  }
+
+  const match = cleaned.match(/^(\d{1,2}):(\d{2})\s*-\s*(\d{1,2}):(\d{2})$/);
+  if (!match) {
+    return { valid: false, error: 'Use HH:MM-HH:MM, e.g. 23:00-07:00' };
+  }
+
+  const [startHour, startMinute, endHour, endMinute] = match.slice(1).map(part => parseInt(part, 10)) as [number, number, number, number];
+  if (startHour > 23 || endHour > 23 || startMinute > 59 || endMinute > 59) {
+    return { valid: false, error: 'Hours must be 00-23 and minutes 00-59' };
+  }
+
+  const window = { startMinute: startHour * 60 + startMinute, endMinute: endHour * 60 + endMinute };
+  if (window.startMinute === window.endMinute) {
+    return { valid: false, error: 'Start and end must differ' };
+  }
+
+  return { valid: true, window };
+}
+
+/**
+ * Parses a symbol alias such as `$WIF` or `bonk2`: 1-20 letters, digits or `_.-`, stored uppercase.
+ */
+export function parseAlias(raw: string): { valid: boolean; alias?: string; error?: string } {
+  const cleaned = raw.trim().replace(/^\$/, '');
+  if (!/^[A-Za-z0-9_.-]{1,20}$/.test(cleaned)) {
+    return { valid: false, error: 'Aliases are 1-20 letters, digits, _ . or -' };
+  }
+
+  return { valid: true, alias: cleaned.toUpperCase() };
+}